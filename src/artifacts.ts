@@ -0,0 +1,281 @@
+/**
+ * Run Artifacts
+ * Playwright traces and videos of a tool call, saved for later inspection
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * A call with `artifacts: { trace: true }` records a Playwright trace (screenshots, DOM
+ * snapshots and sources) of its browser context; `video: true` records the pages. The
+ * files are written to `artifacts.dir` when the call ends, and their paths are returned
+ * with a summary of the browser actions found in the trace. Open a trace with
+ * `npx playwright show-trace <file>`.
+ *
+ * Videos need a context created for the call, so they cannot be recorded on sessions
+ * or attached tabs; traces can.
+ */
+
+import { randomUUID } from 'crypto';
+import { strFromU8, unzipSync } from 'fflate';
+import { mkdirSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { BrowserContext, BrowserContextOptions, Page, Video } from 'playwright';
+import { z } from 'zod';
+import { getConfig } from './config.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('artifacts');
+
+const MAX_LISTED_FAILURES = 20;
+
+export const ArtifactOptionsSchema = z
+  .object({
+    trace: z
+      .boolean()
+      .optional()
+      .describe('Record a Playwright trace (screenshots, DOM snapshots, sources)'),
+    video: z.boolean().optional().describe('Record a video of the pages (fresh pages only)'),
+  })
+  .strict()
+  .describe('Save a trace and/or video of what the browser did during the call');
+
+export type ArtifactOptions = z.infer<typeof ArtifactOptionsSchema>;
+
+/**
+ * Artifacts parameter accepted by every page-based tool
+ */
+export const ArtifactsParamsSchema = z.object({
+  artifacts: ArtifactOptionsSchema.optional(),
+});
+
+export interface ActionSummary {
+  /** Browser actions in the trace (navigations, clicks, evaluations, ...) */
+  total: number;
+  failed: number;
+  /** Action counts by name, e.g. `{ "Frame.goto": 1, "Frame.evaluateExpression": 12 }` */
+  byName: Record<string, number>;
+  /** URLs the pages were navigated to */
+  navigations: string[];
+  /** Failed actions with their errors (at most 20) */
+  failures: Array<{ name: string; error: string }>;
+}
+
+/**
+ * Event of Playwright's `trace.trace` file logged when an action starts
+ */
+interface BeforeActionEvent {
+  type: 'before';
+  callId: string;
+  class: string;
+  method: string;
+  title?: string;
+  params?: { url?: unknown };
+}
+
+/**
+ * Event of Playwright's `trace.trace` file logged when an action ends
+ */
+interface AfterActionEvent {
+  type: 'after';
+  callId: string;
+  error?: { message?: string };
+}
+
+type ActionEvent = BeforeActionEvent | AfterActionEvent;
+
+export interface ArtifactReport {
+  /** Trace zip, viewable with `npx playwright show-trace` */
+  trace?: string;
+  videos?: string[];
+  actions?: ActionSummary;
+  /** Artifacts that could not be recorded or saved */
+  errors?: string[];
+}
+
+/**
+ * Records the artifacts of one tool call
+ */
+export class ArtifactRecorder {
+  private readonly name: string;
+  private tracing: BrowserContext | null = null;
+  private videos: Video[] = [];
+  private saved: ArtifactReport = {};
+  private errors: string[] = [];
+  private readonly onPage = (page: Page) => {
+    const video = page.video();
+    if (video) {
+      this.videos.push(video);
+    }
+  };
+
+  constructor(
+    readonly options: ArtifactOptions,
+    tool: string,
+    readonly dir: string = getConfig().artifacts.dir
+  ) {
+    const time = new Date().toISOString().replace(/[:.]/g, '-');
+    this.name = `${time}-${tool}-${randomUUID().slice(0, 8)}`;
+  }
+
+  /**
+   * Whether the call needs a context created for it
+   */
+  get video(): boolean {
+    return !!this.options.video;
+  }
+
+  /**
+   * Options for a context created for the call: where to record videos
+   */
+  contextOptions(): BrowserContextOptions {
+    if (!this.options.video) {
+      return {};
+    }
+    mkdirSync(this.dir, { recursive: true });
+    return { recordVideo: { dir: this.dir } };
+  }
+
+  /**
+   * Start tracing the context the call runs in and collect the videos of its new pages
+   */
+  async start(context: BrowserContext): Promise<void> {
+    if (this.options.video) {
+      context.on('page', this.onPage);
+    }
+    if (!this.options.trace) return;
+
+    try {
+      await context.tracing.start({
+        name: this.name,
+        title: this.name,
+        screenshots: true,
+        snapshots: true,
+        sources: true,
+      });
+      this.tracing = context;
+    } catch (error) {
+      this.fail('Cannot start tracing', error);
+    }
+  }
+
+  /**
+   * Stop tracing and save the trace; videos are saved by `report` once their pages close
+   */
+  async stop(context: BrowserContext): Promise<void> {
+    context.off('page', this.onPage);
+    if (this.tracing !== context) return;
+    this.tracing = null;
+
+    const path = join(this.dir, `${this.name}.zip`);
+    try {
+      mkdirSync(this.dir, { recursive: true });
+      await context.tracing.stop({ path });
+      this.saved.trace = path;
+      this.saved.actions = await summarizeTrace(path);
+    } catch (error) {
+      this.fail('Cannot save trace', error);
+    }
+  }
+
+  /**
+   * Paths of the saved artifacts; call after the call's pages have closed
+   */
+  async report(): Promise<ArtifactReport> {
+    const videos: string[] = [];
+    for (const [index, video] of this.videos.entries()) {
+      const path = join(this.dir, `${this.name}-${index + 1}.webm`);
+      try {
+        await video.saveAs(path);
+        await video.delete();
+        videos.push(path);
+      } catch (error) {
+        this.fail('Cannot save video', error);
+      }
+    }
+    this.videos = [];
+
+    if (videos.length > 0) {
+      this.saved.videos = videos;
+    }
+    if (this.saved.trace || videos.length > 0) {
+      logger.info(`Saved artifacts: ${[this.saved.trace, ...videos].filter(Boolean).join(', ')}`);
+    }
+    return { ...this.saved, ...(this.errors.length > 0 && { errors: this.errors }) };
+  }
+
+  private fail(message: string, error: unknown): void {
+    logger.warn(message, error);
+    this.errors.push(`${message}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * One-line account of saved artifacts, e.g. "[artifacts: trace .websee/artifacts/x.zip (12 actions)]"
+ */
+export function summarizeArtifacts(report: ArtifactReport): string {
+  const parts: string[] = [];
+  if (report.trace) {
+    parts.push(`trace ${report.trace} (${report.actions?.total ?? 0} actions)`);
+  }
+  if (report.videos) {
+    parts.push(`video ${report.videos.join(', ')}`);
+  }
+  if (report.errors) {
+    parts.push(`${report.errors.length} error(s)`);
+  }
+  return `[artifacts: ${parts.join(', ') || 'none saved'}]`;
+}
+
+// ============================================================================
+// Trace Summary
+// ============================================================================
+
+/**
+ * Summarize the browser actions recorded in a trace zip
+ */
+export async function summarizeTrace(path: string): Promise<ActionSummary> {
+  const summary: ActionSummary = { total: 0, failed: 0, byName: {}, navigations: [], failures: [] };
+  const files = unzipSync(await readFile(path), { filter: file => file.name === 'trace.trace' });
+  const events = files['trace.trace'];
+  if (!events) {
+    return summary;
+  }
+
+  const names = new Map<string, string>();
+  for (const line of strFromU8(events).split('\n')) {
+    const event = parseActionEvent(line);
+    if (!event) continue;
+
+    if (event.type === 'before') {
+      const name = `${event.class}.${event.method}`;
+      names.set(event.callId, event.title ?? name);
+      summary.total++;
+      summary.byName[name] = (summary.byName[name] ?? 0) + 1;
+      if (event.method === 'goto' && typeof event.params?.url === 'string') {
+        summary.navigations.push(event.params.url);
+      }
+    } else if (event.error) {
+      summary.failed++;
+      if (summary.failures.length < MAX_LISTED_FAILURES) {
+        summary.failures.push({
+          name: names.get(event.callId) ?? 'unknown',
+          error: String(event.error.message ?? event.error).split('\n')[0],
+        });
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Action event on one line of a trace, or null for other events and broken lines
+ */
+function parseActionEvent(line: string): ActionEvent | null {
+  if (!line.trim()) return null;
+  try {
+    const event = JSON.parse(line) as { type?: unknown };
+    return event.type === 'before' || event.type === 'after' ? (event as ActionEvent) : null;
+  } catch {
+    return null;
+  }
+}
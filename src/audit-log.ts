@@ -0,0 +1,282 @@
+/**
+ * Audit Log
+ * Records every tool call as one JSON line: arguments, navigated URLs, duration, result size, error
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * Enabled by `audit.path` in websee.config or WEBSEE_AUDIT_LOG. Secrets in arguments and
+ * URLs (passwords, tokens, API keys, cookies, authorization headers and any key listed in
+ * `audit.redactKeys`) are replaced with "[REDACTED]" before they are written, and so are
+ * the text typed by `fill` steps and the expressions of `assert` steps, which carry
+ * passwords under harmless keys. When the
+ * file reaches `audit.maxBytes` it is renamed to `<path>.1` (older files shift up to
+ * `<path>.<maxFiles>`) and a new file is started.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { dirname } from 'path';
+import { ResolvedConfig } from './config.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('audit-log');
+
+export const REDACTED = '[REDACTED]';
+
+// Argument keys, header names and query parameters whose values are never logged
+const SECRET_KEY_PATTERN =
+  /pass(word|wd|phrase)?$|secret|token|api[-_]?key|authorization|cookie|credential|private[-_]?key/i;
+
+// Fields of interaction steps that hold what the client typed into or evaluated in the page
+const SECRET_STEP_FIELDS: Record<string, string> = { fill: 'value', assert: 'expression' };
+
+export interface AuditEntry {
+  /** ISO time the call started */
+  timestamp: string;
+  tool: string;
+  sessionId?: string;
+  /** Validated arguments (raw arguments if validation failed), with secrets redacted */
+  arguments: unknown;
+  /** URLs the call navigated to, with secrets redacted */
+  urls: string[];
+  durationMs: number;
+  /** Bytes of the JSON result sent to the client */
+  resultBytes?: number;
+  error?: { code: number; message: string };
+}
+
+export type AuditLogOptions = Omit<ResolvedConfig['audit'], 'path'>;
+
+export interface ToolAuditSummary {
+  calls: number;
+  errors: number;
+  totalDurationMs: number;
+  maxDurationMs: number;
+  resultBytes: number;
+}
+
+export interface AuditSummary {
+  files: string[];
+  entries: number;
+  /** Lines that were not valid audit entries */
+  skipped: number;
+  firstAt?: string;
+  lastAt?: string;
+  errors: number;
+  tools: Record<string, ToolAuditSummary>;
+  /** Navigations per host */
+  hosts: Record<string, number>;
+}
+
+/**
+ * Append-only JSONL audit log with size-based rotation
+ */
+export class AuditLog {
+  private size: number | null = null;
+
+  constructor(
+    readonly path: string,
+    private options: AuditLogOptions
+  ) {}
+
+  /**
+   * Redact an entry and append it to the log; write failures are logged, never thrown
+   */
+  record(entry: AuditEntry): void {
+    const extraKeys = this.options.redactKeys;
+    const line =
+      JSON.stringify({
+        ...entry,
+        arguments: redactSecrets(entry.arguments, extraKeys),
+        urls: entry.urls.map(url => redactUrl(url, extraKeys)),
+        ...(entry.error && {
+          error: { ...entry.error, message: redactSecrets(entry.error.message, extraKeys) },
+        }),
+      }) + '\n';
+
+    try {
+      const bytes = Buffer.byteLength(line);
+      if (this.size === null) {
+        mkdirSync(dirname(this.path), { recursive: true });
+        this.size = existsSync(this.path) ? statSync(this.path).size : 0;
+      }
+      if (this.size > 0 && this.size + bytes > this.options.maxBytes) {
+        this.rotate();
+      }
+
+      appendFileSync(this.path, line);
+      this.size += bytes;
+    } catch (error) {
+      logger.warn(`Cannot write audit log ${this.path}`, error);
+    }
+  }
+
+  private rotate(): void {
+    const { maxFiles } = this.options;
+    rmSync(`${this.path}.${maxFiles}`, { force: true });
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      if (existsSync(`${this.path}.${index}`)) {
+        renameSync(`${this.path}.${index}`, `${this.path}.${index + 1}`);
+      }
+    }
+    if (maxFiles > 0) {
+      renameSync(this.path, `${this.path}.1`);
+    } else {
+      rmSync(this.path, { force: true });
+    }
+    this.size = 0;
+  }
+}
+
+/**
+ * Audit log described by a resolved configuration, or null if auditing is off
+ */
+export function createAuditLog(config: ResolvedConfig): AuditLog | null {
+  const { path, ...options } = config.audit;
+  return path ? new AuditLog(path, options) : null;
+}
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+/**
+ * Copy of a value with secret-looking keys, URL credentials, bearer tokens and the typed
+ * text of `fill` and `assert` steps redacted
+ */
+export function redactSecrets(value: unknown, extraKeys: string[] = []): unknown {
+  if (typeof value === 'string') {
+    return redactString(value, extraKeys);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item, extraKeys));
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const { action } = value as { action?: unknown };
+  const stepField = typeof action === 'string' ? SECRET_STEP_FIELDS[action] : undefined;
+  const redacted: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    redacted[key] =
+      key === stepField || isSecretKey(key, extraKeys) ? REDACTED : redactSecrets(child, extraKeys);
+  }
+  return redacted;
+}
+
+/**
+ * URL with its password and secret query parameters redacted
+ */
+export function redactUrl(url: string, extraKeys: string[] = []): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  let changed = false;
+  if (parsed.password) {
+    parsed.password = REDACTED;
+    changed = true;
+  }
+  for (const key of Array.from(parsed.searchParams.keys())) {
+    if (isSecretKey(key, extraKeys)) {
+      parsed.searchParams.set(key, REDACTED);
+      changed = true;
+    }
+  }
+  return changed ? parsed.href.replaceAll(encodeURIComponent(REDACTED), REDACTED) : url;
+}
+
+function redactString(value: string, extraKeys: string[]): string {
+  const withoutTokens = value.replace(/\b(Bearer|Basic)\s+[\w.~+/=-]+/gi, `$1 ${REDACTED}`);
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(withoutTokens)
+    ? redactUrl(withoutTokens, extraKeys)
+    : withoutTokens;
+}
+
+function isSecretKey(key: string, extraKeys: string[]): boolean {
+  return (
+    SECRET_KEY_PATTERN.test(key) ||
+    extraKeys.some(extra => extra.toLowerCase() === key.toLowerCase())
+  );
+}
+
+// ============================================================================
+// Summary
+// ============================================================================
+
+/**
+ * Summarize an audit log and its rotated files
+ */
+export async function summarizeAuditLog(path: string, maxFiles = 20): Promise<AuditSummary> {
+  // Oldest rotated file first, so first/last reflect the whole history
+  const files = [
+    ...Array.from({ length: maxFiles }, (_, i) => `${path}.${maxFiles - i}`),
+    path,
+  ].filter(file => existsSync(file));
+
+  const summary: AuditSummary = {
+    files,
+    entries: 0,
+    skipped: 0,
+    errors: 0,
+    tools: {},
+    hosts: {},
+  };
+
+  for (const file of files) {
+    const content = await readFile(file, 'utf-8');
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        summary.skipped++;
+        continue;
+      }
+      if (typeof entry?.tool !== 'string') {
+        summary.skipped++;
+        continue;
+      }
+
+      summary.entries++;
+      summary.firstAt ??= entry.timestamp;
+      summary.lastAt = entry.timestamp;
+
+      const tool = (summary.tools[entry.tool] ??= {
+        calls: 0,
+        errors: 0,
+        totalDurationMs: 0,
+        maxDurationMs: 0,
+        resultBytes: 0,
+      });
+      tool.calls++;
+      tool.totalDurationMs += entry.durationMs ?? 0;
+      tool.maxDurationMs = Math.max(tool.maxDurationMs, entry.durationMs ?? 0);
+      tool.resultBytes += entry.resultBytes ?? 0;
+      if (entry.error) {
+        tool.errors++;
+        summary.errors++;
+      }
+
+      for (const url of entry.urls ?? []) {
+        const host = hostOf(url);
+        summary.hosts[host] = (summary.hosts[host] ?? 0) + 1;
+      }
+    }
+  }
+
+  return summary;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host || url;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Authentication
+ * Applies stored login state to new browser contexts and captures it from live sessions
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * New contexts start from the `auth.storageState` file in websee.config when it exists.
+ * Otherwise, if `auth.loginScript` is configured, the script logs in once per browser
+ * and its cookies and localStorage are reused (and saved to `auth.storageState`).
+ */
+
+import { existsSync } from 'fs';
+import { mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { Browser, BrowserContext, BrowserContextOptions, Page } from 'playwright';
+import { ConfigError, getConfig, importDefault } from './config.js';
+import { Emulation, emulationOptions, mergeEmulation } from './emulation.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('auth');
+
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+/**
+ * Default export of a login script
+ */
+export type LoginScript = (args: { page: Page; context: BrowserContext }) => Promise<void>;
+
+// Login state produced by the login script, per browser
+const loginStates = new WeakMap<Browser, Promise<StorageState>>();
+
+/**
+ * Options for a new browser context: configured viewport and emulation (with a call's
+ * emulation on top) and login state
+ */
+export async function getContextOptions(
+  browser: Browser,
+  emulation?: Emulation
+): Promise<BrowserContextOptions> {
+  const config = getConfig();
+  const storageState = await getStorageState(browser);
+
+  return {
+    ...(config.viewport && { viewport: config.viewport }),
+    ...emulationOptions(mergeEmulation(config.emulation, emulation)),
+    ...(storageState && { storageState }),
+  };
+}
+
+/**
+ * Save a context's cookies and localStorage as a Playwright storageState file
+ */
+export async function saveStorageState(
+  context: BrowserContext,
+  path: string
+): Promise<StorageState> {
+  await mkdir(dirname(path), { recursive: true });
+  return context.storageState({ path });
+}
+
+async function getStorageState(browser: Browser): Promise<string | StorageState | undefined> {
+  const { storageState, loginScript } = getConfig().auth;
+
+  if (storageState && existsSync(storageState)) {
+    return storageState;
+  }
+
+  if (!loginScript) {
+    if (storageState) {
+      logger.debug(`No login state at ${storageState} yet; contexts start logged out`);
+    }
+    return undefined;
+  }
+
+  let state = loginStates.get(browser);
+  if (!state) {
+    state = runLoginScript(browser, loginScript, storageState);
+    loginStates.set(browser, state);
+    // Retry on the next context if the login failed
+    state.catch(() => loginStates.delete(browser));
+  }
+  return state;
+}
+
+async function runLoginScript(
+  browser: Browser,
+  scriptPath: string,
+  savePath: string | undefined
+): Promise<StorageState> {
+  const login = await importDefault(scriptPath);
+  if (typeof login !== 'function') {
+    throw new ConfigError(`Login script ${scriptPath} must export a default function`);
+  }
+
+  logger.info(`Logging in with ${scriptPath}`);
+  const { viewport } = getConfig();
+  const context = await browser.newContext(viewport ? { viewport } : {});
+
+  try {
+    const page = await context.newPage();
+    await (login as LoginScript)({ page, context });
+
+    if (savePath) {
+      const state = await saveStorageState(context, savePath);
+      logger.info(`Saved login state to ${savePath}`);
+      return state;
+    }
+    return await context.storageState();
+  } finally {
+    await context.close().catch(() => {
+      // Context may already be closed
+    });
+  }
+}
@@ -4,6 +4,10 @@
  */
 
 import { chromium, firefox, webkit, BrowserType, LaunchOptions } from 'playwright';
+import { getConfig } from './config.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('browser');
 
 export type BrowserName = 'chrome' | 'firefox' | 'safari' | 'chromium' | 'webkit';
 
@@ -85,9 +89,9 @@ export function getBrowserConfig(browserName: BrowserName = 'chromium'): Browser
 /**
  * Launch a browser with the specified configuration
  */
-export async function launchBrowser(browserName: BrowserName = 'chromium') {
+export async function launchBrowser(browserName: BrowserName = getConfig().browser) {
   const config = getBrowserConfig(browserName);
-  return await config.type.launch(config.options);
+  return await config.type.launch({ ...config.options, headless: getConfig().headless });
 }
 
 /**
@@ -107,6 +111,6 @@ export function getBrowserFromEnv(): BrowserName {
 export async function createBrowserWithIntelligence(browserName?: BrowserName) {
   const name = browserName || getBrowserFromEnv();
   const browser = await launchBrowser(name);
-  console.log(`✅ Launched ${name} browser`);
+  logger.info(`Launched ${name} browser`);
   return browser;
 }
@@ -0,0 +1,180 @@
+/**
+ * Browser Manager
+ * Owns the shared Playwright browser used by the MCP server
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * If the browser disconnects (crash, killed process) the next call launches a new one.
+ * With recording enabled, new contexts record to or replay from the archive.
+ *
+ * Every context it creates blocks navigations the URL policy forbids.
+ *
+ * With `cdpEndpoint` configured it attaches to a running Chrome over the DevTools
+ * protocol instead of launching one. Closing then only disconnects: the browser and
+ * the tabs the user opened stay as they are.
+ */
+
+import {
+  chromium,
+  firefox,
+  webkit,
+  Browser,
+  BrowserContext,
+  BrowserContextOptions,
+  Page,
+} from 'playwright';
+import { getContextOptions } from './auth.js';
+import { getConfig } from './config.js';
+import { Emulation } from './emulation.js';
+import { createLogger } from './logger.js';
+import { getRecording } from './recording.js';
+import { guardNavigations } from './url-policy.js';
+
+const logger = createLogger('browser-manager');
+
+// Contexts of an attached browser that hold the user's own tabs
+const userContexts = new WeakSet<BrowserContext>();
+
+/**
+ * Whether a context holds the user's own tabs in a browser attached over CDP. Nothing
+ * may be installed in such a context beyond the current call: no init scripts, no
+ * context bindings.
+ */
+export function isUserContext(context: BrowserContext): boolean {
+  return userContexts.has(context);
+}
+
+export class BrowserManager {
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  // Contexts this manager created, as opposed to those of an attached browser's own tabs
+  private ownContexts = new WeakSet<BrowserContext>();
+
+  /**
+   * Whether the browser is attached over CDP rather than launched
+   */
+  get attached(): boolean {
+    return !!getConfig().cdpEndpoint;
+  }
+
+  async launch(): Promise<Browser> {
+    if (this.browser?.isConnected()) {
+      return this.browser;
+    }
+
+    // Concurrent callers share a single launch
+    if (!this.launching) {
+      this.launching = this.launchBrowser().finally(() => {
+        this.launching = null;
+      });
+    }
+    return this.launching;
+  }
+
+  async close(): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+    if (browser) {
+      await browser.close();
+    }
+  }
+
+  /**
+   * Tabs of the attached browser, in window order; empty unless attached over CDP
+   */
+  async tabs(): Promise<Page[]> {
+    if (!this.attached) {
+      return [];
+    }
+    const browser = await this.launch();
+    const contexts = browser.contexts().filter(context => !this.ownContexts.has(context));
+    contexts.forEach(context => userContexts.add(context));
+    return contexts.flatMap(context => context.pages()).filter(page => !page.isClosed());
+  }
+
+  private async launchBrowser(): Promise<Browser> {
+    const { browser: name, headless, cdpEndpoint } = getConfig();
+    let browser: Browser;
+
+    if (cdpEndpoint) {
+      logger.info(`Attaching to the browser at ${cdpEndpoint}`);
+      browser = await chromium.connectOverCDP(cdpEndpoint);
+    } else {
+      switch (name) {
+        case 'firefox':
+          browser = await firefox.launch({ headless });
+          break;
+        case 'webkit':
+        case 'safari':
+          browser = await webkit.launch({ headless });
+          break;
+        default:
+          browser = await chromium.launch({ headless });
+      }
+    }
+
+    browser.on('disconnected', () => {
+      if (this.browser === browser) {
+        this.browser = null;
+        logger.warn(
+          this.attached
+            ? 'Attached browser disconnected; the next call attaches again'
+            : 'Browser disconnected; a new one is launched on the next call'
+        );
+      }
+    });
+
+    this.browser = browser;
+    return browser;
+  }
+
+  async newPage(emulation?: Emulation): Promise<Page> {
+    const browser = await this.launch();
+    const recording = getRecording();
+    const page = await browser.newPage({
+      ...(await getContextOptions(browser, emulation)),
+      ...recording?.contextOptions(),
+    });
+    this.ownContexts.add(page.context());
+
+    try {
+      await recording?.attach(page.context());
+      await guardNavigations(page.context());
+    } catch (error) {
+      await page.close().catch(() => {
+        // Ignore errors during cleanup
+      });
+      throw error;
+    }
+    return page;
+  }
+
+  /**
+   * Create an isolated browser context (own cookies and storage), logged in
+   * with the configured storage state or login script and emulating the configured
+   * device, with `emulation` on top; `options` adds e.g. video recording
+   */
+  async newContext(
+    emulation?: Emulation,
+    options: BrowserContextOptions = {}
+  ): Promise<BrowserContext> {
+    const browser = await this.launch();
+    const recording = getRecording();
+    const context = await browser.newContext({
+      ...(await getContextOptions(browser, emulation)),
+      ...recording?.contextOptions(),
+      ...options,
+    });
+    this.ownContexts.add(context);
+
+    try {
+      await recording?.attach(context);
+      await guardNavigations(context);
+    } catch (error) {
+      await context.close().catch(() => {
+        // Ignore errors during cleanup
+      });
+      throw error;
+    }
+    return context;
+  }
+}
@@ -7,6 +7,7 @@
 import { readFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join, resolve } from 'path';
+import { getConfig } from './config.js';
 
 interface BuildModule {
   id: string | number;
@@ -48,16 +49,29 @@ interface BuildManifest {
 export class BuildArtifactManager {
   private manifest: BuildManifest | null = null;
   private projectRoot: string;
+  private artifactPaths: string[];
   private moduleMap: Map<string, BuildModule> = new Map();
 
-  constructor(projectRoot: string = process.cwd()) {
+  constructor(
+    projectRoot: string = getConfig().projectRoot,
+    artifactPaths: string[] = getConfig().build.artifacts
+  ) {
     this.projectRoot = resolve(projectRoot);
+    this.artifactPaths = artifactPaths.map(path => resolve(this.projectRoot, path));
   }
 
   /**
    * Load build artifacts from webpack stats or vite manifest
    */
   async loadBuildArtifacts(): Promise<void> {
+    // Try configured artifact files first
+    for (const path of this.artifactPaths) {
+      if (existsSync(path)) {
+        await this.loadArtifactFile(path);
+        return;
+      }
+    }
+
     // Try webpack stats.json first
     const webpackStats = join(this.projectRoot, 'dist', 'stats.json');
     if (existsSync(webpackStats)) {
@@ -92,6 +106,21 @@ export class BuildArtifactManager {
     throw new Error('No build artifacts found. Please run build first.');
   }
 
+  /**
+   * Load a configured artifact file, detecting its format from its contents
+   */
+  private async loadArtifactFile(path: string): Promise<void> {
+    const data = JSON.parse(await readFile(path, 'utf-8'));
+
+    if (Array.isArray(data.chunks) || Array.isArray(data.modules)) {
+      await this.loadWebpackStats(path);
+    } else if (Object.values(data).some((entry: any) => typeof entry?.file === 'string')) {
+      await this.loadViteManifest(path);
+    } else {
+      this.processGenericManifest(data);
+    }
+  }
+
   /**
    * Load and parse webpack stats.json
    */
@@ -8,21 +8,36 @@
 import { program } from 'commander';
 import { SourceIntelligenceLayer } from './index.js';
 import { launchBrowser, BrowserName } from './browser-config.js';
+import { getContextOptions } from './auth.js';
+import { getConfig, loadConfig, setConfig } from './config.js';
+import { navigateTo } from './navigation.js';
+import { summarizeAuditLog } from './audit-log.js';
+import { summarizeRecording } from './recording.js';
 
 program
   .name('websee')
   .description('WebSee Source Intelligence - Browser automation with source tracking')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('-c, --config <path>', 'Config file (defaults to WEBSEE_CONFIG or websee.config.*)')
+  .option('--profile <name>', 'Config profile to apply (defaults to WEBSEE_PROFILE)')
+  .hook('preAction', async () => {
+    const { config, profile } = program.opts();
+    setConfig(await loadConfig({ configPath: config, profile }));
+  });
 
 program
   .command('debug <url>')
   .description('Debug a webpage with source intelligence')
-  .option('-b, --browser <type>', 'Browser to use (chrome, firefox, safari)', 'chromium')
+  .option('-b, --browser <type>', 'Browser to use (chrome, firefox, safari)')
   .option('-H, --headed', 'Run browser in headed mode')
   .option('-s, --screenshot <path>', 'Take screenshot on error')
   .action(async (url, options) => {
-    const browser = await launchBrowser(options.browser as BrowserName);
-    const context = await browser.newContext();
+    if (options.headed) {
+      setConfig({ ...getConfig(), headless: false });
+    }
+
+    const browser = await launchBrowser(options.browser as BrowserName | undefined);
+    const context = await browser.newContext(await getContextOptions(browser));
     const page = await context.newPage();
 
     const intelligence = new SourceIntelligenceLayer();
@@ -30,7 +45,7 @@ program
 
     try {
       console.log(`🔍 Navigating to ${url}...`);
-      await page.goto(url);
+      await navigateTo(page, url);
 
       // Example: Log all network requests
       const traces = intelligence.getNetworkTraces();
@@ -76,15 +91,15 @@ program
 program
   .command('analyze <url>')
   .description('Analyze a webpage for source maps and components')
-  .option('-b, --browser <type>', 'Browser to use', 'chromium')
+  .option('-b, --browser <type>', 'Browser to use')
   .action(async (url, options) => {
-    const browser = await launchBrowser(options.browser as BrowserName);
-    const page = await browser.newPage();
+    const browser = await launchBrowser(options.browser as BrowserName | undefined);
+    const page = await browser.newPage(await getContextOptions(browser));
 
     const intelligence = new SourceIntelligenceLayer();
     await intelligence.initialize(page);
 
-    await page.goto(url);
+    await navigateTo(page, url);
 
     const summary = intelligence.getSummary();
     console.log('\n📊 Source Intelligence Summary:');
@@ -101,4 +116,86 @@ program
     await browser.close();
   });
 
-program.parse(process.argv);
+program
+  .command('audit [path]')
+  .description('Summarize the tool-call audit log (defaults to audit.path from websee.config)')
+  .option('--json', 'Print the summary as JSON')
+  .action(async (path: string | undefined, options) => {
+    const { audit } = getConfig();
+    const logPath = path ?? audit.path;
+    if (!logPath) {
+      throw new Error('No audit log given and audit.path is not configured');
+    }
+
+    const summary = await summarizeAuditLog(logPath, audit.maxFiles);
+    if (options.json) {
+      console.log(JSON.stringify(summary, null, 2));
+      return;
+    }
+    if (summary.files.length === 0) {
+      throw new Error(`Audit log not found: ${logPath}`);
+    }
+
+    console.log(`\n📋 Audit Log: ${summary.files.join(', ')}`);
+    console.log(`  Calls: ${summary.entries} (${summary.errors} failed)`);
+    if (summary.firstAt) {
+      console.log(`  Period: ${summary.firstAt} - ${summary.lastAt}`);
+    }
+    if (summary.skipped > 0) {
+      console.log(`  Unreadable lines: ${summary.skipped}`);
+    }
+
+    const tools = Object.entries(summary.tools).sort(([, a], [, b]) => b.calls - a.calls);
+    if (tools.length > 0) {
+      console.log('\n  Tools:');
+      for (const [name, tool] of tools) {
+        const average = Math.round(tool.totalDurationMs / tool.calls);
+        console.log(
+          `    ${name}: ${tool.calls} calls, ${tool.errors} errors, ` +
+            `avg ${average}ms, max ${tool.maxDurationMs}ms, ${Math.round(tool.resultBytes / 1024)} KB`
+        );
+      }
+    }
+
+    const hosts = Object.entries(summary.hosts).sort(([, a], [, b]) => b - a);
+    if (hosts.length > 0) {
+      console.log('\n  Hosts navigated to:');
+      for (const [host, count] of hosts) {
+        console.log(`    ${host}: ${count}`);
+      }
+    }
+  });
+
+program
+  .command('recording [dir]')
+  .description('Summarize a recording (defaults to recording.dir from websee.config)')
+  .option('--json', 'Print the summary as JSON')
+  .action(async (dir: string | undefined, options) => {
+    const summary = await summarizeRecording(dir ?? getConfig().recording.dir);
+    if (options.json) {
+      console.log(JSON.stringify(summary, null, 2));
+      return;
+    }
+    if (summary.harFiles.length === 0) {
+      throw new Error(`No recorded network traffic in ${summary.dir}`);
+    }
+
+    console.log(`\n🎞️  Recording: ${summary.dir}`);
+    console.log(`  HAR files: ${summary.harFiles.length} (${summary.requests} requests)`);
+    console.log(`  Source maps: ${summary.sourceMaps.length}`);
+    console.log(`  Console messages: ${summary.consoleMessages}`);
+    console.log(`  Page errors: ${summary.pageErrors}`);
+    console.log(`  Component snapshots: ${summary.componentSnapshots}`);
+
+    if (summary.pages.length > 0) {
+      console.log('\n  Pages:');
+      for (const page of summary.pages) {
+        console.log(`    ${page}`);
+      }
+    }
+  });
+
+program.parseAsync(process.argv).catch(error => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -1,4 +1,14 @@
-import type { Page } from 'playwright';
+import type { BrowserContext, Frame, Page } from 'playwright';
+import { isUserContext } from './browser-manager.js';
+import { contextPages } from './frames.js';
+import { createLogger } from './logger.js';
+import { getRecording } from './recording.js';
+import { installSerializer, resolveSerializeLimits, SerializeLimits } from './serializer.js';
+
+const logger = createLogger('component-tracker');
+
+// Contexts whose pages, popups and iframes already get the hooks at load time
+const hookedContexts = new WeakSet<BrowserContext>();
 
 export interface SourceLocation {
   file: string;
@@ -24,6 +34,14 @@ export class ComponentTracker {
   private page: Page | null = null;
   private componentCache: Map<string, ComponentInfo> = new Map();
   private domToComponentMap: Map<string, string> = new Map();
+  private serializeLimits: SerializeLimits;
+
+  /**
+   * @param serializeLimits - Limits for the props and state values returned
+   */
+  constructor(serializeLimits: Partial<SerializeLimits> = {}) {
+    this.serializeLimits = resolveSerializeLimits(serializeLimits);
+  }
 
   async initialize(page: Page): Promise<void> {
     this.page = page;
@@ -37,70 +55,94 @@ export class ComponentTracker {
   private async installDevToolsHook(): Promise<void> {
     if (!this.page) throw new Error('Page not initialized');
 
-    // This needs to run BEFORE React loads, so we use addInitScript
-    await this.page.addInitScript(() => {
-      // Install minimal React DevTools hook if not present
-      if (!(window as any).__REACT_DEVTOOLS_GLOBAL_HOOK__) {
-        const hook: any = {
-          renderers: new Map(),
-          supportsFiber: true,
-          inject(renderer: any) {
-            const id = Math.random().toString(36).slice(2);
-            this.renderers.set(id, renderer);
-            console.log('[WebSee] Renderer registered:', id);
-            return id;
-          },
-          onCommitFiberRoot(_rendererID: any, root: any) {
-            // Track render time
-            if ((window as any).__COMPONENT_TRACKER__ && root?.current) {
-              (window as any).__COMPONENT_TRACKER__.lastRenderTimes.set('react', performance.now());
-            }
-          },
-          onCommitFiberUnmount() {},
-          getFiberRoots(_rendererID: string) {
-            const roots: any[] = [];
-            // Find React roots in the DOM
-            const rootElements = document.querySelectorAll('[data-reactroot], #root, [id*="root"]');
-            rootElements.forEach(el => {
-              const fiberKey = Object.keys(el).find(
-                key => key.startsWith('__reactFiber') || key.startsWith('__reactInternalInstance') || key.startsWith('__reactContainer')
+    // This needs to run BEFORE React loads, so we use addInitScript. Scripts added to the
+    // context also run in popups, and every init script runs in iframes too.
+    const context = this.page.context();
+    if (isUserContext(context)) {
+      // A tab of the user's own browser is already loaded and must not keep the scripts
+      // for later page loads, so only its current documents get the tracker
+      await this.injectTrackingHooks(false);
+      return;
+    }
+    const firstUse = !hookedContexts.has(context);
+    hookedContexts.add(context);
+
+    if (firstUse) {
+      await context.addInitScript(() => {
+        // Install minimal React DevTools hook if not present
+        if (!(window as any).__REACT_DEVTOOLS_GLOBAL_HOOK__) {
+          const hook: any = {
+            renderers: new Map(),
+            supportsFiber: true,
+            inject(renderer: any) {
+              const id = Math.random().toString(36).slice(2);
+              this.renderers.set(id, renderer);
+              console.log('[WebSee] Renderer registered:', id);
+              return id;
+            },
+            onCommitFiberRoot(_rendererID: any, root: any) {
+              // Track render time
+              if ((window as any).__COMPONENT_TRACKER__ && root?.current) {
+                (window as any).__COMPONENT_TRACKER__.lastRenderTimes.set(
+                  'react',
+                  performance.now()
+                );
+              }
+            },
+            onCommitFiberUnmount() {},
+            getFiberRoots(_rendererID: string) {
+              const roots: any[] = [];
+              // Find React roots in the DOM
+              const rootElements = document.querySelectorAll(
+                '[data-reactroot], #root, [id*="root"]'
               );
-              if (fiberKey) {
-                let fiber = (el as any)[fiberKey];
-                if (fiber) {
-                  // In React 18+, __reactContainer points to a HostRoot fiber
-                  // The stateNode property contains the FiberRoot which has the current property
-                  if (fiberKey.startsWith('__reactContainer') && fiber.stateNode && fiber.stateNode.current) {
-                    roots.push({ current: fiber.stateNode.current });
-                  } else {
-                    // For older React versions, navigate to the root fiber
-                    let current = fiber;
-                    while (current.return) {
-                      current = current.return;
+              rootElements.forEach(el => {
+                const fiberKey = Object.keys(el).find(
+                  key =>
+                    key.startsWith('__reactFiber') ||
+                    key.startsWith('__reactInternalInstance') ||
+                    key.startsWith('__reactContainer')
+                );
+                if (fiberKey) {
+                  let fiber = (el as any)[fiberKey];
+                  if (fiber) {
+                    // In React 18+, __reactContainer points to a HostRoot fiber
+                    // The stateNode property contains the FiberRoot which has the current property
+                    if (
+                      fiberKey.startsWith('__reactContainer') &&
+                      fiber.stateNode &&
+                      fiber.stateNode.current
+                    ) {
+                      roots.push({ current: fiber.stateNode.current });
+                    } else {
+                      // For older React versions, navigate to the root fiber
+                      let current = fiber;
+                      while (current.return) {
+                        current = current.return;
+                      }
+                      roots.push({ current });
                     }
-                    roots.push({ current });
                   }
                 }
-              }
-            });
-            return roots;
-          }
-        };
+              });
+              return roots;
+            },
+          };
 
-        (window as any).__REACT_DEVTOOLS_GLOBAL_HOOK__ = hook;
-        console.log('[WebSee] React DevTools hook installed before page load');
-      }
-    });
+          (window as any).__REACT_DEVTOOLS_GLOBAL_HOOK__ = hook;
+          console.log('[WebSee] React DevTools hook installed before page load');
+        }
+      });
+    }
 
     // Also inject tracking hooks that need to run after page content loads
-    await this.injectTrackingHooks();
+    await this.injectTrackingHooks(firstUse);
   }
 
-  private async injectTrackingHooks(): Promise<void> {
+  private async injectTrackingHooks(addInitScript: boolean): Promise<void> {
     if (!this.page) throw new Error('Page not initialized');
 
-    // Use addInitScript to ensure it runs before page loads
-    await this.page.addInitScript(() => {
+    const installTracker = () => {
       // Create global tracking object
       (window as any).__COMPONENT_TRACKER__ = {
         components: new Map(),
@@ -108,25 +150,49 @@ export class ComponentTracker {
         renderCounts: new Map(),
         lastRenderTimes: new Map(),
       };
-    });
+    };
+
+    // Use addInitScript to ensure it runs before page loads
+    if (addInitScript) {
+      await this.page.context().addInitScript(installTracker);
+    }
+
+    // Pages from persistent sessions are already loaded, so install it in their frames too;
+    // the other tabs of a user's browser are none of the call's business
+    const pages = isUserContext(this.page.context()) ? [this.page] : contextPages(this.page);
+    for (const frame of pages.flatMap(page => page.frames())) {
+      await frame
+        .evaluate(() => (window as any).__COMPONENT_TRACKER__ !== undefined)
+        .then(installed => (installed ? undefined : frame.evaluate(installTracker)))
+        .catch(() => {
+          // Frame may not have a document yet
+        });
+    }
   }
 
-  async getComponentTree(): Promise<ComponentInfo[]> {
+  /**
+   * Components rendered in a frame (the main frame by default)
+   */
+  async getComponentTree(frame?: Frame): Promise<ComponentInfo[]> {
     if (!this.page) throw new Error('Page not initialized');
+    const target = frame ?? this.page.mainFrame();
 
     const startTime = performance.now();
     const components: ComponentInfo[] = [];
 
+    // Props and state are serialized in the page
+    await installSerializer(target);
+
     // Extract React components
-    const reactComponents = await this.extractReactComponents();
+    const reactComponents = await this.extractReactComponents(target);
     components.push(...reactComponents);
 
     // Extract Vue components
-    const vueComponents = await this.extractVueComponents();
+    const vueComponents = await this.extractVueComponents(target);
     components.push(...vueComponents);
 
     // Extract Angular components
-    const angularComponents = await this.extractAngularComponents();
+    const angularComponents = await this.extractAngularComponents(target);
     components.push(...angularComponents);
 
     // Update cache
@@ -137,18 +203,19 @@ export class ComponentTracker {
       }
     }
 
+    getRecording()?.saveComponents(target.url(), components);
+
     const duration = performance.now() - startTime;
     if (duration > 50) {
-      console.warn(`Component tree extraction took ${duration.toFixed(2)}ms (target: <50ms)`);
+      logger.warn(`Component tree extraction took ${duration.toFixed(2)}ms (target: <50ms)`);
     }
 
     return components;
   }
 
-  private async extractReactComponents(): Promise<ComponentInfo[]> {
-    if (!this.page) return [];
-
-    return await this.page.evaluate(() => {
+  private async extractReactComponents(frame: Frame): Promise<ComponentInfo[]> {
+    return await frame.evaluate(limits => {
+      const serialize = (window as any).__WEBSEE_SERIALIZE__;
       const components: ComponentInfo[] = [];
       const tracker = (window as any).__COMPONENT_TRACKER__;
 
@@ -167,17 +234,26 @@ export class ComponentTracker {
         // Fallback: Manual fiber detection from DOM
         if (roots.length === 0) {
           console.log('[WebSee] Using fallback fiber detection from DOM');
-          const rootElements = document.querySelectorAll('[data-reactroot], #root, [id*="root"], [class*="root"]');
+          const rootElements = document.querySelectorAll(
+            '[data-reactroot], #root, [id*="root"], [class*="root"]'
+          );
           rootElements.forEach(el => {
             const fiberKey = Object.keys(el).find(
-              key => key.startsWith('__reactFiber') || key.startsWith('__reactInternalInstance') || key.startsWith('__reactContainer')
+              key =>
+                key.startsWith('__reactFiber') ||
+                key.startsWith('__reactInternalInstance') ||
+                key.startsWith('__reactContainer')
             );
             if (fiberKey) {
               let fiber = (el as any)[fiberKey];
               if (fiber) {
                 // In React 18+, __reactContainer points to a HostRoot fiber
                 // The stateNode property contains the FiberRoot which has the current property
-                if (fiberKey.startsWith('__reactContainer') && fiber.stateNode && fiber.stateNode.current) {
+                if (
+                  fiberKey.startsWith('__reactContainer') &&
+                  fiber.stateNode &&
+                  fiber.stateNode.current
+                ) {
                   console.log('[WebSee] Found React 18+ container, using stateNode.current');
                   roots.push({ current: fiber.stateNode.current });
                 } else {
@@ -308,8 +384,8 @@ export class ComponentTracker {
             name,
             type: 'react',
             source,
-            props: fiber.memoizedProps || {},
-            state: fiber.memoizedState || undefined,
+            props: serialize(fiber.memoizedProps || {}, limits),
+            state: fiber.memoizedState ? serialize(fiber.memoizedState, limits) : undefined,
             parent: parentName,
             children: [],
             domNodes,
@@ -336,13 +412,12 @@ export class ComponentTracker {
       }
 
       return components;
-    });
+    }, this.serializeLimits);
   }
 
-  private async extractVueComponents(): Promise<ComponentInfo[]> {
-    if (!this.page) return [];
-
-    return await this.page.evaluate(() => {
+  private async extractVueComponents(frame: Frame): Promise<ComponentInfo[]> {
+    return await frame.evaluate(limits => {
+      const serialize = (window as any).__WEBSEE_SERIALIZE__;
       const components: ComponentInfo[] = [];
       const tracker = (window as any).__COMPONENT_TRACKER__;
 
@@ -379,8 +454,11 @@ export class ComponentTracker {
             name,
             type: 'vue',
             source,
-            props: instance.props || {},
-            state: instance.data || instance.setupState || undefined,
+            props: serialize(instance.props || {}, limits),
+            state:
+              instance.data || instance.setupState
+                ? serialize(instance.data || instance.setupState, limits)
+                : undefined,
             parent: parentName,
             children: [],
             domNodes,
@@ -405,13 +483,12 @@ export class ComponentTracker {
       }
 
       return components;
-    });
+    }, this.serializeLimits);
   }
 
-  private async extractAngularComponents(): Promise<ComponentInfo[]> {
-    if (!this.page) return [];
-
-    return await this.page.evaluate(() => {
+  private async extractAngularComponents(frame: Frame): Promise<ComponentInfo[]> {
+    return await frame.evaluate(limits => {
+      const serialize = (window as any).__WEBSEE_SERIALIZE__;
       const components: ComponentInfo[] = [];
       const tracker = (window as any).__COMPONENT_TRACKER__;
 
@@ -465,7 +542,7 @@ export class ComponentTracker {
               type: 'angular',
               source,
               props,
-              state,
+              state: serialize(state, limits),
               parent: undefined,
               children: [],
               domNodes: [id],
@@ -481,18 +558,22 @@ export class ComponentTracker {
       }
 
       return components;
-    });
+    }, this.serializeLimits);
   }
 
-  async getComponentAtElement(selector: string): Promise<ComponentInfo | null> {
+  /**
+   * Component rendering the element matched by a selector in a frame (the main frame by default)
+   */
+  async getComponentAtElement(selector: string, frame?: Frame): Promise<ComponentInfo | null> {
     if (!this.page) throw new Error('Page not initialized');
+    const target = frame ?? this.page.mainFrame();
 
     try {
       // First, ensure we have the latest component tree
-      await this.getComponentTree();
+      await this.getComponentTree(target);
 
       // Get the element's ID or create one
-      const elementId = await this.page.evaluate((sel: string) => {
+      const elementId = await target.evaluate((sel: string) => {
         const el = document.querySelector(sel);
         if (!el) return null;
 
@@ -512,7 +593,7 @@ export class ComponentTracker {
 
       return this.componentCache.get(componentName) || null;
     } catch (e) {
-      console.error('Error getting component at element:', e);
+      logger.error('Error getting component at element', e);
       return null;
     }
   }
@@ -0,0 +1,462 @@
+/**
+ * Project Configuration
+ * Loads and validates websee.config.{ts,mjs,js,json} for the MCP server and the CLI
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * Settings are resolved in this order (later wins): defaults, the config file,
+ * the selected profile (`--profile` or WEBSEE_PROFILE), then environment variables
+ * (BROWSER, HEADLESS, PROJECT_ROOT, WEBSEE_AUDIT_LOG). Relative paths are resolved against the
+ * directory of the config file.
+ */
+
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { dirname, extname, isAbsolute, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import { Emulation, EmulationSchema } from './emulation.js';
+
+export const CONFIG_FILE_NAMES = [
+  'websee.config.ts',
+  'websee.config.mjs',
+  'websee.config.js',
+  'websee.config.json',
+];
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+export const ToolGroupSchema = z.enum([
+  'sessions',
+  'workflow',
+  'page',
+  'source',
+  'component',
+  'network',
+  'build',
+  'error',
+]);
+
+export type ToolGroup = z.infer<typeof ToolGroupSchema>;
+
+const BrowserSchema = z.enum(['chromium', 'chrome', 'firefox', 'webkit', 'safari']);
+
+const SettingsSchema = z
+  .object({
+    /** Root of the project being debugged (build artifacts are looked up here) */
+    projectRoot: z.string(),
+    browser: BrowserSchema,
+    headless: z.boolean(),
+    /** DevTools endpoint of a running Chrome to attach to instead of launching a browser */
+    cdpEndpoint: z.string().url(),
+    build: z
+      .object({
+        /** Stats or manifest files to try before the default locations (relative to projectRoot) */
+        artifacts: z.array(z.string()),
+      })
+      .partial()
+      .strict(),
+    sourceMaps: z
+      .object({
+        enabled: z.boolean(),
+        cacheSize: z.number().int().positive(),
+        /** Script URL (`*` wildcards allowed) to a source map URL or local file */
+        overrides: z.record(z.string()),
+      })
+      .partial()
+      .strict(),
+    navigation: z
+      .object({
+        /** Load state a navigation waits for */
+        waitUntil: z.enum(['load', 'domcontentloaded', 'networkidle', 'commit']),
+        timeoutMs: z.number().int().positive(),
+        /** Most navigations a single tool call may make */
+        maxPerCall: z.number().int().positive(),
+      })
+      .partial()
+      .strict(),
+    viewport: z
+      .object({
+        width: z.number().int().positive(),
+        height: z.number().int().positive(),
+      })
+      .strict(),
+    /** Emulation applied to every new browser context (tool calls can override it) */
+    emulation: EmulationSchema,
+    auth: z
+      .object({
+        /** Playwright storageState file applied to every new browser context */
+        storageState: z.string(),
+        /** Module whose default export logs in: `async ({ page, context }) => {}` */
+        loginScript: z.string(),
+      })
+      .partial()
+      .strict(),
+    pool: z
+      .object({
+        /** Tool calls that may use a browser context at the same time (others queue) */
+        maxConcurrency: z.number().int().positive(),
+        /** Reuse a context for this many calls before replacing it */
+        maxUsesPerContext: z.number().int().positive(),
+        /** How long a queued call waits for a free context */
+        acquireTimeoutMs: z.number().int().positive(),
+        /** Maximum duration of a tool call (0 disables) */
+        callTimeoutMs: z.number().int().min(0),
+      })
+      .partial()
+      .strict(),
+    /** Host patterns tools may navigate to (`*` wildcards allowed); empty allows any host */
+    urlAllowlist: z.array(z.string()),
+    /** Host patterns tools may never navigate to or fetch from */
+    urlDenylist: z.array(z.string()),
+    /** URL schemes tools may open (default: http, https) */
+    allowedSchemes: z.array(z.string().regex(/^[a-z][a-z0-9+.-]*$/i)),
+    output: z
+      .object({
+        /** Largest tool result in bytes of JSON; bigger results are shrunk (0 disables) */
+        maxResponseBytes: z.number().int().min(0),
+        /** Items per list returned by paginated tools when no `limit` is given */
+        pageSize: z.number().int().min(1).max(1000),
+      })
+      .partial()
+      .strict(),
+    audit: z
+      .object({
+        /** JSONL file recording every tool call (auditing is off without it) */
+        path: z.string(),
+        /** Size at which the file is rotated */
+        maxBytes: z.number().int().positive(),
+        /** Rotated files kept next to the log (`<path>.1` is the newest) */
+        maxFiles: z.number().int().min(0),
+        /** Additional argument, header or query parameter names to redact */
+        redactKeys: z.array(z.string()),
+      })
+      .partial()
+      .strict(),
+    recording: z
+      .object({
+        /** `record` archives what pages load; `replay` serves pages from the archive offline */
+        mode: z.enum(['off', 'record', 'replay']),
+        /** Archive directory (default: .websee/recording) */
+        dir: z.string(),
+      })
+      .partial()
+      .strict(),
+    artifacts: z
+      .object({
+        /** Where traces and videos of tool calls are saved (default: .websee/artifacts) */
+        dir: z.string(),
+      })
+      .partial()
+      .strict(),
+    tools: z
+      .object({
+        /** Tool groups served by the MCP server */
+        groups: z.array(ToolGroupSchema),
+      })
+      .partial()
+      .strict(),
+  })
+  .partial()
+  .strict();
+
+export const WebSeeConfigSchema = SettingsSchema.extend({
+  /** Named overrides, e.g. `local` and `staging` */
+  profiles: z.record(SettingsSchema).optional(),
+  /** Profile used when none is selected */
+  defaultProfile: z.string().optional(),
+}).strict();
+
+export type WebSeeSettings = z.infer<typeof SettingsSchema>;
+export type WebSeeConfig = z.infer<typeof WebSeeConfigSchema>;
+
+/**
+ * Fully resolved configuration used at runtime
+ */
+export interface ResolvedConfig {
+  /** Config file the settings came from, if any */
+  configPath?: string;
+  profile?: string;
+  projectRoot: string;
+  browser: z.infer<typeof BrowserSchema>;
+  headless: boolean;
+  cdpEndpoint?: string;
+  build: { artifacts: string[] };
+  sourceMaps: { enabled: boolean; cacheSize: number; overrides: Record<string, string> };
+  navigation: {
+    waitUntil: NonNullable<NonNullable<WebSeeSettings['navigation']>['waitUntil']>;
+    timeoutMs: number;
+    maxPerCall: number;
+  };
+  viewport?: { width: number; height: number };
+  emulation: Emulation;
+  auth: { storageState?: string; loginScript?: string };
+  pool: {
+    maxConcurrency: number;
+    maxUsesPerContext: number;
+    acquireTimeoutMs: number;
+    callTimeoutMs: number;
+  };
+  urlAllowlist: string[];
+  urlDenylist: string[];
+  allowedSchemes: string[];
+  output: { maxResponseBytes: number; pageSize: number };
+  audit: { path?: string; maxBytes: number; maxFiles: number; redactKeys: string[] };
+  recording: { mode: 'off' | 'record' | 'replay'; dir: string };
+  artifacts: { dir: string };
+  tools: { groups: ToolGroup[] };
+}
+
+export interface LoadConfigOptions {
+  /** Directory to search for a config file (defaults to the working directory) */
+  cwd?: string;
+  /** Explicit config file (defaults to WEBSEE_CONFIG, then a search of `cwd`) */
+  configPath?: string;
+  /** Profile to apply (defaults to WEBSEE_PROFILE, then the file's `defaultProfile`) */
+  profile?: string;
+}
+
+/**
+ * Thrown when the config file cannot be read or is invalid
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+let activeConfig: ResolvedConfig | null = null;
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Type helper for websee.config.ts files
+ */
+export function defineConfig(config: WebSeeConfig): WebSeeConfig {
+  return config;
+}
+
+/**
+ * Find, validate and resolve the project configuration
+ *
+ * @throws ConfigError if the file is unreadable, invalid, or the profile does not exist
+ */
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<ResolvedConfig> {
+  const cwd = resolve(options.cwd ?? process.cwd());
+  const configPath = findConfigFile(cwd, options.configPath ?? process.env.WEBSEE_CONFIG);
+  const file = configPath ? await readConfigFile(configPath) : {};
+
+  const profile = options.profile || process.env.WEBSEE_PROFILE || file.defaultProfile;
+  const { profiles = {}, defaultProfile: _, ...base } = file;
+
+  let settings: WebSeeSettings = base;
+  if (profile) {
+    if (!profiles[profile]) {
+      const available = Object.keys(profiles);
+      throw new ConfigError(
+        `Unknown profile "${profile}"` +
+          (available.length ? ` (available: ${available.join(', ')})` : ' (no profiles defined)')
+      );
+    }
+    settings = mergeSettings(base, profiles[profile]);
+  }
+
+  return resolveSettings(settings, configPath ? dirname(configPath) : cwd, configPath, profile);
+}
+
+/**
+ * Make a configuration the one used by browsers, tools and navigation
+ */
+export function setConfig(config: ResolvedConfig): void {
+  activeConfig = config;
+}
+
+/**
+ * Active configuration (defaults plus environment variables until one is loaded)
+ */
+export function getConfig(): ResolvedConfig {
+  if (!activeConfig) {
+    activeConfig = resolveSettings({}, process.cwd());
+  }
+  return activeConfig;
+}
+
+/**
+ * Match a value against a pattern where `*` matches any run of characters
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  const regex = new RegExp('^' + pattern.split('*').map(escapeRegExp).join('.*') + '$', 'i');
+  return regex.test(value);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findConfigFile(cwd: string, configPath: string | undefined): string | undefined {
+  if (configPath) {
+    const path = resolve(cwd, configPath);
+    if (!existsSync(path)) {
+      throw new ConfigError(`Config file not found: ${path}`);
+    }
+    return path;
+  }
+
+  return CONFIG_FILE_NAMES.map(name => resolve(cwd, name)).find(path => existsSync(path));
+}
+
+/**
+ * Import the default export of a config-referenced module (.ts needs a runtime with TypeScript support)
+ *
+ * @throws ConfigError if the module cannot be loaded
+ */
+export async function importDefault(path: string): Promise<unknown> {
+  try {
+    const module = await import(pathToFileURL(path).href);
+    return module.default ?? module;
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+      throw new ConfigError(
+        `Cannot load ${path}: run with tsx or a Node.js version with TypeScript support, ` +
+          'or use a .json / .mjs file'
+      );
+    }
+    throw new ConfigError(`Cannot load ${path}: ${(error as Error).message}`);
+  }
+}
+
+async function readConfigFile(path: string): Promise<WebSeeConfig> {
+  let raw: unknown;
+
+  if (extname(path) === '.json') {
+    try {
+      raw = JSON.parse(await readFile(path, 'utf-8'));
+    } catch (error) {
+      throw new ConfigError(`Cannot load ${path}: ${(error as Error).message}`);
+    }
+  } else {
+    raw = await importDefault(path);
+  }
+
+  const parsed = WebSeeConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.errors.map(e => `${e.path.join('.') || '(root)'}: ${e.message}`);
+    throw new ConfigError(`Invalid config in ${path}: ${issues.join(', ')}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Overlay a profile on the base settings (nested sections are merged, lists replaced)
+ */
+function mergeSettings(base: WebSeeSettings, override: WebSeeSettings): WebSeeSettings {
+  const merged: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(override)) {
+    const current = merged[key];
+    merged[key] = isPlainObject(current) && isPlainObject(value) ? { ...current, ...value } : value;
+  }
+
+  return merged as WebSeeSettings;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Apply defaults and environment variables, and make paths absolute
+ */
+function resolveSettings(
+  settings: WebSeeSettings,
+  baseDir: string,
+  configPath?: string,
+  profile?: string
+): ResolvedConfig {
+  const envBrowser = BrowserSchema.safeParse(process.env.BROWSER?.toLowerCase());
+  const browser = envBrowser.success ? envBrowser.data : (settings.browser ?? 'chromium');
+
+  const headless = process.env.HEADLESS
+    ? process.env.HEADLESS !== 'false'
+    : (settings.headless ?? true);
+
+  const projectRoot = resolve(baseDir, process.env.PROJECT_ROOT || settings.projectRoot || '.');
+
+  const overrides: Record<string, string> = {};
+  for (const [script, map] of Object.entries(settings.sourceMaps?.overrides ?? {})) {
+    overrides[script] = isUrl(map) ? map : resolve(baseDir, map);
+  }
+
+  const { storageState, loginScript } = settings.auth ?? {};
+  const auditPath = process.env.WEBSEE_AUDIT_LOG || settings.audit?.path;
+
+  return {
+    configPath,
+    profile,
+    projectRoot,
+    browser,
+    headless,
+    cdpEndpoint: process.env.WEBSEE_CDP_ENDPOINT || settings.cdpEndpoint,
+    build: {
+      artifacts: (settings.build?.artifacts ?? []).map(path => resolve(projectRoot, path)),
+    },
+    sourceMaps: {
+      enabled: settings.sourceMaps?.enabled ?? true,
+      cacheSize: settings.sourceMaps?.cacheSize ?? 50,
+      overrides,
+    },
+    navigation: {
+      waitUntil: settings.navigation?.waitUntil ?? 'networkidle',
+      timeoutMs: settings.navigation?.timeoutMs ?? 30000,
+      maxPerCall: settings.navigation?.maxPerCall ?? 10,
+    },
+    viewport: settings.viewport,
+    emulation: settings.emulation ?? {},
+    auth: {
+      storageState: storageState ? resolve(baseDir, storageState) : undefined,
+      loginScript: loginScript ? resolve(baseDir, loginScript) : undefined,
+    },
+    pool: {
+      maxConcurrency: settings.pool?.maxConcurrency ?? 4,
+      maxUsesPerContext: settings.pool?.maxUsesPerContext ?? 20,
+      acquireTimeoutMs: settings.pool?.acquireTimeoutMs ?? 60000,
+      callTimeoutMs: settings.pool?.callTimeoutMs ?? 300000,
+    },
+    urlAllowlist: settings.urlAllowlist ?? [],
+    urlDenylist: settings.urlDenylist ?? [],
+    allowedSchemes: (settings.allowedSchemes ?? ['http', 'https']).map(s => s.toLowerCase()),
+    output: {
+      maxResponseBytes: settings.output?.maxResponseBytes ?? 200000,
+      pageSize: settings.output?.pageSize ?? 100,
+    },
+    audit: {
+      path: auditPath ? resolve(baseDir, auditPath) : undefined,
+      maxBytes: settings.audit?.maxBytes ?? 10 * 1024 * 1024,
+      maxFiles: settings.audit?.maxFiles ?? 5,
+      redactKeys: settings.audit?.redactKeys ?? [],
+    },
+    recording: {
+      mode: settings.recording?.mode ?? 'off',
+      dir: resolve(baseDir, settings.recording?.dir ?? '.websee/recording'),
+    },
+    artifacts: {
+      dir: resolve(
+        baseDir,
+        process.env.WEBSEE_ARTIFACT_DIR || settings.artifacts?.dir || '.websee/artifacts'
+      ),
+    },
+    tools: {
+      groups: settings.tools?.groups ?? ToolGroupSchema.options,
+    },
+  };
+}
+
+function isUrl(value: string): boolean {
+  return !isAbsolute(value) && /^[a-z][a-z0-9+.-]*:/i.test(value);
+}
@@ -0,0 +1,312 @@
+/**
+ * Context Pool
+ * Runs tool calls on isolated browser contexts with a concurrency limit
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * At most `maxConcurrency` calls hold a context at once; further calls queue for up
+ * to `acquireTimeoutMs`. On Chromium, contexts are reset (pages closed, cookies,
+ * permissions, HTTP cache and all storage of every origin the call loaded cleared, service
+ * workers unregistered, back online) and reused for up to `maxUsesPerContext` calls. Other
+ * browsers cannot clear IndexedDB, Cache Storage and service workers of a context, so
+ * their contexts serve one call each. Contexts are replaced when a page crashes, the
+ * context closes or the browser disconnects. With a configured
+ * login state every call gets a fresh context, so the login is never cleared; while
+ * recording, too, so each call's HAR file is written when the call ends. Calls with
+ * their own emulation or a video run on a context created for them and closed afterwards.
+ */
+
+import { BrowserContext, Page } from 'playwright';
+import { BrowserManager } from './browser-manager.js';
+import { getConfig, ResolvedConfig } from './config.js';
+import { ArtifactRecorder } from './artifacts.js';
+import { Emulation, hasEmulation } from './emulation.js';
+import { createLogger } from './logger.js';
+import { getRecording } from './recording.js';
+import { AbortError, RunContext, TimeoutError, abortable, throwIfAborted } from './run-context.js';
+
+const logger = createLogger('context-pool');
+
+export type ContextPoolOptions = Omit<ResolvedConfig['pool'], 'callTimeoutMs'>;
+
+interface PooledContext {
+  context: BrowserContext;
+  uses: number;
+  broken: boolean;
+  /** Created with a call's own emulation or video recording, so never handed to another call */
+  dedicated: boolean;
+  /** Origins the context loaded anything from since its last reset */
+  origins: Set<string>;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+export interface PageOptions {
+  /** Emulation on top of the configured one; the page gets a context of its own */
+  emulation?: Emulation;
+  /** Trace and video recording for the call */
+  artifacts?: ArtifactRecorder;
+}
+
+export interface ContextPoolStats {
+  active: number;
+  idle: number;
+  queued: number;
+}
+
+export class ContextPool {
+  private idle: PooledContext[] = [];
+  private waiters: Waiter[] = [];
+  private active = 0;
+  private closed = false;
+
+  constructor(
+    private browserManager: BrowserManager,
+    private options: ContextPoolOptions = getConfig().pool
+  ) {}
+
+  /**
+   * Run a callback on a new page in a pooled context, closing the page afterwards.
+   * Aborting `run.signal` closes the page so pending navigations fail promptly.
+   * With `emulation` or a video the page gets a context of its own that is closed afterwards.
+   * Artifacts are recorded until the callback settles; their report is ready once this returns.
+   */
+  async withPage<T>(
+    fn: (page: Page) => Promise<T>,
+    run: RunContext = {},
+    options: PageOptions = {}
+  ): Promise<T> {
+    const { emulation, artifacts } = options;
+    await this.acquireSlot(run.signal);
+
+    let pooled: PooledContext | undefined;
+    try {
+      pooled =
+        hasEmulation(emulation) || artifacts?.video
+          ? await this.createContext(emulation, artifacts)
+          : await this.takeContext();
+      await artifacts?.start(pooled.context);
+      const page = await pooled.context.newPage();
+      const current = pooled;
+      page.on('crash', () => {
+        current.broken = true;
+        logger.warn('Page crashed; its context will be replaced');
+      });
+
+      const onAbort = () => {
+        page.close().catch(() => {
+          // Ignore errors during cleanup
+        });
+      };
+      run.signal?.addEventListener('abort', onAbort, { once: true });
+
+      try {
+        return await abortable(fn(page), run.signal);
+      } finally {
+        run.signal?.removeEventListener('abort', onAbort);
+      }
+    } finally {
+      if (pooled) {
+        await artifacts?.stop(pooled.context);
+        await this.release(pooled);
+      }
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * Current number of busy and idle contexts and queued calls
+   */
+  stats(): ContextPoolStats {
+    return { active: this.active, idle: this.idle.length, queued: this.waiters.length };
+  }
+
+  /**
+   * Close idle contexts and reject queued calls
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(new Error('Context pool closed'));
+    }
+    await Promise.all(this.idle.splice(0).map(pooled => this.discard(pooled)));
+  }
+
+  private async acquireSlot(signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal);
+    if (this.closed) {
+      throw new Error('Context pool closed');
+    }
+
+    if (this.active < this.options.maxConcurrency) {
+      this.active++;
+      return;
+    }
+
+    // Wait for a running call to hand over its slot
+    await new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve: () => {
+          cleanup();
+          resolve();
+        },
+        reject: error => {
+          cleanup();
+          reject(error);
+        },
+      };
+
+      const timer = setTimeout(() => {
+        this.removeWaiter(waiter);
+        waiter.reject(
+          new TimeoutError(
+            `No browser context became available within ${this.options.acquireTimeoutMs}ms ` +
+              `(${this.options.maxConcurrency} calls already running)`
+          )
+        );
+      }, this.options.acquireTimeoutMs);
+
+      const onAbort = () => {
+        this.removeWaiter(waiter);
+        waiter.reject(new AbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      this.waiters.push(waiter);
+    });
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      // The slot passes straight to the next queued call
+      next.resolve();
+    } else {
+      this.active--;
+    }
+  }
+
+  private removeWaiter(waiter: Waiter): void {
+    const index = this.waiters.indexOf(waiter);
+    if (index !== -1) {
+      this.waiters.splice(index, 1);
+    }
+  }
+
+  private async takeContext(): Promise<PooledContext> {
+    while (this.idle.length > 0) {
+      const pooled = this.idle.pop()!;
+      if (this.isUsable(pooled)) {
+        return pooled;
+      }
+      await this.discard(pooled);
+    }
+
+    return this.createContext();
+  }
+
+  private async createContext(
+    emulation?: Emulation,
+    artifacts?: ArtifactRecorder
+  ): Promise<PooledContext> {
+    const context = await this.browserManager.newContext(emulation, artifacts?.contextOptions());
+    const pooled: PooledContext = {
+      context,
+      uses: 0,
+      broken: false,
+      dedicated: !!emulation || !!artifacts,
+      origins: new Set(),
+    };
+    context.on('close', () => {
+      pooled.broken = true;
+    });
+    context.on('request', request => {
+      const { origin } = new URL(request.url());
+      if (origin !== 'null') {
+        pooled.origins.add(origin);
+      }
+    });
+    return pooled;
+  }
+
+  private isUsable(pooled: PooledContext): boolean {
+    return !pooled.broken && pooled.context.browser()?.isConnected() !== false;
+  }
+
+  /**
+   * Return a context to the pool after a call, or replace it if it is worn out or broken
+   */
+  private async release(pooled: PooledContext): Promise<void> {
+    pooled.uses++;
+
+    const { auth } = getConfig();
+    const reusable =
+      !this.closed &&
+      !pooled.dedicated &&
+      !auth.storageState &&
+      !auth.loginScript &&
+      getRecording()?.mode !== 'record' &&
+      pooled.uses < this.options.maxUsesPerContext &&
+      this.isUsable(pooled) &&
+      (await this.reset(pooled));
+
+    if (reusable) {
+      this.idle.push(pooled);
+    } else {
+      await this.discard(pooled);
+    }
+  }
+
+  /**
+   * Clear what one call leaves behind so the next call starts clean
+   *
+   * @returns false if the context could not be reset
+   */
+  private async reset(pooled: PooledContext): Promise<boolean> {
+    const { context } = pooled;
+    if (context.browser()?.browserType().name() !== 'chromium') {
+      return false;
+    }
+
+    try {
+      const cdp = await context.newCDPSession(context.pages()[0] ?? (await context.newPage()));
+      try {
+        // Local storage, IndexedDB, Cache Storage, service workers and the rest
+        for (const origin of pooled.origins) {
+          await cdp.send('Storage.clearDataForOrigin', { origin, storageTypes: 'all' });
+        }
+        await cdp.send('Network.clearBrowserCache');
+      } finally {
+        await cdp.detach().catch(() => {
+          // Page closed meanwhile
+        });
+      }
+      pooled.origins.clear();
+
+      for (const page of context.pages()) {
+        await page.close();
+      }
+      await pooled.context.clearCookies();
+      await pooled.context.clearPermissions();
+      await pooled.context.setOffline(false);
+      return true;
+    } catch (error) {
+      logger.debug('Failed to reset browser context', error);
+      return false;
+    }
+  }
+
+  private async discard(pooled: PooledContext): Promise<void> {
+    pooled.broken = true;
+    await pooled.context.close().catch(() => {
+      // Context may already be closed
+    });
+  }
+}
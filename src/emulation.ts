@@ -0,0 +1,106 @@
+/**
+ * Emulation
+ * Device, viewport, locale, timezone and media emulation for new browser contexts
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * An emulation block can be set in websee.config (`emulation`) and per tool call.
+ * The call's fields override the configured ones; a call that names a `device` also
+ * replaces the configured device, viewport, DPR and user agent. Emulation is fixed
+ * when a context is created, so calls with emulation get a context of their own and
+ * sessions are emulated from `session_open`.
+ */
+
+import { BrowserContextOptions, devices } from 'playwright';
+import { z } from 'zod';
+
+export const EmulationSchema = z
+  .object({
+    device: z
+      .string()
+      .refine(name => name in devices, {
+        message: 'Unknown device (use a Playwright device name such as "iPhone 13" or "Pixel 7")',
+      })
+      .describe(
+        'Playwright device descriptor, e.g. "iPhone 13" or "Pixel 7" (sets viewport, DPR, ' +
+          'user agent, touch and mobile mode)'
+      ),
+    viewport: z
+      .object({
+        width: z.number().int().positive(),
+        height: z.number().int().positive(),
+      })
+      .strict()
+      .describe('Custom viewport in CSS pixels'),
+    deviceScaleFactor: z.number().positive().max(10).describe('Device pixel ratio (DPR)'),
+    userAgent: z.string().min(1),
+    locale: z
+      .string()
+      .min(1)
+      .describe('Locale, e.g. "de-DE" (navigator.language, Intl formatting)'),
+    timezoneId: z.string().min(1).describe('IANA timezone, e.g. "America/New_York"'),
+    colorScheme: z.enum(['light', 'dark', 'no-preference']),
+    reducedMotion: z.enum(['reduce', 'no-preference']),
+    geolocation: z
+      .object({
+        latitude: z.number().min(-90).max(90),
+        longitude: z.number().min(-180).max(180),
+        accuracy: z.number().min(0).optional(),
+      })
+      .strict()
+      .describe('Position reported to the page; the geolocation permission is granted'),
+  })
+  .partial()
+  .strict()
+  .describe('Emulate a device, viewport, locale, timezone, color scheme or location');
+
+export type Emulation = z.infer<typeof EmulationSchema>;
+
+/**
+ * Emulation parameter accepted by every page-based tool
+ */
+export const EmulationParamsSchema = z.object({
+  emulation: EmulationSchema.optional(),
+});
+
+// Fields a device descriptor sets, dropped from the configured defaults when a call names a device
+const DEVICE_FIELDS = ['device', 'viewport', 'deviceScaleFactor', 'userAgent'] as const;
+
+/**
+ * Overlay a call's emulation on the configured defaults
+ */
+export function mergeEmulation(base: Emulation = {}, override: Emulation = {}): Emulation {
+  const merged: Emulation = { ...base };
+  if (override.device) {
+    DEVICE_FIELDS.forEach(field => delete merged[field]);
+  }
+  return { ...merged, ...override };
+}
+
+/**
+ * Browser context options for an emulation block
+ */
+export function emulationOptions(emulation: Emulation): BrowserContextOptions {
+  const { device, geolocation, ...rest } = emulation;
+  const options: BrowserContextOptions = device ? { ...devices[device] } : {};
+
+  // Explicit fields win over the device descriptor
+  for (const [key, value] of Object.entries(rest)) {
+    if (value !== undefined) {
+      (options as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  if (geolocation) {
+    options.geolocation = geolocation;
+    options.permissions = ['geolocation'];
+  }
+
+  return options;
+}
+
+/**
+ * Whether an emulation block sets anything
+ */
+export function hasEmulation(emulation: Emulation | undefined): emulation is Emulation {
+  return !!emulation && Object.values(emulation).some(value => value !== undefined);
+}
@@ -0,0 +1,105 @@
+/**
+ * Frames
+ * Finds the iframe or popup a tool should inspect
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * A frame is given by its name, a URL pattern (`*` wildcards) or a CSS selector of
+ * its `<iframe>` element. Frames of the tool's page are searched first, then those of
+ * popups and other pages in the same browser context, so an OAuth popup can be
+ * selected by its URL.
+ */
+
+import { Frame, Page } from 'playwright';
+import { z } from 'zod';
+import { matchesPattern } from './config.js';
+
+export const FrameSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    'Frame to inspect: iframe name, URL pattern (* wildcards) or CSS selector of the <iframe>; ' +
+      'popups opened by the page are searched too (default: the main frame)'
+  );
+
+export interface FrameSummary {
+  name: string;
+  url: string;
+  /** Index of the frame's page in the context (0 is the tool's page, higher ones are popups) */
+  page: number;
+  /** Whether this is the top-level frame of its page */
+  main: boolean;
+}
+
+/**
+ * Thrown when no frame matches the requested name, URL pattern or selector
+ */
+export class FrameNotFoundError extends Error {
+  constructor(
+    readonly frame: string,
+    readonly available: FrameSummary[]
+  ) {
+    super(
+      `No frame matches "${frame}" (available: ` +
+        (available.map(summary => summary.name || summary.url).join(', ') || 'none') +
+        ')'
+    );
+    this.name = 'FrameNotFoundError';
+  }
+}
+
+/**
+ * The page followed by the other open pages of its context, e.g. popups
+ */
+export function contextPages(page: Page): Page[] {
+  return [
+    page,
+    ...page
+      .context()
+      .pages()
+      .filter(other => other !== page && !other.isClosed()),
+  ];
+}
+
+/**
+ * Every frame of the page and its popups
+ */
+export function listFrames(page: Page): FrameSummary[] {
+  return contextPages(page).flatMap((owner, index) =>
+    owner.frames().map(frame => ({
+      name: frame.name(),
+      url: frame.url(),
+      page: index,
+      main: frame === owner.mainFrame(),
+    }))
+  );
+}
+
+/**
+ * Frame selected by name, URL pattern or `<iframe>` selector; the main frame if none is given
+ *
+ * @throws FrameNotFoundError if nothing matches
+ */
+export async function resolveFrame(page: Page, ref: string | undefined): Promise<Frame> {
+  if (!ref) {
+    return page.mainFrame();
+  }
+
+  const frames = contextPages(page).flatMap(owner => owner.frames());
+  const match =
+    frames.find(frame => frame.name() === ref) ??
+    frames.find(frame => matchesPattern(frame.url(), ref));
+  if (match) {
+    return match;
+  }
+
+  for (const frame of frames) {
+    const element = await frame.$(ref).catch(() => null);
+    const content = await element?.contentFrame();
+    if (content) {
+      return content;
+    }
+  }
+
+  throw new FrameNotFoundError(ref, listFrames(page));
+}
@@ -0,0 +1,603 @@
+/**
+ * HAR Export and Import
+ * Writes captured network traffic as an HTTP Archive (HAR 1.2) and reads HAR files back
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * The network tools keep every request and response of a page (headers, post data,
+ * timings and bodies). `buildHar` turns them into a HAR log that browsers and HAR
+ * viewers can open. Each entry also carries the stack of the code that made the
+ * request in `_initiator`, in the shape Chrome DevTools exports (zero-based line and
+ * column numbers), so the origin of a request survives the export.
+ *
+ * Bodies are included when they are text; binary bodies are left out. Redaction
+ * replaces authorization and cookie headers, cookies, secret query parameters and
+ * secret fields of JSON or form bodies, of requests and responses alike, with `[REDACTED]`.
+ *
+ * `importHar` turns a HAR file, e.g. one exported from a customer's browser, back into
+ * captured requests so the network tools can analyze it offline. `_initiator` stacks
+ * become stack traces, mapped to original sources when a resolver is given.
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { dirname } from 'path';
+import { REDACTED, redactSecrets, redactUrl } from './audit-log.js';
+import type { NetworkTrace } from './network-tracer.js';
+
+const CREATOR = { name: 'websee', version: '1.0.0' };
+
+// ============================================================================
+// HAR 1.2 Types
+// ============================================================================
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarCallFrame {
+  functionName: string;
+  url: string;
+  /** Zero-based */
+  lineNumber: number;
+  /** Zero-based */
+  columnNumber: number;
+}
+
+export interface HarInitiator {
+  type: 'parser' | 'script' | 'other';
+  url?: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  stack?: HarStack;
+}
+
+export interface HarStack {
+  callFrames: HarCallFrame[];
+  /** Asynchronous caller, as exported by Chrome */
+  parent?: HarStack;
+}
+
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  send: number;
+  wait: number;
+  receive: number;
+  ssl: number;
+}
+
+export interface HarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text?: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: {
+      size: number;
+      mimeType: string;
+      text?: string;
+      encoding?: string;
+      comment?: string;
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: HarTimings;
+  _resourceType?: string;
+  _initiator?: HarInitiator;
+}
+
+export interface Har {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    pages: Array<{
+      startedDateTime: string;
+      id: string;
+      title: string;
+      pageTimings: { onContentLoad: number; onLoad: number };
+    }>;
+    entries: HarEntry[];
+  };
+}
+
+// ============================================================================
+// Captured Traffic
+// ============================================================================
+
+/**
+ * A request as the network tools capture it
+ */
+export interface CapturedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  postData?: string | null;
+  resourceType?: string;
+  timestamp: number;
+}
+
+/**
+ * A response as the network tools capture it; `timing` is Playwright's request timing
+ */
+export interface CapturedResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  timing?: {
+    startTime: number;
+    domainLookupStart: number;
+    domainLookupEnd: number;
+    connectStart: number;
+    secureConnectionStart: number;
+    connectEnd: number;
+    requestStart: number;
+    responseStart: number;
+    responseEnd: number;
+  };
+  body: string | null;
+}
+
+export interface CapturedExchange {
+  request: CapturedRequest;
+  response?: CapturedResponse;
+  /** Trace of the code that made the request */
+  trace?: NetworkTrace;
+}
+
+export interface HarOptions {
+  /** Page the traffic belongs to */
+  page?: { url: string; title: string };
+  /** Include text request and response bodies (default: true) */
+  includeBodies?: boolean;
+  /** Replace secrets with `[REDACTED]` (default: true) */
+  redact?: boolean;
+  /** Further header, cookie, query and field names to redact */
+  redactKeys?: string[];
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Build a HAR 1.2 log from captured requests, oldest first
+ */
+export function buildHar(exchanges: CapturedExchange[], options: HarOptions = {}): Har {
+  const sorted = [...exchanges].sort((a, b) => a.request.timestamp - b.request.timestamp);
+  const pageref = options.page ? 'page_1' : undefined;
+
+  return {
+    log: {
+      version: '1.2',
+      creator: CREATOR,
+      pages: options.page
+        ? [
+            {
+              startedDateTime: new Date(sorted[0]?.request.timestamp ?? Date.now()).toISOString(),
+              id: 'page_1',
+              title: options.page.title || options.page.url,
+              pageTimings: { onContentLoad: -1, onLoad: -1 },
+            },
+          ]
+        : [],
+      entries: sorted.map(exchange => toEntry(exchange, pageref, options)),
+    },
+  };
+}
+
+/**
+ * Write a HAR log to a file, creating its directory; returns the number of bytes written
+ */
+export function writeHar(path: string, har: Har): number {
+  const json = JSON.stringify(har, null, 2);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, json);
+  return Buffer.byteLength(json);
+}
+
+function toEntry(
+  { request, response, trace }: CapturedExchange,
+  pageref: string | undefined,
+  options: HarOptions
+): HarEntry {
+  const includeBodies = options.includeBodies ?? true;
+  const redact = options.redact ?? true;
+  const keys = options.redactKeys ?? [];
+
+  const requestHeaders = redact
+    ? (redactSecrets(request.headers, keys) as Record<string, string>)
+    : request.headers;
+  const responseHeaders = response
+    ? redact
+      ? (redactSecrets(response.headers, keys) as Record<string, string>)
+      : response.headers
+    : {};
+  const url = redact ? redactUrl(request.url, keys) : request.url;
+  const timings = toTimings(response?.timing);
+  const started = response?.timing?.startTime ?? request.timestamp;
+
+  const postData = request.postData ?? undefined;
+  const mimeType = responseHeaders['content-type'] ?? '';
+  const responseBody = response?.body ?? null;
+
+  return {
+    ...(pageref && { pageref }),
+    startedDateTime: new Date(started).toISOString(),
+    time: totalTime(timings),
+    request: {
+      method: request.method,
+      url,
+      httpVersion: '',
+      cookies: parseCookies(request.headers['cookie'], redact),
+      headers: toNameValues(requestHeaders),
+      queryString: queryString(url),
+      ...(postData !== undefined &&
+        includeBodies && {
+          postData: {
+            mimeType: request.headers['content-type'] ?? '',
+            text: redact ? redactBody(postData, request.headers['content-type'], keys) : postData,
+          },
+        }),
+      headersSize: -1,
+      bodySize: postData === undefined ? 0 : Buffer.byteLength(postData),
+    },
+    response: {
+      status: response?.status ?? 0,
+      statusText: response?.statusText ?? '',
+      httpVersion: '',
+      cookies: parseSetCookies(response?.headers['set-cookie'], redact),
+      headers: toNameValues(responseHeaders),
+      content: toContent(responseBody, mimeType, includeBodies, redact ? keys : undefined),
+      redirectURL: responseHeaders['location'] ?? '',
+      headersSize: -1,
+      bodySize: responseBody === null ? -1 : Buffer.byteLength(responseBody),
+    },
+    cache: {},
+    timings,
+    ...(request.resourceType && { _resourceType: request.resourceType }),
+    ...(trace && { _initiator: toInitiator(trace) }),
+  };
+}
+
+/**
+ * HAR timings from Playwright's request timing, whose phases are relative to
+ * `startTime` and -1 when they did not happen
+ */
+function toTimings(timing: CapturedResponse['timing']): HarTimings {
+  if (!timing) {
+    return { blocked: -1, dns: -1, connect: -1, send: 0, wait: 0, receive: 0, ssl: -1 };
+  }
+
+  const span = (start: number, end: number) => (start >= 0 && end >= start ? end - start : -1);
+  return {
+    blocked: -1,
+    dns: span(timing.domainLookupStart, timing.domainLookupEnd),
+    connect: span(timing.connectStart, timing.connectEnd),
+    send: 0,
+    wait: Math.max(0, span(timing.requestStart, timing.responseStart)),
+    // The response end is not known yet when the response arrives for streamed bodies
+    receive: Math.max(0, span(timing.responseStart, timing.responseEnd)),
+    ssl: span(timing.secureConnectionStart, timing.connectEnd),
+  };
+}
+
+function totalTime({ blocked, dns, connect, send, wait, receive }: HarTimings): number {
+  // ssl is part of connect
+  return [blocked, dns, connect, send, wait, receive]
+    .filter(value => value > 0)
+    .reduce((sum, value) => sum + value, 0);
+}
+
+function toContent(
+  body: string | null,
+  mimeType: string,
+  includeBodies: boolean,
+  redactKeys?: string[]
+): HarEntry['response']['content'] {
+  if (body === null) {
+    return { size: 0, mimeType };
+  }
+  const size = Buffer.byteLength(body);
+  if (!includeBodies) {
+    return { size, mimeType };
+  }
+  if (!isText(mimeType)) {
+    return { size, mimeType, comment: 'Binary body not included' };
+  }
+  return { size, mimeType, text: redactKeys ? redactBody(body, mimeType, redactKeys) : body };
+}
+
+/**
+ * Chrome-style initiator from a network trace; stack frames "at fn (url:line:col)"
+ * become zero-based call frames
+ */
+function toInitiator(trace: NetworkTrace): HarInitiator {
+  const callFrames = trace.stackTrace
+    .map(line => line.match(/at\s+(?:(.+?)\s+)?\(?(.+?):(\d+):(\d+)\)?$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, functionName, url, line, column]) => ({
+      functionName: functionName?.trim() ?? '',
+      url,
+      lineNumber: Number(line) - 1,
+      columnNumber: Number(column) - 1,
+    }));
+
+  const { initiator } = trace;
+  return {
+    type: initiator.type === 'parser' ? 'parser' : callFrames.length > 0 ? 'script' : 'other',
+    ...(initiator.url && { url: initiator.url }),
+    ...(initiator.lineNumber !== undefined && { lineNumber: initiator.lineNumber - 1 }),
+    ...(initiator.columnNumber !== undefined && { columnNumber: initiator.columnNumber - 1 }),
+    ...(callFrames.length > 0 && { stack: { callFrames } }),
+  };
+}
+
+function toNameValues(headers: Record<string, string>): HarNameValue[] {
+  // Playwright joins repeated headers (e.g. set-cookie) with newlines
+  return Object.entries(headers).flatMap(([name, value]) =>
+    value.split('\n').map(line => ({ name, value: line }))
+  );
+}
+
+function queryString(url: string): HarNameValue[] {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+function parseCookies(header: string | undefined, redact: boolean): HarNameValue[] {
+  if (!header) return [];
+  return header
+    .split(';')
+    .map(pair => pair.trim())
+    .filter(Boolean)
+    .map(pair => toCookie(pair, redact));
+}
+
+function parseSetCookies(header: string | undefined, redact: boolean): HarNameValue[] {
+  if (!header) return [];
+  return header
+    .split('\n')
+    .filter(Boolean)
+    .map(line => toCookie(line.split(';')[0].trim(), redact));
+}
+
+function toCookie(pair: string, redact: boolean): HarNameValue {
+  const separator = pair.indexOf('=');
+  const name = separator === -1 ? pair : pair.slice(0, separator);
+  const value = separator === -1 ? '' : pair.slice(separator + 1);
+  return { name, value: redact ? REDACTED : value };
+}
+
+/**
+ * Post data with the secret fields of a JSON or form body redacted
+ */
+function redactBody(body: string, contentType: string | undefined, keys: string[]): string {
+  if (contentType?.includes('json')) {
+    try {
+      return JSON.stringify(redactSecrets(JSON.parse(body), keys));
+    } catch {
+      // Not valid JSON after all
+    }
+  }
+  if (contentType?.includes('application/x-www-form-urlencoded')) {
+    const form = new URLSearchParams(body);
+    const redacted = redactSecrets(Object.fromEntries(form), keys) as Record<string, string>;
+    for (const name of Array.from(form.keys())) {
+      if (redacted[name] === REDACTED) {
+        form.set(name, REDACTED);
+      }
+    }
+    return form.toString().replaceAll(encodeURIComponent(REDACTED), REDACTED);
+  }
+  return redactSecrets(body, keys) as string;
+}
+
+function isText(mimeType: string): boolean {
+  return /^text\/|json|javascript|xml|html|css|svg|x-www-form-urlencoded|graphql/i.test(mimeType);
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Maps a location in generated code (1-based line, 0-based column) to its original source
+ */
+export type LocationResolver = (
+  url: string,
+  line: number,
+  column: number
+) => Promise<{ file: string; line: number; column: number } | null>;
+
+/**
+ * Read and check a HAR file
+ */
+export async function readHar(path: string): Promise<Har> {
+  let har: Har;
+  try {
+    har = JSON.parse(await readFile(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Cannot read HAR file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  if (!Array.isArray(har?.log?.entries)) {
+    throw new Error(`Not a HAR file (no log.entries): ${path}`);
+  }
+  return har;
+}
+
+/**
+ * Captured requests from a HAR log; `_initiator` stacks are mapped through `resolveLocation`
+ * where it finds an original source
+ */
+export async function importHar(
+  har: Har,
+  resolveLocation?: LocationResolver
+): Promise<CapturedExchange[]> {
+  const exchanges: CapturedExchange[] = [];
+
+  for (const entry of har.log.entries) {
+    const timestamp = Date.parse(entry.startedDateTime) || 0;
+    const request: CapturedRequest = {
+      url: entry.request.url,
+      method: entry.request.method,
+      headers: fromNameValues(entry.request.headers),
+      postData: entry.request.postData?.text ?? null,
+      ...(entry._resourceType && { resourceType: entry._resourceType }),
+      timestamp,
+    };
+
+    const { content } = entry.response;
+    const response: CapturedResponse | undefined =
+      entry.response.status > 0
+        ? {
+            url: entry.request.url,
+            status: entry.response.status,
+            statusText: entry.response.statusText,
+            headers: fromNameValues(entry.response.headers),
+            timing: fromTimings(timestamp, entry.timings),
+            body:
+              content?.text === undefined
+                ? null
+                : content.encoding === 'base64'
+                  ? Buffer.from(content.text, 'base64').toString('utf-8')
+                  : content.text,
+          }
+        : undefined;
+
+    const trace = entry._initiator
+      ? await toTrace(entry, timestamp, entry._initiator, resolveLocation)
+      : undefined;
+
+    exchanges.push({ request, ...(response && { response }), ...(trace && { trace }) });
+  }
+
+  return exchanges;
+}
+
+function fromNameValues(values: HarNameValue[] = []): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const { name, value } of values) {
+    // Lower-cased and joined the way Playwright reports them
+    const key = name.toLowerCase();
+    headers[key] =
+      key in headers ? `${headers[key]}${key === 'set-cookie' ? '\n' : ', '}${value}` : value;
+  }
+  return headers;
+}
+
+/**
+ * Playwright-style request timing (phases relative to `startTime`) from HAR timings
+ */
+function fromTimings(startTime: number, timings: HarTimings): CapturedResponse['timing'] {
+  const phase = (value: number | undefined) => (value !== undefined && value > 0 ? value : 0);
+
+  // Phases follow each other: blocked, dns, connect (including ssl), send, wait, receive
+  const dnsStart = phase(timings.blocked);
+  const connectStart = dnsStart + phase(timings.dns);
+  const requestStart = connectStart + phase(timings.connect);
+  const responseStart = requestStart + phase(timings.send) + phase(timings.wait);
+  const connectEnd = timings.connect >= 0 ? requestStart : -1;
+
+  return {
+    startTime,
+    domainLookupStart: timings.dns >= 0 ? dnsStart : -1,
+    domainLookupEnd: timings.dns >= 0 ? connectStart : -1,
+    connectStart: timings.connect >= 0 ? connectStart : -1,
+    secureConnectionStart: timings.ssl >= 0 && connectEnd >= 0 ? connectEnd - timings.ssl : -1,
+    connectEnd,
+    requestStart,
+    responseStart,
+    responseEnd: responseStart + phase(timings.receive),
+  };
+}
+
+/**
+ * Network trace of an entry from its Chrome-style initiator
+ */
+async function toTrace(
+  entry: HarEntry,
+  timestamp: number,
+  initiator: HarInitiator,
+  resolveLocation: LocationResolver | undefined
+): Promise<NetworkTrace> {
+  const callFrames: HarCallFrame[] = [];
+  for (let stack = initiator.stack; stack; stack = stack.parent) {
+    callFrames.push(...stack.callFrames);
+  }
+
+  // Stack lines in the V8 format the network tracer records (1-based line and column)
+  const frames = await Promise.all(
+    callFrames.map(async frame => {
+      const original = await resolveLocation?.(frame.url, frame.lineNumber + 1, frame.columnNumber);
+      return original
+        ? {
+            name: frame.functionName,
+            url: original.file,
+            line: original.line,
+            column: original.column + 1,
+          }
+        : {
+            name: frame.functionName,
+            url: frame.url,
+            line: frame.lineNumber + 1,
+            column: frame.columnNumber + 1,
+          };
+    })
+  );
+  const stackTrace = frames.map(({ name, url, line, column }) =>
+    name ? `at ${name} (${url}:${line}:${column})` : `at ${url}:${line}:${column}`
+  );
+
+  const top = frames[0];
+  const type =
+    initiator.type === 'parser'
+      ? 'parser'
+      : initiator.type === 'script'
+        ? entry._resourceType === 'fetch' || entry._resourceType === 'xhr'
+          ? entry._resourceType
+          : 'script'
+        : 'other';
+
+  return {
+    url: entry.request.url,
+    method: entry.request.method,
+    timestamp,
+    stackTrace,
+    initiator: top
+      ? { type, url: top.url, lineNumber: top.line, columnNumber: top.column }
+      : {
+          type,
+          ...(initiator.url && { url: initiator.url }),
+          ...(initiator.lineNumber !== undefined && { lineNumber: initiator.lineNumber + 1 }),
+          ...(initiator.columnNumber !== undefined && { columnNumber: initiator.columnNumber + 1 }),
+        },
+    ...(entry.response.status > 0 && { status: entry.response.status }),
+    ...(entry.time >= 0 && { duration: entry.time }),
+  };
+}
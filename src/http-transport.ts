@@ -0,0 +1,280 @@
+/**
+ * HTTP Transport
+ * Serves the MCP protocol over Streamable HTTP (with SSE streaming) for shared deployments
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * Every MCP client session gets its own server instance, so browser sessions and
+ * resource subscriptions are never shared between connections. Sessions that see no
+ * request for `idleTimeoutMs` are closed like an explicit DELETE would, so clients that
+ * vanish do not keep their server, browser sessions and contexts alive.
+ * A server whose initialize request is refused is closed right away for the same reason.
+ */
+
+import { randomUUID, timingSafeEqual } from 'crypto';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('http-transport');
+
+const MCP_PATH = '/mcp';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  /** Bearer token required on every request (optional on loopback hosts) */
+  token?: string;
+  /** Close client sessions without a request for this long (default 30 minutes, 0 never) */
+  idleTimeoutMs?: number;
+}
+
+interface Connection {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  /** Requests still being answered, including open SSE streams */
+  pending: number;
+  lastActiveAt: number;
+}
+
+/**
+ * Thrown to answer a request with an HTTP error status
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Check whether a host only accepts local connections
+ */
+export function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+/**
+ * Start an HTTP server that creates one MCP server per client session
+ */
+export async function startHttpTransport(
+  createServer: () => Server,
+  options: HttpTransportOptions
+): Promise<http.Server> {
+  if (!options.token && !isLoopbackHost(options.host)) {
+    throw new Error(
+      `Refusing to listen on ${options.host} without a bearer token (set --token or WEBSEE_AUTH_TOKEN)`
+    );
+  }
+
+  const connections = new Map<string, Connection>();
+
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+
+  const httpServer = http.createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      if (res.headersSent) return;
+      if (error instanceof HttpError) {
+        // The rest of an unread body is not worth keeping the connection for
+        res.setHeader('Connection', 'close');
+        sendJsonRpcError(res, error.status, error.code, error.message);
+      } else {
+        sendJsonRpcError(
+          res,
+          500,
+          -32603,
+          error instanceof Error ? error.message : 'Internal error'
+        );
+      }
+    });
+  });
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    if (path !== MCP_PATH) {
+      sendJsonRpcError(res, 404, -32000, `Not found: ${path}`);
+      return;
+    }
+
+    if (options.token && !isAuthorized(req, options.token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, -32001, 'Unauthorized');
+      return;
+    }
+
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const connection = connections.get(sessionId);
+      if (!connection) {
+        sendJsonRpcError(res, 404, -32001, `Unknown MCP session: ${sessionId}`);
+        return;
+      }
+      connection.pending++;
+      connection.lastActiveAt = Date.now();
+      res.once('close', () => {
+        connection.pending--;
+        connection.lastActiveAt = Date.now();
+      });
+      await connection.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: missing mcp-session-id header');
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        connections.set(id, { server, transport, pending: 0, lastActiveAt: Date.now() });
+      },
+    });
+
+    // The server chains its own close handler after this one, which releases the
+    // client's browser sessions whether or not a session id was ever assigned
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        connections.delete(transport.sessionId);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // An initialize that was refused leaves a server no later request can reach
+      if (!transport.sessionId || !connections.has(transport.sessionId)) {
+        await server.close().catch(() => {
+          // Ignore errors during cleanup
+        });
+      }
+    }
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  // Close client sessions that have gone quiet
+  const sweep =
+    idleTimeoutMs > 0
+      ? setInterval(
+          () => closeIdleConnections(connections, idleTimeoutMs),
+          Math.min(idleTimeoutMs, MAX_SWEEP_INTERVAL_MS)
+        )
+      : null;
+  sweep?.unref();
+
+  // Close every client session together with the HTTP server
+  httpServer.on('close', () => {
+    if (sweep) clearInterval(sweep);
+    for (const { server } of connections.values()) {
+      server.close().catch(() => {
+        // Ignore errors during cleanup
+      });
+    }
+    connections.clear();
+  });
+
+  return httpServer;
+}
+
+/**
+ * Close the sessions that have answered their last request more than `idleTimeoutMs` ago
+ */
+function closeIdleConnections(connections: Map<string, Connection>, idleTimeoutMs: number): void {
+  const cutoff = Date.now() - idleTimeoutMs;
+  for (const [id, connection] of connections) {
+    if (connection.pending === 0 && connection.lastActiveAt < cutoff) {
+      connections.delete(id);
+      logger.info(`Closing MCP session ${id} after ${idleTimeoutMs}ms without requests`);
+      connection.server.close().catch(() => {
+        // Ignore errors during cleanup
+      });
+    }
+  }
+}
+
+/**
+ * Compare the request's bearer token in constant time
+ */
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization || '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return false;
+  }
+
+  const provided = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Read and parse a JSON request body
+ *
+ * @throws HttpError 413 if the body is larger than MAX_BODY_BYTES, 400 if it is not JSON
+ */
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const tooLarge = () =>
+    new HttpError(413, -32000, `Payload Too Large: request body exceeds ${MAX_BODY_BYTES} bytes`);
+
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+    return Promise.reject(tooLarge());
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop buffering; the connection is closed once the error is sent
+        req.off('data', onData);
+        req.off('end', onEnd);
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = () => {
+      const text = Buffer.concat(chunks).toString('utf-8');
+      try {
+        resolve(text ? JSON.parse(text) : undefined);
+      } catch {
+        reject(new HttpError(400, -32700, 'Parse error: request body is not valid JSON'));
+      }
+    };
+
+    req.on('data', onData);
+    req.once('end', onEnd);
+    req.once('error', reject);
+  });
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
@@ -5,11 +5,30 @@
  * @packageDocumentation
  */
 
-import { Page } from 'playwright';
+import { Frame, Page } from 'playwright';
 import { SourceMapResolver } from './source-map-resolver.js';
 import { ComponentTracker } from './component-tracker.js';
 import { NetworkTracer } from './network-tracer.js';
 import { BuildArtifactManager } from './build-artifact-manager.js';
+import { getConfig } from './config.js';
+import { SerializeLimits } from './serializer.js';
+export {
+  getContextOptions,
+  saveStorageState,
+  type StorageState,
+  type LoginScript,
+} from './auth.js';
+export {
+  UrlPolicy,
+  NavigationBudget,
+  PolicyViolationError,
+  getUrlPolicy,
+  type UrlPolicyOptions,
+  type PolicyRule,
+} from './url-policy.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('intelligence');
 
 export interface SourceIntelligenceOptions {
   enableSourceMaps?: boolean;
@@ -18,6 +37,8 @@ export interface SourceIntelligenceOptions {
   enableBuildAnalysis?: boolean;
   sourceMapCacheSize?: number;
   projectRoot?: string;
+  /** Limits for the component props and state values returned */
+  serializeLimits?: Partial<SerializeLimits>;
 }
 
 export class SourceIntelligenceLayer {
@@ -29,13 +50,14 @@ export class SourceIntelligenceLayer {
   private options: SourceIntelligenceOptions;
 
   constructor(options: SourceIntelligenceOptions = {}) {
+    const config = getConfig();
     this.options = {
-      enableSourceMaps: true,
+      enableSourceMaps: config.sourceMaps.enabled,
       enableComponentTracking: true,
       enableNetworkTracing: true,
       enableBuildAnalysis: true,
-      sourceMapCacheSize: 50,
-      projectRoot: process.cwd(),
+      sourceMapCacheSize: config.sourceMaps.cacheSize,
+      projectRoot: config.projectRoot,
       ...options,
     };
   }
@@ -46,30 +68,35 @@ export class SourceIntelligenceLayer {
   async initialize(page: Page): Promise<void> {
     // Initialize Source Map Resolver
     if (this.options.enableSourceMaps) {
-      this.sourceMapResolver = new SourceMapResolver(this.options.sourceMapCacheSize);
+      // enableSourceMaps may override the configured sourceMaps.enabled
+      this.sourceMapResolver = new SourceMapResolver(
+        this.options.sourceMapCacheSize,
+        undefined,
+        true
+      );
       await this.sourceMapResolver.initialize(page);
-      console.log('✅ Source Map Resolver initialized');
+      logger.debug('Source Map Resolver initialized');
     }
 
     // Initialize Component Tracker
     if (this.options.enableComponentTracking) {
-      this.componentTracker = new ComponentTracker();
+      this.componentTracker = new ComponentTracker(this.options.serializeLimits);
       await this.componentTracker.initialize(page);
-      console.log('✅ Component Tracker initialized');
+      logger.debug('Component Tracker initialized');
     }
 
     // Initialize Network Tracer
     if (this.options.enableNetworkTracing) {
       this.networkTracer = new NetworkTracer();
       await this.networkTracer.initialize(page);
-      console.log('✅ Network Tracer initialized');
+      logger.debug('Network Tracer initialized');
     }
 
     // Initialize Build Artifact Manager
     if (this.options.enableBuildAnalysis) {
       this.buildManager = new BuildArtifactManager(this.options.projectRoot);
       await this.buildManager.loadBuildArtifacts().catch(() => {
-        console.warn('⚠️ Build artifacts not found - build analysis disabled');
+        logger.warn('Build artifacts not found - build analysis disabled');
       });
     }
   }
@@ -92,11 +119,11 @@ export class SourceIntelligenceLayer {
   }
 
   /**
-   * Get component at a specific element
+   * Get component at a specific element (in the main frame unless a frame is given)
    */
-  async getComponentAtElement(selector: string): Promise<any> {
+  async getComponentAtElement(selector: string, frame?: Frame): Promise<any> {
     if (!this.componentTracker) return null;
-    return this.componentTracker.getComponentAtElement(selector);
+    return this.componentTracker.getComponentAtElement(selector, frame);
   }
 
   /**
@@ -108,11 +135,11 @@ export class SourceIntelligenceLayer {
   }
 
   /**
-   * Get component tree
+   * Get component tree (of the main frame unless a frame is given)
    */
-  async getComponentTree(): Promise<any[]> {
+  async getComponentTree(frame?: Frame): Promise<any[]> {
     if (!this.componentTracker) return [];
-    return this.componentTracker.getComponentTree();
+    return this.componentTracker.getComponentTree(frame);
   }
 
   /**
@@ -141,9 +168,13 @@ export class SourceIntelligenceLayer {
   }
 
   /**
-   * Get comprehensive intelligence for an error
+   * Get comprehensive intelligence for an error, with the components of the frame it
+   * happened in (the main frame by default)
    */
-  async getErrorIntelligence(error: Error): Promise<{
+  async getErrorIntelligence(
+    error: Error,
+    frame?: Frame
+  ): Promise<{
     originalStack?: string[];
     components?: any[];
     networkActivity?: any[];
@@ -184,7 +215,7 @@ export class SourceIntelligenceLayer {
 
     // Add component context
     if (this.componentTracker) {
-      result.components = await this.componentTracker.getComponentTree();
+      result.components = await this.componentTracker.getComponentTree(frame);
     }
 
     // Add recent network activity
@@ -257,3 +288,137 @@ export { SourceMapResolver };
 export { ComponentTracker } from './component-tracker.js';
 export { NetworkTracer } from './network-tracer.js';
 export { BuildArtifactManager } from './build-artifact-manager.js';
+export { BrowserManager } from './browser-manager.js';
+export { ContextPool, type ContextPoolOptions, type ContextPoolStats } from './context-pool.js';
+export {
+  SessionManager,
+  type BrowserSession,
+  type SessionSummary,
+  type CapturedConsoleMessage,
+  type CapturedPageError,
+} from './session-manager.js';
+export { ResourceCatalog, RESOURCE_TEMPLATES } from './resources.js';
+export {
+  defineConfig,
+  loadConfig,
+  getConfig,
+  setConfig,
+  ConfigError,
+  WebSeeConfigSchema,
+  type WebSeeConfig,
+  type WebSeeSettings,
+  type ResolvedConfig,
+  type ToolGroup,
+} from './config.js';
+export {
+  captureScreenshot,
+  ImageAttachment,
+  type ScreenshotOptions,
+  type ScreenshotTarget,
+} from './screenshots.js';
+export {
+  AuditLog,
+  createAuditLog,
+  redactSecrets,
+  redactUrl,
+  summarizeAuditLog,
+  type AuditEntry,
+  type AuditSummary,
+} from './audit-log.js';
+export {
+  applyNetworkConditions,
+  clearNetworkConditions,
+  NetworkConditions,
+  NetworkConditionsSchema,
+  NETWORK_PRESETS,
+  type AffectedRequest,
+  type FaultRule,
+  type NetworkConditionsInput,
+} from './network-conditions.js';
+export {
+  applyNetworkMocks,
+  clearNetworkMocks,
+  MockRuleSchema,
+  NetworkMocks,
+  NetworkMocksSchema,
+  type AppliedMock,
+  type MockRule,
+  type NetworkMocksInput,
+} from './network-mocks.js';
+export {
+  buildHar,
+  importHar,
+  readHar,
+  writeHar,
+  type CapturedExchange,
+  type Har,
+  type HarEntry,
+  type HarInitiator,
+  type HarOptions,
+  type LocationResolver,
+} from './har.js';
+export { listTabs, resolveTab, TabNotFoundError, TabRefSchema, type TabSummary } from './tabs.js';
+export {
+  StepPlan,
+  StepSchema,
+  StepsParamsSchema,
+  summarizeSteps,
+  type Step,
+  type StepOutcome,
+} from './steps.js';
+export {
+  ArtifactOptionsSchema,
+  ArtifactRecorder,
+  summarizeArtifacts,
+  summarizeTrace,
+  type ActionSummary,
+  type ArtifactOptions,
+  type ArtifactReport,
+} from './artifacts.js';
+export { EmulationSchema, emulationOptions, mergeEmulation, type Emulation } from './emulation.js';
+export {
+  FrameSchema,
+  FrameNotFoundError,
+  resolveFrame,
+  listFrames,
+  contextPages,
+  type FrameSummary,
+} from './frames.js';
+export {
+  paginate,
+  fitToBudget,
+  ResultStore,
+  CursorError,
+  type PageInfo,
+  type PaginationParams,
+  type Truncation,
+} from './pagination.js';
+export {
+  Recording,
+  RecordingError,
+  getRecording,
+  summarizeRecording,
+  readRecordedEvents,
+  readComponentSnapshots,
+  type RecordingMode,
+  type RecordedEvent,
+  type ComponentSnapshot,
+  type RecordingSummary,
+} from './recording.js';
+export {
+  serializeValue,
+  installSerializer,
+  resolveSerializeLimits,
+  DEFAULT_SERIALIZE_LIMITS,
+  type SerializeLimits,
+} from './serializer.js';
+export {
+  createLogger,
+  setLogLevel,
+  setLogFile,
+  addLogSink,
+  type Logger,
+  type LogLevel,
+  type LogEntry,
+  type LogSink,
+} from './logger.js';
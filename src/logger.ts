@@ -0,0 +1,177 @@
+/**
+ * Logger
+ * Leveled logging that never writes to stdout, so the stdio JSON-RPC stream stays intact
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * Entries go to stderr (or the file in WEBSEE_LOG_FILE) when they meet the level in
+ * WEBSEE_LOG_LEVEL, and to any registered sinks, which filter by their own level. A sink
+ * can also be scoped to the async work of a callback, so the MCP `notifications/message`
+ * forwarder of each connected client only receives what its own requests log.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { appendFileSync } from 'fs';
+
+/**
+ * Log levels, ordered by severity (same names as MCP logging levels)
+ */
+export const LOG_LEVELS = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export interface LogEntry {
+  level: LogLevel;
+  logger: string;
+  message: string;
+  data?: unknown;
+  timestamp: number;
+}
+
+export interface LogSink {
+  level: LogLevel;
+  write(entry: LogEntry): void;
+}
+
+export interface Logger {
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, data?: unknown): void;
+}
+
+let outputLevel: LogLevel | 'silent' = parseLogLevel(process.env.WEBSEE_LOG_LEVEL) ?? 'info';
+let logFile: string | undefined = process.env.WEBSEE_LOG_FILE || undefined;
+const sinks = new Set<LogSink>();
+// Sink of the request being handled, e.g. the one client that sent it
+const scopedSink = new AsyncLocalStorage<LogSink>();
+
+/**
+ * Parse a level name, returning undefined for unknown values
+ */
+export function parseLogLevel(value: string | undefined): LogLevel | 'silent' | undefined {
+  const level = value?.trim().toLowerCase();
+  if (level === 'silent') return 'silent';
+  if (level === 'warn') return 'warning';
+  return LOG_LEVELS.find(l => l === level);
+}
+
+/**
+ * Set the minimum level written to stderr or the log file
+ */
+export function setLogLevel(level: LogLevel | 'silent'): void {
+  outputLevel = level;
+}
+
+/**
+ * Write log output to a file instead of stderr (undefined restores stderr)
+ */
+export function setLogFile(path: string | undefined): void {
+  logFile = path;
+}
+
+/**
+ * Register a sink that receives every entry at or above its own level
+ *
+ * @returns Function that removes the sink
+ */
+export function addLogSink(sink: LogSink): () => void {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+  };
+}
+
+/**
+ * Run a callback with a sink that receives the entries logged by it and by the async work
+ * it starts, besides the registered sinks
+ */
+export function withLogSink<T>(sink: LogSink, fn: () => T): T {
+  return scopedSink.run(sink, fn);
+}
+
+/**
+ * Check whether `level` is at least as severe as `threshold`
+ */
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel | 'silent'): boolean {
+  return threshold !== 'silent' && LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Create a logger for a named component
+ */
+export function createLogger(name: string): Logger {
+  return {
+    debug: (message, data) => log('debug', name, message, data),
+    info: (message, data) => log('info', name, message, data),
+    warn: (message, data) => log('warning', name, message, data),
+    error: (message, data) => log('error', name, message, data),
+  };
+}
+
+function log(level: LogLevel, logger: string, message: string, data?: unknown): void {
+  const entry: LogEntry = {
+    level,
+    logger,
+    message,
+    data: data instanceof Error ? { message: data.message, stack: data.stack } : data,
+    timestamp: Date.now(),
+  };
+
+  if (isLevelEnabled(level, outputLevel)) {
+    writeOutput(entry);
+  }
+
+  for (const sink of sinks) {
+    writeSink(sink, entry);
+  }
+  const scoped = scopedSink.getStore();
+  if (scoped) {
+    writeSink(scoped, entry);
+  }
+}
+
+function writeSink(sink: LogSink, entry: LogEntry): void {
+  if (isLevelEnabled(entry.level, sink.level)) {
+    try {
+      sink.write(entry);
+    } catch {
+      // A failing sink must not break the caller
+    }
+  }
+}
+
+function writeOutput(entry: LogEntry): void {
+  let line = `${new Date(entry.timestamp).toISOString()} ${entry.level.toUpperCase()} [${entry.logger}] ${entry.message}`;
+  if (entry.data !== undefined) {
+    line += ` ${formatData(entry.data)}`;
+  }
+
+  if (logFile) {
+    try {
+      appendFileSync(logFile, line + '\n');
+      return;
+    } catch {
+      // Fall back to stderr if the log file is not writable
+    }
+  }
+
+  process.stderr.write(line + '\n');
+}
+
+function formatData(data: unknown): string {
+  if (typeof data === 'string') return data;
+  try {
+    return JSON.stringify(data);
+  } catch {
+    return String(data);
+  }
+}
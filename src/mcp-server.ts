@@ -10,119 +10,48 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  SetLevelRequestSchema,
+  ServerRequest,
+  ServerNotification,
   ErrorCode,
   McpError,
+  CallToolResult,
 } from '@modelcontextprotocol/sdk/types.js';
+import { resolve } from 'path';
+import { Command } from 'commander';
 import { z } from 'zod';
-import { chromium, firefox, webkit, Browser, Page } from 'playwright';
-import { SourceIntelligenceLayer } from './index.js';
-
-// Import granular intelligence tools
-import {
-  COMPONENT_INTELLIGENCE_TOOLS,
-  componentTree,
-  componentGetProps,
-  componentGetState,
-  componentFindByName,
-  componentGetSource,
-  componentTrackRenders,
-  componentGetContext,
-  componentGetHooks,
-} from './tools/component-intelligence-tools.js';
-
-import {
-  BUILD_INTELLIGENCE_TOOLS,
-  buildGetManifest,
-  buildGetChunks,
-  buildFindModule,
-  buildGetDependencies,
-  buildAnalyzeSize,
-} from './tools/build-intelligence-tools.js';
-// Note: Performance intelligence tools removed - see FUTURE_DEVELOPMENT.md for implementation plan
-import {
-  default as SourceIntelligenceTools,
-  sourceMapResolve,
-  sourceMapGetContent,
-  sourceTraceStack,
-  sourceFindDefinition,
-  sourceGetSymbols,
-  sourceMapBundle,
-  sourceCoverageMap
-} from './tools/source-intelligence-tools.js';
-
-import {
-  errorIntelligenceTools,
-  errorResolveStack,
-  errorGetContext,
-  errorTraceCause,
-  errorGetSimilar,
-} from './tools/error-intelligence-tools.js';
-
-import {
-  networkIntelligenceTools,
-  networkGetRequests,
-  networkGetByUrl,
-  networkGetTiming,
-  networkTraceInitiator,
-  networkGetHeaders,
-  networkGetBody,
-} from './tools/network-intelligence-tools.js';
-
-// Tool schemas using Zod for validation
-const DebugFrontendIssueSchema = z.object({
-  url: z.string().url().describe('The URL of the page experiencing issues'),
-  selector: z.string().optional().describe('CSS selector to focus on (optional)'),
-  errorMessage: z.string().optional().describe('Error message to investigate (optional)'),
-  screenshot: z.boolean().optional().default(false).describe('Capture screenshot of the issue'),
-});
-
-const AnalyzePerformanceSchema = z.object({
-  url: z.string().url().describe('The URL to analyze for performance'),
-  interactions: z
-    .array(
-      z.object({
-        action: z.enum(['click', 'type', 'scroll', 'navigate']),
-        selector: z.string().optional(),
-        value: z.string().optional(),
-      })
-    )
-    .optional()
-    .describe('User interactions to perform before analysis'),
-  metrics: z
-    .array(z.enum(['network', 'components', 'bundle', 'memory']))
-    .optional()
-    .default(['network', 'components'])
-    .describe('Metrics to analyze'),
-});
-
-const InspectComponentStateSchema = z.object({
-  url: z.string().url().describe('The page URL'),
-  selector: z.string().describe('CSS selector for the component'),
-  waitForSelector: z.boolean().optional().default(true).describe('Wait for element to appear'),
-  includeChildren: z.boolean().optional().default(false).describe('Include child components'),
-});
-
-const TraceNetworkRequestsSchema = z.object({
-  url: z.string().url().describe('The page URL'),
-  pattern: z.string().optional().describe("URL pattern to filter (e.g., '/api/*')"),
-  method: z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'ALL']).optional().default('ALL'),
-  waitTime: z.number().optional().default(3000).describe('Time to wait for requests (ms)'),
-});
-
-const AnalyzeBundleSchema = z.object({
-  url: z.string().url().describe('The application URL'),
-  moduleName: z.string().optional().describe('Specific module to search for'),
-  threshold: z.number().optional().default(50).describe('Size threshold in KB to flag modules'),
-});
-
-const ResolveMinifiedErrorSchema = z.object({
-  url: z.string().url().describe('The page URL'),
-  errorStack: z.string().describe('The minified error stack trace'),
-  triggerError: z.boolean().optional().default(false).describe('Try to trigger the error'),
-});
+import { Page } from 'playwright';
+import { BrowserManager } from './browser-manager.js';
+import { getConfig, loadConfig, setConfig } from './config.js';
+import { ContextPool } from './context-pool.js';
+import { SessionManager, CaptureKind } from './session-manager.js';
+import { RunContext, AbortError, TimeoutError, abortable, withDeadline } from './run-context.js';
+import { guardNavigations, NavigationBudget, PolicyViolationError } from './url-policy.js';
+import { CursorError, ResultStore } from './pagination.js';
+import { FrameNotFoundError } from './frames.js';
+import { resolveTab, TabNotFoundError, TabRefSchema } from './tabs.js';
+import { Emulation, EmulationParamsSchema, hasEmulation } from './emulation.js';
+import { StepPlan, StepsParamsSchema } from './steps.js';
+import { ArtifactRecorder, ArtifactsParamsSchema } from './artifacts.js';
+import { AuditLog, createAuditLog } from './audit-log.js';
+import { startHttpTransport } from './http-transport.js';
+import { createLogger, LogSink, withLogSink } from './logger.js';
+import { ResourceCatalog, RESOURCE_TEMPLATES, sessionUri } from './resources.js';
+import { ToolRegistry } from './tools/registry.js';
+import { getToolsForGroups } from './tools/index.js';
+import { SessionRefSchema } from './tools/session-tools.js';
+import { getSharedSourceMapResolver } from './tools/source-intelligence-tools.js';
+
+const logger = createLogger('mcp-server');
 
 // Server configuration
 const SERVER_INFO = {
@@ -131,915 +60,498 @@ const SERVER_INFO = {
   description: 'Frontend debugging intelligence for browser automation',
 };
 
-// Browser management
-class BrowserManager {
-  private browser: Browser | null = null;
-
-  async launch(): Promise<Browser> {
-    if (this.browser) {
-      return this.browser;
-    }
-
-    const browserEnv = process.env.BROWSER?.toLowerCase();
-
-    switch (browserEnv) {
-      case 'firefox':
-        this.browser = await firefox.launch({ headless: process.env.HEADLESS !== 'false' });
-        break;
-      case 'webkit':
-      case 'safari':
-        this.browser = await webkit.launch({ headless: process.env.HEADLESS !== 'false' });
-        break;
-      default:
-        this.browser = await chromium.launch({ headless: process.env.HEADLESS !== 'false' });
-    }
-
-    return this.browser;
-  }
-
-  async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-    }
-  }
-
-  async newPage(): Promise<Page> {
-    const browser = await this.launch();
-    return browser.newPage();
-  }
-}
-
-// Create server instance
-const server = new Server(SERVER_INFO, {
-  capabilities: {
-    tools: {},
-  },
-});
-
-// Browser manager instance
+// Browser manager instance shared by every connection
 const browserManager = new BrowserManager();
 
-// Tool implementations
-async function debugFrontendIssue(params: z.infer<typeof DebugFrontendIssueSchema>) {
-  const page = await browserManager.newPage();
-  const intelligence = new SourceIntelligenceLayer();
-
-  try {
-    await intelligence.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
-
-    const result: any = {
-      url: params.url,
-      timestamp: new Date().toISOString(),
-      issues: [],
-      components: [],
-      network: [],
-      console: [],
-    };
-
-    // Capture console messages
-    const consoleLogs: any[] = [];
-    page.on('console', msg => {
-      if (msg.type() === 'error' || msg.type() === 'warning') {
-        consoleLogs.push({
-          type: msg.type(),
-          text: msg.text(),
-          location: msg.location(),
-        });
-      }
-    });
+// Session managers of all connected servers, closed on shutdown
+const sessionManagers = new Set<SessionManager>();
 
-    // Capture page errors
-    const pageErrors: Error[] = [];
-    page.on('pageerror', error => pageErrors.push(error));
+// Parameters every page tool accepts besides its own
+const PageParamsSchema = SessionRefSchema.merge(TabRefSchema)
+  .merge(EmulationParamsSchema)
+  .merge(StepsParamsSchema)
+  .merge(ArtifactsParamsSchema);
 
-    // Wait a bit for any initial errors
-    await page.waitForTimeout(2000);
+// Enabled tools, looked up by name; page tools also accept `sessionId`, `tab`, `emulation`,
+// `steps` and `artifacts`, and the pool of browser contexts for calls without a session or tab
+// (both created in main() once the project configuration is loaded)
+let toolRegistry: ToolRegistry<typeof PageParamsSchema>;
+let contextPool: ContextPool;
 
-    // Analyze specific selector if provided
-    if (params.selector) {
-      try {
-        const component = await intelligence.getComponentAtElement(params.selector);
-        result.components.push({
-          selector: params.selector,
-          name: component.name,
-          framework: component.framework,
-          props: component.props,
-          state: component.state,
-          parents: component.parents,
-        });
-      } catch (error) {
-        result.issues.push({
-          type: 'selector_not_found',
-          message: `Could not find element with selector: ${params.selector}`,
-        });
-      }
-    }
+// Record of every tool call, if auditing is configured
+let auditLog: AuditLog | null = null;
 
-    // Analyze specific error if provided
-    if (params.errorMessage) {
-      const errorMsg = params.errorMessage;
-      const matchingError = pageErrors.find(e => e.message.includes(errorMsg));
-      if (matchingError) {
-        const context = await intelligence.getErrorIntelligence(matchingError);
-        result.issues.push({
-          type: 'error_traced',
-          originalError: matchingError.message,
-          sourceLocation: context.originalStack?.[0],
-          components: context.components,
-          networkContext: context.networkActivity?.slice(-5),
-        });
-      }
-    }
-
-    // Get recent network activity
-    const networkTraces = intelligence.getNetworkTraces().slice(-10);
-    result.network = networkTraces.map(trace => ({
-      url: trace.url,
-      method: trace.method,
-      status: trace.status,
-      duration: trace.duration,
-      triggeredBy: trace.stackTrace?.[0],
-    }));
-
-    // Console logs
-    result.console = consoleLogs;
-
-    // Capture screenshot if requested
-    if (params.screenshot) {
-      const screenshotPath = `debug-${Date.now()}.png`;
-      await page.screenshot({ path: screenshotPath, fullPage: true });
-      result.screenshot = screenshotPath;
-    }
-
-    return result;
-  } finally {
-    await page.close();
+/**
+ * Run a callback on a session's live page, a tab of the attached browser, or a fresh
+ * page from the context pool that is closed afterwards, recording artifacts if asked to
+ */
+async function withPage<T>(
+  sessions: SessionManager,
+  params: { sessionId?: string; tab?: string; emulation?: Emulation },
+  run: RunContext,
+  artifacts: ArtifactRecorder | undefined,
+  fn: (page: Page) => Promise<T>
+): Promise<T> {
+  const { sessionId, tab, emulation } = params;
+  if ((sessionId || tab) && artifacts?.video) {
+    // Video is recorded from a context's creation on
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'artifacts.video needs a fresh page; it cannot be recorded on a session or tab'
+    );
   }
-}
-
-async function analyzePerformance(params: z.infer<typeof AnalyzePerformanceSchema>) {
-  const page = await browserManager.newPage();
-  const intelligence = new SourceIntelligenceLayer();
-
-  try {
-    await intelligence.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
-
-    // Perform interactions if specified
-    if (params.interactions) {
-      for (const interaction of params.interactions) {
-        switch (interaction.action) {
-          case 'click':
-            if (interaction.selector) {
-              await page.click(interaction.selector);
-            }
-            break;
-          case 'type':
-            if (interaction.selector && interaction.value) {
-              await page.type(interaction.selector, interaction.value);
-            }
-            break;
-          case 'scroll':
-            await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
-            break;
-          case 'navigate':
-            if (interaction.value) {
-              await page.goto(interaction.value);
-            }
-            break;
-        }
-        await page.waitForTimeout(500);
-      }
-    }
-
-    const analysis: any = {
-      url: params.url,
-      timestamp: new Date().toISOString(),
-      metrics: {},
-    };
-
-    // Network analysis
-    if (params.metrics.includes('network')) {
-      const traces = intelligence.getNetworkTraces();
-      const slowRequests = traces.filter(t => t.duration > 1000);
-
-      analysis.metrics.network = {
-        totalRequests: traces.length,
-        slowRequests: slowRequests.length,
-        averageDuration: traces.reduce((sum, t) => sum + t.duration, 0) / traces.length,
-        slowestRequests: slowRequests.slice(0, 5).map(t => ({
-          url: t.url,
-          duration: t.duration,
-          triggeredBy: t.stackTrace?.[0],
-        })),
-      };
-    }
-
-    // Component analysis
-    if (params.metrics.includes('components')) {
-      const components = await intelligence.getComponentTree();
 
-      analysis.metrics.components = {
-        totalComponents: components.length,
-        byFramework: components.reduce((acc: any, c) => {
-          acc[c.framework] = (acc[c.framework] || 0) + 1;
-          return acc;
-        }, {}),
-        deepestNesting: Math.max(...components.map(c => c.depth || 0)),
-      };
+  if (tab) {
+    if (!browserManager.attached) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'tab requires a browser attached over CDP (cdpEndpoint, WEBSEE_CDP_ENDPOINT or --cdp)'
+      );
     }
-
-    // Bundle analysis
-    if (params.metrics.includes('bundle')) {
-      const scripts = await page.$$eval('script[src]', scripts =>
-        scripts.map((s: any) => ({ src: s.src, size: s.text?.length || 0 }))
+    if (sessionId || hasEmulation(emulation)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'tab cannot be combined with sessionId or emulation'
       );
-
-      analysis.metrics.bundle = {
-        totalScripts: scripts.length,
-        totalSize: scripts.reduce((sum: number, s: any) => sum + s.size, 0),
-        largestScripts: scripts.sort((a: any, b: any) => b.size - a.size).slice(0, 5),
-      };
     }
-
-    // Memory analysis
-    if (params.metrics.includes('memory')) {
-      const memoryInfo = await page.evaluate(() => {
-        if ('memory' in performance) {
-          return (performance as any).memory;
-        }
-        return null;
-      });
-
-      if (memoryInfo) {
-        analysis.metrics.memory = {
-          usedJSHeapSize: Math.round(memoryInfo.usedJSHeapSize / 1024 / 1024) + ' MB',
-          totalJSHeapSize: Math.round(memoryInfo.totalJSHeapSize / 1024 / 1024) + ' MB',
-          limit: Math.round(memoryInfo.jsHeapSizeLimit / 1024 / 1024) + ' MB',
-        };
-      }
+    // The user's tab is inspected where it is and left open; its navigations are only
+    // guarded during the call
+    const page = await resolveTab(browserManager, tab);
+    run.stayOnPage = true;
+    const unguard = await guardNavigations(page);
+    try {
+      return await traced(page, artifacts, () => abortable(fn(page), run.signal));
+    } finally {
+      await unguard();
     }
-
-    return analysis;
-  } finally {
-    await page.close();
   }
-}
-
-async function inspectComponentState(params: z.infer<typeof InspectComponentStateSchema>) {
-  const page = await browserManager.newPage();
-  const intelligence = new SourceIntelligenceLayer();
 
-  try {
-    await intelligence.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
-
-    if (params.waitForSelector) {
-      await page.waitForSelector(params.selector, { timeout: 10000 });
+  if (sessionId) {
+    if (!sessions.has(sessionId)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown session: ${sessionId}`);
     }
-
-    const component = await intelligence.getComponentAtElement(params.selector);
-
-    // Handle case where component is not found
-    if (!component) {
-      return {
-        selector: params.selector,
-        found: false,
-        error: 'Component not found',
-        message: `No component detected at selector: ${params.selector}. The element may not be a framework component, or it may not have loaded yet.`,
-      };
-    }
-
-    const inspection: any = {
-      selector: params.selector,
-      found: true,
-      component: {
-        name: component.name,
-        framework: component.framework,
-        props: component.props,
-        state: component.state,
-        source: component.source,
-        parents: component.parents,
-      },
-    };
-
-    if (params.includeChildren && component.children) {
-      inspection.children = component.children.map((child: any) => ({
-        name: child.name,
-        props: child.props,
-        state: child.state,
-      }));
+    if (hasEmulation(emulation)) {
+      // A live context cannot change its device or locale
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'emulation cannot be changed on an open session; pass it to session_open instead'
+      );
     }
-
-    return inspection;
-  } finally {
-    await page.close();
+    // Session pages stay open for the next call, and their captures can be paged through
+    return sessions.use(sessionId, session => {
+      run.results = session.results;
+      return traced(session.page, artifacts, () => abortable(fn(session.page), run.signal));
+    });
   }
-}
 
-async function traceNetworkRequests(params: z.infer<typeof TraceNetworkRequestsSchema>) {
-  const page = await browserManager.newPage();
-  const intelligence = new SourceIntelligenceLayer();
+  return contextPool.withPage(fn, run, { emulation, artifacts });
+}
 
+/**
+ * Trace a call on a page that outlives it
+ */
+async function traced<T>(
+  page: Page,
+  artifacts: ArtifactRecorder | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  await artifacts?.start(page.context());
   try {
-    await intelligence.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
-
-    // Wait for additional requests
-    await page.waitForTimeout(params.waitTime);
-
-    let traces = params.pattern
-      ? intelligence.getNetworkTracesForUrl(params.pattern)
-      : intelligence.getNetworkTraces();
-
-    // Filter by method if specified
-    if (params.method !== 'ALL') {
-      traces = traces.filter(t => t.method === params.method);
-    }
-
-    return {
-      url: params.url,
-      pattern: params.pattern,
-      method: params.method,
-      totalRequests: traces.length,
-      requests: traces.map(trace => ({
-        url: trace.url,
-        method: trace.method,
-        status: trace.status,
-        duration: trace.duration,
-        size: trace.responseSize,
-        triggeredBy: trace.stackTrace?.[0],
-        timestamp: trace.timestamp,
-      })),
-    };
+    return await fn();
   } finally {
-    await page.close();
+    await artifacts?.stop(page.context());
   }
 }
 
-async function analyzeBundleSize(params: z.infer<typeof AnalyzeBundleSchema>) {
-  const page = await browserManager.newPage();
-  const intelligence = new SourceIntelligenceLayer();
-
-  try {
-    await intelligence.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
+/**
+ * Build the run context for a tool call from the request's progress token and abort signal,
+ * with a fresh navigation budget and the client's store of paginated captures
+ */
+function createRunContext(
+  progressToken: string | number | undefined,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  results: ResultStore
+): RunContext {
+  let progress = 0;
 
-    const scripts = await page.$$eval('script[src]', scripts =>
-      scripts.map((s: any) => ({
-        src: s.src,
-        size: s.innerHTML?.length || 0,
-        async: s.async,
-        defer: s.defer,
-      }))
-    );
+  return {
+    signal: extra.signal,
+    navigations: new NavigationBudget(),
+    results,
+    progress:
+      progressToken === undefined
+        ? undefined
+        : message => {
+            extra
+              .sendNotification({
+                method: 'notifications/progress',
+                params: { progressToken, progress: ++progress, message },
+              })
+              .catch(() => {
+                // Client may have disconnected
+              });
+          },
+  };
+}
 
-    const stylesheets = await page.$$eval("link[rel='stylesheet']", links =>
-      links.map((l: any) => ({
-        href: l.href,
-        media: l.media || 'all',
-      }))
+/**
+ * Map a tool failure to the MCP error returned to the client
+ */
+function toMcpError(name: string, error: unknown, run: RunContext): McpError {
+  if (error instanceof z.ZodError) {
+    return new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`
     );
-
-    const analysis: any = {
-      url: params.url,
-      scripts: {
-        total: scripts.length,
-        totalSize: scripts.reduce((sum: number, s: any) => sum + s.size, 0),
-        files: scripts,
-      },
-      stylesheets: {
-        total: stylesheets.length,
-        files: stylesheets,
-      },
-      modules: [],
-      recommendations: [],
-    };
-
-    // Check for specific module if requested
-    if (params.moduleName) {
-      const module = intelligence.findBuildModule(params.moduleName);
-      if (module) {
-        analysis.modules.push({
-          name: module.name,
-          size: module.size,
-          sizeKB: (module.size / 1024).toFixed(2) + ' KB',
-          chunks: module.chunks,
-          dependencies: module.dependencies,
-        });
-
-        if (module.size > params.threshold * 1024) {
-          analysis.recommendations.push(
-            `Module '${module.name}' is ${(module.size / 1024).toFixed(2)} KB, ` +
-              `exceeding threshold of ${params.threshold} KB. Consider code splitting or lazy loading.`
-          );
-        }
-      } else {
-        analysis.modules.push({
-          name: params.moduleName,
-          found: false,
-          message: `Module '${params.moduleName}' not found in bundle`,
-        });
-      }
-    }
-
-    // General recommendations
-    const largeScripts = scripts.filter((s: any) => s.size > params.threshold * 1024);
-    if (largeScripts.length > 0) {
-      analysis.recommendations.push(
-        `Found ${largeScripts.length} script(s) larger than ${params.threshold} KB. ` +
-          `Consider code splitting for better performance.`
-      );
-    }
-
-    return analysis;
-  } finally {
-    await page.close();
   }
-}
-
-async function resolveMinifiedError(params: z.infer<typeof ResolveMinifiedErrorSchema>) {
-  const page = await browserManager.newPage();
-  const intelligence = new SourceIntelligenceLayer();
-
-  try {
-    await intelligence.initialize(page);
 
-    // Capture any errors that occur
-    const errors: Error[] = [];
-    page.on('pageerror', error => errors.push(error));
-
-    await page.goto(params.url, { waitUntil: 'networkidle' });
-
-    // Try to trigger the error if requested
-    if (params.triggerError) {
-      await page.waitForTimeout(2000);
+  if (error instanceof McpError) {
+    return error;
+  }
 
-      // Check if we captured any matching errors
-      const matchingError = errors.find(e => e.stack?.includes(params.errorStack.split('\n')[0]));
+  if (error instanceof PolicyViolationError) {
+    return new McpError(ErrorCode.InvalidParams, `URL policy violation: ${error.message}`, {
+      url: error.url,
+      rule: error.rule,
+    });
+  }
 
-      if (matchingError) {
-        const context = await intelligence.getErrorIntelligence(matchingError);
-        return {
-          resolved: true,
-          original: params.errorStack,
-          sourceMap: context.originalStack,
-          components: context.components,
-          networkContext: context.networkActivity?.slice(-5),
-          buildInfo: context.buildInfo,
-        };
-      }
-    }
+  if (error instanceof FrameNotFoundError) {
+    return new McpError(ErrorCode.InvalidParams, error.message, {
+      frame: error.frame,
+      available: error.available,
+    });
+  }
 
-    // Try to resolve the stack trace directly
-    const stackLines = params.errorStack.split('\n');
-    const resolved: string[] = [];
+  if (error instanceof TabNotFoundError) {
+    return new McpError(ErrorCode.InvalidParams, error.message, {
+      tab: error.tab,
+      available: error.available,
+    });
+  }
 
-    for (const line of stackLines) {
-      // Extract file, line, column from minified stack
-      const match = line.match(/at\s+.*?\s+\((.*?):(\d+):(\d+)\)/);
-      if (match) {
-        const [, file, line, column] = match;
-        const sourceLocation = await intelligence.resolveSourceLocation(
-          file,
-          parseInt(line),
-          parseInt(column)
-        );
+  if (error instanceof CursorError) {
+    return new McpError(ErrorCode.InvalidParams, error.message);
+  }
 
-        if (sourceLocation) {
-          resolved.push(
-            `at ${sourceLocation.file}:${sourceLocation.line}:${sourceLocation.column}`
-          );
-        } else {
-          resolved.push(line);
-        }
-      } else {
-        resolved.push(line);
-      }
-    }
+  if (error instanceof TimeoutError) {
+    return new McpError(ErrorCode.RequestTimeout, `Tool ${name} failed: ${error.message}`);
+  }
 
-    return {
-      resolved: resolved.length > 0,
-      original: params.errorStack,
-      sourceMap: resolved,
-      message: 'Stack trace resolved using source maps',
-    };
-  } finally {
-    await page.close();
+  if (error instanceof AbortError || run.signal?.aborted) {
+    return new McpError(ErrorCode.RequestTimeout, `Tool ${name} was cancelled`);
   }
+
+  logger.error(`Tool ${name} failed`, error);
+  return new McpError(
+    ErrorCode.InternalError,
+    `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+  );
 }
 
-// Register tool handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  // Workflow layer tools (6 high-level tools)
-  const workflowTools = [
-    {
-      name: 'debug_frontend_issue',
-      description: 'Debug frontend issues by analyzing components, network, and errors',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          url: { type: 'string', description: 'The URL of the page experiencing issues' },
-          selector: { type: 'string', description: 'CSS selector to focus on (optional)' },
-          errorMessage: { type: 'string', description: 'Error message to investigate (optional)' },
-          screenshot: { type: 'boolean', description: 'Capture screenshot of the issue' },
-        },
-        required: ['url'],
-      },
-    },
-    {
-      name: 'analyze_performance',
-      description:
-        'Analyze frontend performance including network, components, bundle size, and memory',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          url: { type: 'string', description: 'The URL to analyze for performance' },
-          interactions: {
-            type: 'array',
-            description: 'User interactions to perform before analysis',
-            items: {
-              type: 'object',
-              properties: {
-                action: { type: 'string', enum: ['click', 'type', 'scroll', 'navigate'] },
-                selector: { type: 'string' },
-                value: { type: 'string' },
-              },
-            },
-          },
-          metrics: {
-            type: 'array',
-            description: 'Metrics to analyze',
-            items: { type: 'string', enum: ['network', 'components', 'bundle', 'memory'] },
-          },
-        },
-        required: ['url'],
-      },
-    },
-    {
-      name: 'inspect_component_state',
-      description: 'Inspect the state, props, and structure of a specific component',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          url: { type: 'string', description: 'The page URL' },
-          selector: { type: 'string', description: 'CSS selector for the component' },
-          waitForSelector: { type: 'boolean', description: 'Wait for element to appear' },
-          includeChildren: { type: 'boolean', description: 'Include child components' },
-        },
-        required: ['url', 'selector'],
-      },
-    },
-    {
-      name: 'trace_network_requests',
-      description: 'Trace network requests and identify what triggered them',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          url: { type: 'string', description: 'The page URL' },
-          pattern: { type: 'string', description: "URL pattern to filter (e.g., '/api/*')" },
-          method: {
-            type: 'string',
-            enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'ALL'],
-            description: 'HTTP method to filter by',
-          },
-          waitTime: { type: 'number', description: 'Time to wait for requests (ms)' },
-        },
-        required: ['url'],
-      },
-    },
-    {
-      name: 'analyze_bundle_size',
-      description: 'Analyze JavaScript bundle size and identify large modules',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          url: { type: 'string', description: 'The application URL' },
-          moduleName: { type: 'string', description: 'Specific module to search for' },
-          threshold: { type: 'number', description: 'Size threshold in KB to flag modules' },
-        },
-        required: ['url'],
+/**
+ * Create an MCP server with its own sessions and resource subscriptions.
+ * The stdio transport uses a single server; the HTTP transport creates one per client session.
+ */
+function createMcpServer(): Server {
+  const server = new Server(SERVER_INFO, {
+    capabilities: {
+      tools: {},
+      logging: {},
+      resources: {
+        subscribe: true,
+        listChanged: true,
       },
     },
-    {
-      name: 'resolve_minified_error',
-      description: 'Resolve minified error stack traces to original source code',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          url: { type: 'string', description: 'The page URL' },
-          errorStack: { type: 'string', description: 'The minified error stack trace' },
-          triggerError: { type: 'boolean', description: 'Try to trigger the error' },
-        },
-        required: ['url', 'errorStack'],
-      },
+  });
+
+  // Persistent sessions shared across tool calls of this client
+  const sessionManager = new SessionManager(browserManager);
+  sessionManagers.add(sessionManager);
+
+  // Paginated captures of this client's calls that did not run on a session
+  const resultStore = new ResultStore();
+
+  // Captured sources, network traces and errors exposed as resources
+  const resourceCatalog = new ResourceCatalog(sessionManager, () => [getSharedSourceMapResolver()]);
+
+  // Resource URIs the client has subscribed to
+  const resourceSubscriptions = new Set<string>();
+
+  // Log entries forwarded to the client as notifications/message
+  const logSink: LogSink = {
+    level: 'info',
+    write: entry => {
+      server
+        .sendLoggingMessage({
+          level: entry.level,
+          logger: entry.logger,
+          data:
+            entry.data === undefined ? entry.message : { message: entry.message, data: entry.data },
+        })
+        .catch(() => {
+          // Client may have disconnected
+        });
     },
-  ];
-
-  // Granular layer tools (30 specialized tools)
-  const granularTools = [
-    // Source Intelligence Tools (7 tools)
-    ...(Array.isArray(SourceIntelligenceTools) ? SourceIntelligenceTools : []),
-
-    // Component Intelligence Tools (8 tools)
-    ...COMPONENT_INTELLIGENCE_TOOLS,
-
-    // Network Intelligence Tools (6 tools)
-    ...Object.values(networkIntelligenceTools),
-
-    // Build Intelligence Tools (5 tools)
-    ...BUILD_INTELLIGENCE_TOOLS,
-
-    // Performance Intelligence Tools - REMOVED
-    // See FUTURE_DEVELOPMENT.md for implementation plan
-
-    // Error Intelligence Tools (4 tools)
-    ...Object.values(errorIntelligenceTools),
-  ];
-
-  // Return all 36 tools organized by layer (6 workflow + 30 granular)
-  return {
-    tools: [...workflowTools, ...granularTools],
   };
-});
-
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async request => {
-  const { name, arguments: args } = request.params;
 
-  try {
-    let result: any;
-    const page = await browserManager.newPage();
-    const intelligence = new SourceIntelligenceLayer();
-
-    try {
-      // Initialize intelligence layer for granular tools
-      await intelligence.initialize(page);
+  // Handle a request with the client's log sink, so what it logs reaches this client only
+  const forClient =
+    <A extends unknown[], R>(handler: (...args: A) => R) =>
+    (...args: A): R =>
+      withLogSink(logSink, () => handler(...args));
 
-      switch (name) {
-        // ============================================================
-        // WORKFLOW LAYER (6 tools)
-        // ============================================================
-        case 'debug_frontend_issue': {
-          const params = DebugFrontendIssueSchema.parse(args);
-          result = await debugFrontendIssue(params);
-          break;
-        }
-
-        case 'analyze_performance': {
-          const params = AnalyzePerformanceSchema.parse(args);
-          result = await analyzePerformance(params);
-          break;
-        }
+  server.setRequestHandler(SetLevelRequestSchema, async request => {
+    logSink.level = request.params.level;
+    return {};
+  });
 
-        case 'inspect_component_state': {
-          const params = InspectComponentStateSchema.parse(args);
-          result = await inspectComponentState(params);
-          break;
-        }
-
-        case 'trace_network_requests': {
-          const params = TraceNetworkRequestsSchema.parse(args);
-          result = await traceNetworkRequests(params);
-          break;
-        }
-
-        case 'analyze_bundle_size': {
-          const params = AnalyzeBundleSchema.parse(args);
-          result = await analyzeBundleSize(params);
-          break;
-        }
-
-        case 'resolve_minified_error': {
-          const params = ResolveMinifiedErrorSchema.parse(args);
-          result = await resolveMinifiedError(params);
-          break;
-        }
-
-        // ============================================================
-        // COMPONENT INTELLIGENCE TOOLS (8 tools)
-        // ============================================================
-        case 'component_tree': {
-          result = await componentTree(page, args as any);
-          break;
-        }
-
-        case 'component_get_props': {
-          result = await componentGetProps(page, args as any);
-          break;
-        }
-
-        case 'component_get_state': {
-          result = await componentGetState(page, args as any);
-          break;
-        }
-
-        case 'component_find_by_name': {
-          result = await componentFindByName(page, args as any);
-          break;
-        }
-
-        case 'component_get_source': {
-          result = await componentGetSource(page, args as any);
-          break;
-        }
-
-        case 'component_track_renders': {
-          result = await componentTrackRenders(page, args as any);
-          break;
-        }
-
-        case 'component_get_context': {
-          result = await componentGetContext(page, args as any);
-          break;
-        }
-
-        case 'component_get_hooks': {
-          result = await componentGetHooks(page, args as any);
-          break;
-        }
-
-        // ============================================================
-        // NETWORK INTELLIGENCE TOOLS (6 tools)
-        // ============================================================
-        case 'network_get_requests': {
-          result = await networkGetRequests(page, args as any);
-          break;
-        }
-
-        case 'network_get_by_url': {
-          result = await networkGetByUrl(page, args as any);
-          break;
-        }
-
-        case 'network_get_timing': {
-          result = await networkGetTiming(page, args as any);
-          break;
-        }
-
-        case 'network_trace_initiator': {
-          result = await networkTraceInitiator(page, args as any);
-          break;
-        }
-
-        case 'network_get_headers': {
-          result = await networkGetHeaders(page, args as any);
-          break;
-        }
-
-        case 'network_get_body': {
-          result = await networkGetBody(page, args as any);
-          break;
-        }
+  // Register tool handlers
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: toolRegistry.list(),
+    };
+  });
+
+  // Handle tool calls
+  server.setRequestHandler(
+    CallToolRequestSchema,
+    forClient(async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      const run = createRunContext(request.params._meta?.progressToken, extra, resultStore);
+      const startedAt = Date.now();
+      // Arguments as validated, once they are
+      let validated: Record<string, unknown> | undefined;
+      let recorder: ArtifactRecorder | undefined;
+
+      const audit = (response?: CallToolResult, error?: McpError) =>
+        auditLog?.record({
+          timestamp: new Date(startedAt).toISOString(),
+          tool: name,
+          sessionId: (validated ?? args)?.sessionId as string | undefined,
+          arguments: validated ?? args ?? {},
+          urls: run.navigations?.urls ?? [],
+          durationMs: Date.now() - startedAt,
+          resultBytes: response ? Buffer.byteLength(JSON.stringify(response)) : undefined,
+          error: error && { code: error.code, message: error.message },
+        });
 
-        // ============================================================
-        // ERROR INTELLIGENCE TOOLS (4 tools)
-        // ============================================================
-        case 'error_resolve_stack': {
-          result = await errorResolveStack(page, args as any);
-          break;
+      try {
+        const tool = toolRegistry.get(name);
+        if (!tool) {
+          throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
         }
 
-        case 'error_get_context': {
-          result = await errorGetContext(page, args as any);
-          break;
+        const params = toolRegistry.parse(name, args);
+        validated = params;
+        if (tool.scope === 'page' && params.steps?.length) {
+          run.steps = new StepPlan(params.steps);
         }
-
-        case 'error_trace_cause': {
-          result = await errorTraceCause(page, args as any);
-          break;
+        if (tool.scope === 'page' && (params.artifacts?.trace || params.artifacts?.video)) {
+          recorder = new ArtifactRecorder(params.artifacts, name);
         }
 
-        case 'error_get_similar': {
-          result = await errorGetSimilar(page, args as any);
-          break;
-        }
+        const result = await withDeadline(run, getConfig().pool.callTimeoutMs, run =>
+          tool.scope === 'sessions'
+            ? tool.handler(sessionManager, params, run)
+            : withPage(sessionManager, params, run, recorder, page =>
+                tool.handler(page, params, run)
+              )
+        );
 
-        // ============================================================
-        // BUILD INTELLIGENCE TOOLS (5 tools)
-        // ============================================================
-        case 'build_get_manifest': {
-          result = await buildGetManifest(page, args as any);
-          break;
-        }
+        const response = toolRegistry.toCallToolResult(name, result, {
+          steps: run.steps?.results(),
+          artifacts: await recorder?.report(),
+        });
+        audit(response);
+        return response;
+      } catch (error) {
+        const mcpError = toMcpError(name, error, run);
+        // What was recorded up to the failure is kept; the saved paths are logged
+        await recorder?.report();
+        audit(undefined, mcpError);
+        throw mcpError;
+      }
+    })
+  );
 
-        case 'build_get_chunks': {
-          result = await buildGetChunks(page, args as any);
-          break;
-        }
+  // ============================================================
+  // RESOURCES
+  // ============================================================
 
-        case 'build_find_module': {
-          result = await buildFindModule(page, args as any);
-          break;
-        }
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: await resourceCatalog.list(),
+    };
+  });
 
-        case 'build_get_dependencies': {
-          result = await buildGetDependencies(page, args as any);
-          break;
-        }
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: RESOURCE_TEMPLATES,
+    };
+  });
 
-        case 'build_analyze_size': {
-          result = await buildAnalyzeSize(page, args as any);
-          break;
-        }
+  server.setRequestHandler(
+    ReadResourceRequestSchema,
+    forClient(async request => {
+      const contents = await resourceCatalog.read(request.params.uri);
 
-        // ============================================================
-        // SOURCE INTELLIGENCE TOOLS (7 tools)
-        // ============================================================
-        case 'source_map_resolve': {
-          result = await sourceMapResolve(page, args as any);
-          break;
-        }
+      if (!contents) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${request.params.uri}`);
+      }
 
-        case 'source_map_get_content': {
-          result = await sourceMapGetContent(page, args as any);
-          break;
-        }
+      return {
+        contents: [contents],
+      };
+    })
+  );
+
+  server.setRequestHandler(SubscribeRequestSchema, async request => {
+    resourceSubscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    resourceSubscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Notify subscribers when a session captures new data
+  sessionManager.on('captured', (sessionId: string, kind: CaptureKind) => {
+    const uri = sessionUri(sessionId, kind);
+    if (resourceSubscriptions.has(uri)) {
+      server.sendResourceUpdated({ uri }).catch(() => {
+        // Client may have disconnected
+      });
+    }
+  });
 
-        case 'source_trace_stack': {
-          result = await sourceTraceStack(page, args as any);
-          break;
-        }
+  // Session resources appear and disappear with their sessions
+  for (const event of ['opened', 'closed']) {
+    sessionManager.on(event, () => {
+      server.sendResourceListChanged().catch(() => {
+        // Client may have disconnected
+      });
+    });
+  }
 
-        case 'source_find_definition': {
-          result = await sourceFindDefinition(page, args as any);
-          break;
-        }
+  // Release the client's sessions when its connection goes away
+  server.onclose = () => {
+    sessionManagers.delete(sessionManager);
+    resultStore.clear();
+    sessionManager.closeAll().catch(() => {
+      // Ignore errors during cleanup
+    });
+  };
 
-        case 'source_get_symbols': {
-          result = await sourceGetSymbols(page, args as any);
-          break;
-        }
+  return server;
+}
 
-        case 'source_map_bundle': {
-          result = await sourceMapBundle(page, args as any);
-          break;
-        }
+// Cleanup on exit
+async function shutdown() {
+  await Promise.all(Array.from(sessionManagers).map(manager => manager.closeAll()));
+  await contextPool?.close();
+  await browserManager.close();
+  process.exit(0);
+}
 
-        case 'source_coverage_map': {
-          result = await sourceCoverageMap(page, args as any);
-          break;
-        }
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
-        default:
-          throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
-      }
-    } finally {
-      // Always close the page when done
-      await page.close().catch(() => {
-        // Ignore errors during cleanup
-      });
-    }
+// Start the server
+async function main() {
+  const options = new Command()
+    .name('websee-mcp')
+    .description('WebSee MCP Server - Frontend debugging intelligence')
+    .version(SERVER_INFO.version)
+    .option(
+      '-t, --transport <type>',
+      'Transport to use (stdio, http)',
+      process.env.WEBSEE_TRANSPORT || 'stdio'
+    )
+    .option('-p, --port <number>', 'Port for the HTTP transport', process.env.WEBSEE_PORT || '3000')
+    .option('--host <host>', 'Host for the HTTP transport', process.env.WEBSEE_HOST || '127.0.0.1')
+    .option(
+      '--token <token>',
+      'Bearer token required by the HTTP transport (defaults to WEBSEE_AUTH_TOKEN)'
+    )
+    .option(
+      '--idle-timeout <minutes>',
+      'Close HTTP client sessions after this many minutes without a request (0: never)',
+      process.env.WEBSEE_IDLE_TIMEOUT || '30'
+    )
+    .option('-c, --config <path>', 'Config file (defaults to WEBSEE_CONFIG or websee.config.*)')
+    .option('--profile <name>', 'Config profile to apply (defaults to WEBSEE_PROFILE)')
+    .option('--record <dir>', 'Record network traffic, source maps, console output and components')
+    .option('--replay <dir>', 'Serve pages from a recording made with --record, without network')
+    .option('--cdp <endpoint>', 'Attach to a running Chrome (e.g. http://localhost:9222)')
+    .parse(process.argv)
+    .opts();
+
+  if (options.record && options.replay) {
+    throw new Error('--record and --replay cannot be used together');
+  }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
+  let config = await loadConfig({ configPath: options.config, profile: options.profile });
+  if (options.record || options.replay) {
+    config = {
+      ...config,
+      recording: {
+        mode: options.record ? 'record' : 'replay',
+        dir: resolve(options.record || options.replay),
+      },
     };
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        `Invalid parameters: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`
-      );
-    }
+  }
+  if (options.cdp) {
+    config = { ...config, cdpEndpoint: options.cdp };
+  }
+  setConfig(config);
+  toolRegistry = new ToolRegistry(getToolsForGroups(config.tools.groups), PageParamsSchema);
+  contextPool = new ContextPool(browserManager, config.pool);
+  auditLog = createAuditLog(config);
+
+  if (config.configPath) {
+    logger.info(
+      `Loaded ${config.configPath}` + (config.profile ? ` (profile: ${config.profile})` : '')
+    );
+  }
+  if (config.recording.mode !== 'off') {
+    logger.info(
+      `${config.recording.mode === 'record' ? 'Recording to' : 'Replaying from'} ${config.recording.dir}`
+    );
+  }
 
-    if (error instanceof McpError) {
-      throw error;
+  if (options.transport === 'http') {
+    const port = parseInt(options.port, 10);
+    if (Number.isNaN(port)) {
+      throw new Error(`Invalid port: ${options.port}`);
+    }
+    const idleMinutes = Number(options.idleTimeout);
+    if (!Number.isFinite(idleMinutes) || idleMinutes < 0) {
+      throw new Error(`Invalid idle timeout: ${options.idleTimeout}`);
     }
 
-    throw new McpError(
-      ErrorCode.InternalError,
-      `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-    );
+    await startHttpTransport(createMcpServer, {
+      port,
+      host: options.host,
+      token: options.token || process.env.WEBSEE_AUTH_TOKEN || undefined,
+      idleTimeoutMs: idleMinutes * 60 * 1000,
+    });
+    logger.info(`WebSee MCP Server listening on http://${options.host}:${port}/mcp`);
+    return;
   }
-});
-
-// Cleanup on exit
-process.on('SIGINT', async () => {
-  await browserManager.close();
-  process.exit(0);
-});
 
-process.on('SIGTERM', async () => {
-  await browserManager.close();
-  process.exit(0);
-});
+  if (options.transport !== 'stdio') {
+    throw new Error(`Unknown transport: ${options.transport} (expected stdio or http)`);
+  }
 
-// Start the server
-async function main() {
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createMcpServer().connect(transport);
 
-  // Note: No logging here to avoid interfering with stdio-based MCP protocol
+  // Logs go to stderr or WEBSEE_LOG_FILE, never stdout, so the stdio protocol stays intact
 }
 
 main().catch(error => {
-  console.error('Server failed to start:', error);
+  logger.error('Server failed to start', error);
   process.exit(1);
 });
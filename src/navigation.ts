@@ -0,0 +1,93 @@
+/**
+ * Page Navigation
+ * Shared navigation entry point for all WebSee tools
+ * Part of the WebSee Source Intelligence Layer
+ */
+
+import { Page } from 'playwright';
+import { getConfig } from './config.js';
+import { RunContext, abortable, reportProgress, throwIfAborted } from './run-context.js';
+import { getUrlPolicy, takeBlockedNavigation } from './url-policy.js';
+
+/**
+ * Compare two URLs ignoring differences that do not change the document
+ * (e.g. `https://app.com` vs `https://app.com/`)
+ */
+export function isSameUrl(a: string, b: string): boolean {
+  try {
+    return new URL(a).href === new URL(b).href;
+  } catch {
+    return a === b;
+  }
+}
+
+/**
+ * Navigate a page to a URL unless it is already showing that URL.
+ *
+ * Pages from persistent sessions keep their state between tool calls, so a tool
+ * called with the current URL inspects the live page instead of reloading it.
+ * Tabs of an attached browser (`context.stayOnPage`) are never navigated.
+ *
+ * Waits for the configured load state (`navigation.waitUntil`, default `networkidle`),
+ * then runs the call's interaction steps, if it has any and they have not run yet.
+ * Cancelling `context.signal` stops waiting for the load immediately.
+ *
+ * @returns true if a navigation happened
+ * @throws PolicyViolationError if the URL policy (also for redirects) or the call's
+ * navigation budget forbids it
+ */
+export async function navigateTo(
+  page: Page,
+  url: string,
+  context: RunContext = {}
+): Promise<boolean> {
+  throwIfAborted(context.signal);
+
+  if (context.stayOnPage || isSameUrl(page.url(), url)) {
+    await context.steps?.run(page, context);
+    return false;
+  }
+
+  getUrlPolicy().check(url);
+  context.navigations?.take(url);
+
+  const { waitUntil, timeoutMs } = getConfig().navigation;
+  reportProgress(context, `Navigating to ${url}`);
+  await guarded(page, () =>
+    abortable(page.goto(url, { waitUntil, timeout: timeoutMs }), context.signal)
+  );
+  await context.steps?.run(page, context);
+  return true;
+}
+
+/**
+ * Reload the page the way `navigateTo` loads it, then run the call's interaction steps
+ *
+ * @throws PolicyViolationError if the call's navigation budget is used up or the
+ * reload is redirected to a URL the policy forbids
+ */
+export async function reloadPage(page: Page, context: RunContext = {}): Promise<void> {
+  throwIfAborted(context.signal);
+  context.navigations?.take(page.url());
+
+  const { waitUntil, timeoutMs } = getConfig().navigation;
+  reportProgress(context, `Reloading ${page.url()}`);
+  await guarded(page, () =>
+    abortable(page.reload({ waitUntil, timeout: timeoutMs }), context.signal)
+  );
+  await context.steps?.run(page, context);
+}
+
+/**
+ * Wait for a navigation; if the URL policy's route guard blocked it (e.g. a redirect
+ * to a denied host), fail with the violation rather than the network error
+ */
+async function guarded(page: Page, navigate: () => Promise<unknown>): Promise<void> {
+  // Forget blocks from before, e.g. of a link a step clicked
+  takeBlockedNavigation(page);
+  try {
+    await navigate();
+  } catch (error) {
+    throw takeBlockedNavigation(page) ?? error;
+  }
+}
@@ -0,0 +1,350 @@
+/**
+ * Network Conditions
+ * Throttling, offline transitions and fault injection for a page
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * Bandwidth and latency are throttled through the Chrome DevTools Protocol on Chromium;
+ * other browsers only get the latency, added by delaying each request. Faults are
+ * injected with request routing in every browser: a rule matching a request can delay
+ * it, abort it with a network error or answer it with an error status. Rules apply in
+ * order and the first match wins; `probability` makes a rule flaky and `seed` makes
+ * the flakiness repeatable. Every request a rule or the offline state changed is
+ * recorded so tools can report what was affected.
+ *
+ * Conditions stay on a page until they are cleared or replaced, so a session page
+ * keeps them for later tool calls.
+ */
+
+import { CDPSession, Page, Request, Route } from 'playwright';
+import { z } from 'zod';
+import { matchesPattern } from './config.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('network-conditions');
+
+/**
+ * Chrome DevTools throttling profiles (latency in ms, throughput in kbit/s)
+ */
+export const NETWORK_PRESETS = {
+  'slow-3g': { latencyMs: 2000, downloadKbps: 400, uploadKbps: 400 },
+  'fast-3g': { latencyMs: 563, downloadKbps: 1440, uploadKbps: 675 },
+  'fast-4g': { latencyMs: 165, downloadKbps: 8100, uploadKbps: 1350 },
+} as const;
+
+export type NetworkPreset = keyof typeof NETWORK_PRESETS;
+
+export const ThrottleSchema = z
+  .object({
+    latencyMs: z.number().min(0).describe('Added round-trip latency (ms)'),
+    downloadKbps: z
+      .number()
+      .positive()
+      .optional()
+      .describe('Download bandwidth in kbit/s (Chromium only; unlimited if omitted)'),
+    uploadKbps: z
+      .number()
+      .positive()
+      .optional()
+      .describe('Upload bandwidth in kbit/s (Chromium only; unlimited if omitted)'),
+  })
+  .strict();
+
+export type Throttle = z.infer<typeof ThrottleSchema>;
+
+const NETWORK_ERRORS = [
+  'failed',
+  'aborted',
+  'timedout',
+  'connectionrefused',
+  'connectionreset',
+  'internetdisconnected',
+  'namenotresolved',
+] as const;
+
+export const FaultRuleSchema = z
+  .object({
+    pattern: z.string().min(1).describe('Request URL pattern (* wildcards), e.g. "*/api/*"'),
+    method: z.string().optional().describe('Only requests with this HTTP method'),
+    delayMs: z.number().int().min(0).max(120000).optional().describe('Hold the request (ms)'),
+    abort: z.enum(NETWORK_ERRORS).optional().describe('Fail the request with this network error'),
+    status: z
+      .number()
+      .int()
+      .min(400)
+      .max(599)
+      .optional()
+      .describe('Answer with this error status instead of contacting the server'),
+    probability: z
+      .number()
+      .min(0)
+      .max(1)
+      .default(1)
+      .describe('Share of matching requests the rule applies to'),
+    times: z.number().int().positive().optional().describe('Apply to at most this many requests'),
+  })
+  .strict()
+  .refine(rule => !(rule.abort && rule.status), {
+    message: 'A fault rule can abort a request or answer it with a status, not both',
+  })
+  .refine(rule => rule.delayMs !== undefined || rule.abort || rule.status, {
+    message: 'A fault rule needs delayMs, abort or status',
+  });
+
+export type FaultRule = z.infer<typeof FaultRuleSchema>;
+
+export const NetworkConditionsSchema = z.object({
+  preset: z
+    .enum(Object.keys(NETWORK_PRESETS) as [NetworkPreset, ...NetworkPreset[]])
+    .optional()
+    .describe('Throttling profile'),
+  throttle: ThrottleSchema.optional().describe('Custom throttling (overrides the preset)'),
+  faults: z.array(FaultRuleSchema).max(50).default([]).describe('Fault injection rules'),
+  seed: z
+    .number()
+    .int()
+    .optional()
+    .describe('Seed for rules with a probability, so flaky runs can be repeated'),
+});
+
+export type NetworkConditionsInput = z.input<typeof NetworkConditionsSchema>;
+
+export interface AffectedRequest {
+  url: string;
+  method: string;
+  resourceType: string;
+  fault: 'delay' | 'abort' | 'status' | 'offline';
+  /** Delay, error code or status that was applied */
+  detail: string;
+  /** Index of the fault rule that matched */
+  rule?: number;
+  timestamp: number;
+}
+
+export interface AppliedThrottle extends Throttle {
+  /** `cdp` throttles bandwidth and latency; `route` only delays requests */
+  via: 'cdp' | 'route';
+}
+
+// Conditions active on each page, replaced when new ones are applied
+const activeConditions = new WeakMap<Page, NetworkConditions>();
+
+/**
+ * Network conditions applied to one page
+ */
+export class NetworkConditions {
+  readonly affected: AffectedRequest[] = [];
+  private cdp: CDPSession | null = null;
+  private throttle: AppliedThrottle | null = null;
+  private offline = false;
+  private uses: number[];
+  private random: () => number;
+  private readonly onRoute = (route: Route, request: Request) => this.handleRoute(route, request);
+  private readonly onRequestFailed = (request: Request) => {
+    if (this.offline) {
+      this.record(request, 'offline', request.failure()?.errorText ?? 'offline');
+    }
+  };
+
+  private constructor(
+    private readonly page: Page,
+    private readonly faults: FaultRule[],
+    seed: number | undefined
+  ) {
+    this.uses = faults.map(() => 0);
+    this.random = seed === undefined ? Math.random : seededRandom(seed);
+  }
+
+  /**
+   * Apply conditions to a page, replacing any applied before
+   */
+  static async apply(page: Page, input: NetworkConditionsInput): Promise<NetworkConditions> {
+    await clearNetworkConditions(page);
+
+    const { preset, throttle, faults, seed } = NetworkConditionsSchema.parse(input);
+    const conditions = new NetworkConditions(page, faults, seed);
+    activeConditions.set(page, conditions);
+
+    const profile = throttle ?? (preset && NETWORK_PRESETS[preset]);
+    if (profile) {
+      await conditions.startThrottling(profile);
+    }
+    if (faults.length > 0 || conditions.throttle?.via === 'route') {
+      await page.route('**/*', conditions.onRoute);
+    }
+    page.on('requestfailed', conditions.onRequestFailed);
+
+    return conditions;
+  }
+
+  /**
+   * Throttling in effect, or null if the page is not throttled
+   */
+  get throttling(): AppliedThrottle | null {
+    return this.throttle;
+  }
+
+  get isOffline(): boolean {
+    return this.offline;
+  }
+
+  /**
+   * Take the page's context offline or back online; pages see `online`/`offline` events
+   */
+  async setOffline(offline: boolean): Promise<void> {
+    this.offline = offline;
+    await this.page.context().setOffline(offline);
+  }
+
+  /**
+   * Remove the conditions from the page
+   */
+  async clear(): Promise<void> {
+    if (activeConditions.get(this.page) === this) {
+      activeConditions.delete(this.page);
+    }
+    this.page.off('requestfailed', this.onRequestFailed);
+    if (this.page.isClosed()) return;
+
+    await this.page.unroute('**/*', this.onRoute).catch(() => {
+      // Page closed meanwhile
+    });
+    if (this.offline) {
+      await this.setOffline(false).catch(() => {
+        // Context closed meanwhile
+      });
+    }
+    if (this.cdp) {
+      await this.cdp
+        .send('Network.emulateNetworkConditions', {
+          offline: false,
+          latency: 0,
+          downloadThroughput: -1,
+          uploadThroughput: -1,
+        })
+        .catch(() => {
+          // Page closed meanwhile
+        });
+      await this.cdp.detach().catch(() => {
+        // Session already detached
+      });
+    }
+  }
+
+  private async startThrottling(throttle: Throttle): Promise<void> {
+    try {
+      this.cdp = await this.page.context().newCDPSession(this.page);
+    } catch {
+      // Not Chromium: latency is emulated by delaying requests
+      logger.debug('CDP unavailable, throttling latency only');
+      this.throttle = { ...throttle, via: 'route' };
+      return;
+    }
+
+    await this.cdp.send('Network.enable');
+    await this.cdp.send('Network.emulateNetworkConditions', {
+      offline: false,
+      latency: throttle.latencyMs,
+      downloadThroughput: throttle.downloadKbps ? (throttle.downloadKbps * 1000) / 8 : -1,
+      uploadThroughput: throttle.uploadKbps ? (throttle.uploadKbps * 1000) / 8 : -1,
+    });
+    this.throttle = { ...throttle, via: 'cdp' };
+  }
+
+  private async handleRoute(route: Route, request: Request): Promise<void> {
+    try {
+      if (this.throttle?.via === 'route' && this.throttle.latencyMs > 0) {
+        await sleep(this.throttle.latencyMs);
+      }
+
+      const index = this.matchRule(request);
+      if (index === -1) {
+        await route.fallback();
+        return;
+      }
+
+      const rule = this.faults[index];
+      if (rule.delayMs) {
+        this.record(request, 'delay', `${rule.delayMs}ms`, index);
+        await sleep(rule.delayMs);
+      }
+      if (rule.abort) {
+        this.record(request, 'abort', rule.abort, index);
+        await route.abort(rule.abort);
+      } else if (rule.status) {
+        this.record(request, 'status', String(rule.status), index);
+        await route.fulfill({
+          status: rule.status,
+          contentType: 'text/plain',
+          body: `Injected fault: HTTP ${rule.status}`,
+        });
+      } else {
+        await route.fallback();
+      }
+    } catch (error) {
+      // The page or route went away while the request was held
+      logger.debug(`Cannot apply network conditions to ${request.url()}`, error);
+    }
+  }
+
+  private matchRule(request: Request): number {
+    return this.faults.findIndex((rule, index) => {
+      if (!matchesPattern(request.url(), rule.pattern)) return false;
+      if (rule.method && rule.method.toUpperCase() !== request.method()) return false;
+      if (rule.times !== undefined && this.uses[index] >= rule.times) return false;
+      if (rule.probability < 1 && this.random() >= rule.probability) return false;
+
+      this.uses[index]++;
+      return true;
+    });
+  }
+
+  private record(
+    request: Request,
+    fault: AffectedRequest['fault'],
+    detail: string,
+    rule?: number
+  ): void {
+    this.affected.push({
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      fault,
+      detail,
+      ...(rule !== undefined && { rule }),
+      timestamp: Date.now(),
+    });
+  }
+}
+
+/**
+ * Apply network conditions to a page, replacing any applied before
+ */
+export function applyNetworkConditions(
+  page: Page,
+  conditions: NetworkConditionsInput
+): Promise<NetworkConditions> {
+  return NetworkConditions.apply(page, conditions);
+}
+
+/**
+ * Remove the network conditions of a page, if it has any
+ */
+export async function clearNetworkConditions(page: Page): Promise<void> {
+  await activeConditions.get(page)?.clear();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// mulberry32: small, fast and good enough to pick which requests fail
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
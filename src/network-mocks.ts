@@ -0,0 +1,388 @@
+/**
+ * Network Mocks
+ * Declarative request mocking and stubbing for a page
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * Mock rules are registered as request routes before the page loads. A rule matches
+ * requests by URL pattern, method and GraphQL operation name, and answers them with a
+ * fixed status, body and headers, with the contents of a file, or by forwarding the
+ * request to the server and changing its response (status, headers, body, or fields
+ * merged into a JSON body). Any rule can delay its answer. Rules apply in order and
+ * the first match wins; every request a rule answered is recorded.
+ *
+ * Mocks stay on a page until they are cleared or replaced, so a session page keeps
+ * them for later tool calls.
+ *
+ * Page routes run before the URL policy guard of the browser context, so mocks leave
+ * document requests the policy forbids to the guard, and passthrough rules fetch
+ * documents without following redirects: the page follows them itself, and each hop
+ * is checked against the policy.
+ */
+
+import { access } from 'fs/promises';
+import { isAbsolute, relative, resolve } from 'path';
+import { APIResponse, Page, Request, Route } from 'playwright';
+import { z } from 'zod';
+import { getConfig, matchesPattern } from './config.js';
+import { createLogger } from './logger.js';
+import {
+  getUrlPolicy,
+  isDocumentRequest,
+  PolicyViolationError,
+  rejectNavigation,
+} from './url-policy.js';
+
+const logger = createLogger('network-mocks');
+
+const JsonBodySchema = z.union([z.record(z.unknown()), z.array(z.unknown())]);
+
+export const MockRuleSchema = z
+  .object({
+    pattern: z.string().min(1).describe('Request URL pattern (* wildcards), e.g. "*/api/user*"'),
+    method: z.string().optional().describe('Only requests with this HTTP method'),
+    operation: z
+      .string()
+      .optional()
+      .describe('Only GraphQL requests for this operation name (from operationName or the query)'),
+    status: z.number().int().min(100).max(599).optional().describe('Response status'),
+    headers: z
+      .record(z.string())
+      .optional()
+      .describe('Response headers (added to the real ones with passthrough)'),
+    body: z
+      .union([z.string(), JsonBodySchema])
+      .optional()
+      .describe('Response body; objects and arrays are sent as JSON'),
+    bodyFile: z
+      .string()
+      .optional()
+      .describe('File inside the project root to answer with; its type follows the extension'),
+    passthrough: z
+      .boolean()
+      .optional()
+      .describe('Send the request to the server and change its response instead of replacing it'),
+    merge: z
+      .record(z.unknown())
+      .optional()
+      .describe('With passthrough: fields deep-merged into the JSON response body'),
+    delayMs: z.number().int().min(0).max(120000).optional().describe('Hold the answer (ms)'),
+    times: z.number().int().positive().optional().describe('Apply to at most this many requests'),
+  })
+  .strict()
+  .refine(rule => !(rule.body !== undefined && rule.bodyFile), {
+    message: 'A mock rule can have body or bodyFile, not both',
+  })
+  .refine(rule => !rule.merge || (rule.passthrough && rule.body === undefined && !rule.bodyFile), {
+    message: 'merge needs passthrough and cannot be combined with body or bodyFile',
+  })
+  .refine(
+    rule =>
+      rule.passthrough ||
+      rule.status !== undefined ||
+      rule.headers ||
+      rule.body !== undefined ||
+      rule.bodyFile ||
+      rule.delayMs !== undefined,
+    { message: 'A mock rule needs status, headers, body, bodyFile, passthrough or delayMs' }
+  );
+
+export type MockRule = z.infer<typeof MockRuleSchema>;
+
+export const NetworkMocksSchema = z.object({
+  rules: z
+    .array(MockRuleSchema)
+    .max(50)
+    .default([])
+    .describe('Mock rules, first match wins; no rules clears the mocks of a session page'),
+});
+
+export type NetworkMocksInput = z.input<typeof NetworkMocksSchema>;
+
+export interface AppliedMock {
+  /** Index of the rule that answered */
+  rule: number;
+  url: string;
+  method: string;
+  /** GraphQL operation the rule matched */
+  operation?: string;
+  /** `fulfill` answered without the server, `passthrough` changed the server's response */
+  action: 'fulfill' | 'passthrough' | 'delay';
+  /** Status the page received */
+  status?: number;
+  /** Why the mock could not be applied */
+  error?: string;
+  timestamp: number;
+}
+
+// Mocks active on each page, replaced when new ones are applied
+const activeMocks = new WeakMap<Page, NetworkMocks>();
+
+/**
+ * Mock rules applied to one page
+ */
+export class NetworkMocks {
+  readonly applied: AppliedMock[] = [];
+  private uses: number[];
+  private readonly onRoute = (route: Route, request: Request) => this.handleRoute(route, request);
+
+  private constructor(
+    private readonly page: Page,
+    private readonly rules: MockRule[],
+    private readonly files: Array<string | undefined>
+  ) {
+    this.uses = rules.map(() => 0);
+  }
+
+  /**
+   * Apply mock rules to a page, replacing any applied before
+   *
+   * @throws Error if a body file is outside the project root or missing
+   */
+  static async apply(page: Page, input: NetworkMocksInput): Promise<NetworkMocks> {
+    await clearNetworkMocks(page);
+
+    const { rules } = NetworkMocksSchema.parse(input);
+    const files = await Promise.all(
+      rules.map(rule => rule.bodyFile && resolveBodyFile(rule.bodyFile))
+    );
+    const mocks = new NetworkMocks(page, rules, files);
+    activeMocks.set(page, mocks);
+
+    if (rules.length > 0) {
+      await page.route('**/*', mocks.onRoute);
+    }
+    return mocks;
+  }
+
+  /**
+   * Indexes of rules that have not answered any request
+   */
+  get unusedRules(): number[] {
+    return this.uses.flatMap((count, index) => (count === 0 ? [index] : []));
+  }
+
+  /**
+   * Remove the mocks from the page
+   */
+  async clear(): Promise<void> {
+    if (activeMocks.get(this.page) === this) {
+      activeMocks.delete(this.page);
+    }
+    if (this.page.isClosed()) return;
+
+    await this.page.unroute('**/*', this.onRoute).catch(() => {
+      // Page closed meanwhile
+    });
+  }
+
+  private async handleRoute(route: Route, request: Request): Promise<void> {
+    const document = isDocumentRequest(request);
+    if (document && !getUrlPolicy().isAllowed(request.url())) {
+      // The context's navigation guard blocks it
+      await route.fallback();
+      return;
+    }
+
+    const match = this.matchRule(request);
+    if (!match) {
+      await route.fallback();
+      return;
+    }
+
+    const { index, operation } = match;
+    const rule = this.rules[index];
+    const record = (action: AppliedMock['action'], status?: number, error?: string) =>
+      this.applied.push({
+        rule: index,
+        url: request.url(),
+        method: request.method(),
+        ...(operation && { operation }),
+        action,
+        ...(status !== undefined && { status }),
+        ...(error && { error }),
+        timestamp: Date.now(),
+      });
+
+    try {
+      if (rule.delayMs) {
+        await sleep(rule.delayMs);
+      }
+
+      if (rule.passthrough) {
+        const response = document ? await route.fetch({ maxRedirects: 0 }) : await route.fetch();
+        const location = redirectLocation(request, response);
+        if (location) {
+          try {
+            getUrlPolicy().check(location);
+          } catch (error) {
+            const violation = error as PolicyViolationError;
+            record('passthrough', undefined, violation.message);
+            await rejectNavigation(route, request, violation);
+            return;
+          }
+          // The rule applies to the page the redirect ends on, if it matches it
+          await route.fulfill({ response });
+          record('passthrough', response.status());
+          return;
+        }
+
+        const status = rule.status ?? response.status();
+        const body = rule.merge
+          ? { json: deepMerge(await response.json(), rule.merge) }
+          : this.body(index);
+        const headers = { ...response.headers(), ...rule.headers };
+        if (Object.keys(body).length > 0) {
+          // The length of the real body no longer applies
+          delete headers['content-length'];
+        }
+        await route.fulfill({ response, status, headers, ...body });
+        record('passthrough', status);
+      } else if (
+        rule.status !== undefined ||
+        rule.headers ||
+        rule.body !== undefined ||
+        this.files[index]
+      ) {
+        const status = rule.status ?? 200;
+        await route.fulfill({ status, headers: rule.headers, ...this.body(index) });
+        record('fulfill', status);
+      } else {
+        record('delay');
+        await route.fallback();
+      }
+    } catch (error) {
+      // The server or the page went away, or the real response was not JSON
+      const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+      logger.debug(`Cannot mock ${request.url()}`, error);
+      record(rule.passthrough ? 'passthrough' : 'fulfill', undefined, message);
+      await route.abort('failed').catch(() => {
+        // Route already handled or page closed
+      });
+    }
+  }
+
+  /**
+   * Body options of a rule for `route.fulfill`
+   */
+  private body(index: number): { body?: string; json?: unknown; path?: string } {
+    const { body } = this.rules[index];
+    const file = this.files[index];
+    if (file) return { path: file };
+    if (typeof body === 'string') return { body };
+    if (body !== undefined) return { json: body };
+    return {};
+  }
+
+  private matchRule(request: Request): { index: number; operation?: string } | null {
+    let operations: string[] | null = null;
+
+    for (const [index, rule] of this.rules.entries()) {
+      if (!matchesPattern(request.url(), rule.pattern)) continue;
+      if (rule.method && rule.method.toUpperCase() !== request.method()) continue;
+      if (rule.times !== undefined && this.uses[index] >= rule.times) continue;
+      if (rule.operation) {
+        operations ??= graphqlOperations(request);
+        if (!operations.includes(rule.operation)) continue;
+      }
+
+      this.uses[index]++;
+      return { index, ...(rule.operation && { operation: rule.operation }) };
+    }
+    return null;
+  }
+}
+
+/**
+ * Apply mock rules to a page, replacing any applied before
+ */
+export function applyNetworkMocks(page: Page, mocks: NetworkMocksInput): Promise<NetworkMocks> {
+  return NetworkMocks.apply(page, mocks);
+}
+
+/**
+ * Remove the mocks of a page, if it has any
+ */
+export async function clearNetworkMocks(page: Page): Promise<void> {
+  await activeMocks.get(page)?.clear();
+}
+
+/**
+ * Absolute target of a redirect answered to a document request, if it is one
+ */
+function redirectLocation(request: Request, response: APIResponse): string | undefined {
+  const location = response.headers()['location'];
+  if (response.status() < 300 || response.status() >= 400 || !location) {
+    return undefined;
+  }
+  try {
+    return new URL(location, request.url()).href;
+  } catch {
+    return location;
+  }
+}
+
+/**
+ * Names of the GraphQL operations a request asks for: `operationName`, or the name in
+ * the query document, of a GET query string, a JSON body or a batch of them
+ */
+function graphqlOperations(request: Request): string[] {
+  let payloads: unknown[];
+  if (request.method() === 'GET') {
+    const params = new URL(request.url()).searchParams;
+    payloads = [{ operationName: params.get('operationName'), query: params.get('query') }];
+  } else {
+    try {
+      const body = request.postDataJSON();
+      payloads = Array.isArray(body) ? body : [body];
+    } catch {
+      return [];
+    }
+  }
+
+  return payloads.flatMap(payload => {
+    const { operationName, query } = (payload ?? {}) as {
+      operationName?: unknown;
+      query?: unknown;
+    };
+    if (typeof operationName === 'string' && operationName) return [operationName];
+    const named =
+      typeof query === 'string' && query.match(/\b(?:query|mutation|subscription)\s+(\w+)/);
+    return named ? [named[1]] : [];
+  });
+}
+
+async function resolveBodyFile(file: string): Promise<string> {
+  const { projectRoot } = getConfig();
+  const path = resolve(projectRoot, file);
+
+  // Rules come from the client, so only project files are served
+  const fromRoot = relative(projectRoot, path);
+  if (fromRoot.startsWith('..') || isAbsolute(fromRoot)) {
+    throw new Error(`Mock body file must be inside the project root: ${file}`);
+  }
+  try {
+    await access(path);
+  } catch {
+    throw new Error(`Mock body file not found: ${file}`);
+  }
+  return path;
+}
+
+function deepMerge(target: unknown, patch: Record<string, unknown>): unknown {
+  if (typeof target !== 'object' || target === null || Array.isArray(target)) {
+    return patch;
+  }
+
+  const merged: Record<string, unknown> = { ...(target as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(patch)) {
+    merged[key] =
+      typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? deepMerge(merged[key], value as Record<string, unknown>)
+        : value;
+  }
+  return merged;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(done => setTimeout(done, ms));
+}
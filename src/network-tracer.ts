@@ -2,9 +2,17 @@
  * Network Tracer Agent
  * Intercepts network requests and captures stack traces for source intelligence
  * Part of the WebSee Source Intelligence Layer
+ *
+ * Requests are traced in every frame of the page and in popups opened from it.
+ *
+ * A tab of the user's own browser (attached over CDP) is only traced during the call:
+ * the interceptors go into the documents already loaded, not into later page loads or
+ * other tabs, and events arrive through a CDP binding that is removed afterwards.
  */
 
-import { Page } from 'playwright';
+import { BrowserContext, CDPSession, Frame, Page } from 'playwright';
+import { isUserContext } from './browser-manager.js';
+import { contextPages } from './frames.js';
 
 // Extend XMLHttpRequest interface to include custom tracking properties
 declare global {
@@ -15,7 +23,7 @@ declare global {
   }
 }
 
-interface NetworkTrace {
+export interface NetworkTrace {
   url: string;
   method: string;
   timestamp: number;
@@ -30,10 +38,22 @@ interface NetworkTrace {
   responseHeaders?: Record<string, string>;
   status?: number;
   duration?: number;
+  /** Document that made the request, when it is an iframe or popup rather than the page */
+  frameUrl?: string;
 }
 
+// Tracers listening on each browser context. The binding can only be exposed once,
+// so it fans events out to every tracer attached to a page of that context.
+const contextTracers = new WeakMap<BrowserContext, Set<NetworkTracer>>();
+
+// Binding the interceptors call in tabs of the user's browser
+const USER_PAGE_BINDING = '__websee_network_event';
+
 export class NetworkTracer {
   private traces: Map<string, NetworkTrace> = new Map();
+  private page: Page | null = null;
+  private traceListeners: Array<(trace: NetworkTrace) => void> = [];
+  private cdp: CDPSession | null = null;
 
   /**
    * Initialize the network tracer with a Playwright page
@@ -169,30 +189,42 @@ export class NetworkTracer {
       (window as any).__websee_interceptors_installed = true;
     };
 
-    // Inject the interception script for future page loads
-    await page.addInitScript(interceptionScript);
-
-    // Also inject it into the current page if it's already loaded
-    const isAlreadyInjected = await page.evaluate(() => {
-      return (window as any).__websee_interceptors_installed === true;
-    }).catch(() => false);
-
-    if (!isAlreadyInjected) {
-      await page.evaluate(interceptionScript);
+    if (isUserContext(page.context())) {
+      this.page = page;
+      await this.traceUserPage(page, interceptionScript);
+      return;
     }
 
     // Listen for network events
-    // Check if the function is already exposed to avoid duplicate registration
-    const isHandlerExposed = await page.evaluate(() => {
-      return typeof (window as any).__websee_network_handler === 'function';
-    }).catch(() => false);
-
-    if (!isHandlerExposed) {
-      await page.exposeFunction('__websee_network_handler', (event: any) => {
-        this.handleNetworkEvent(event);
-      });
+    // The binding and init scripts are added once per context and shared by every
+    // tracer on it; context init scripts run in all frames and popups at load time
+    const context = page.context();
+    let tracers = contextTracers.get(context);
+    const firstUse = !tracers;
+    if (!tracers) {
+      const contextTracerSet = new Set<NetworkTracer>();
+      tracers = contextTracerSet;
+      contextTracers.set(context, contextTracerSet);
+      await context.exposeBinding(
+        '__websee_network_handler',
+        (source: { frame: Frame }, event: any) => {
+          contextTracerSet.forEach(tracer =>
+            tracer.handleNetworkEvent(event, tracer.frameUrl(source.frame))
+          );
+        }
+      );
+    }
+    tracers.add(this);
+    this.page = page;
+
+    // Inject the interception script for future page loads
+    if (firstUse) {
+      await context.addInitScript(interceptionScript);
     }
 
+    // Also inject it into documents that are already loaded
+    await evaluateInAllFrames(page, interceptionScript);
+
     // Set up event listeners via addInitScript for future pages
     const listenerScript = () => {
       // Check if already installed
@@ -212,22 +244,73 @@ export class NetworkTracer {
       (window as any).__websee_listeners_installed = true;
     };
 
-    await page.addInitScript(listenerScript);
+    if (firstUse) {
+      await context.addInitScript(listenerScript);
+    }
 
-    // Also set up event listeners for the current page if needed
-    const listenersInstalled = await page.evaluate(() => {
-      return (window as any).__websee_listeners_installed === true;
-    }).catch(() => false);
+    // Also set up event listeners for documents that are already loaded
+    await evaluateInAllFrames(page, listenerScript);
+  }
 
-    if (!listenersInstalled) {
-      await page.evaluate(listenerScript);
+  /**
+   * Trace a tab of the user's attached browser until `destroy`
+   */
+  private async traceUserPage(page: Page, interceptionScript: () => void): Promise<void> {
+    const cdp = await page.context().newCDPSession(page);
+    this.cdp = cdp;
+    cdp.on('Runtime.bindingCalled', ({ name, payload }) => {
+      if (name !== USER_PAGE_BINDING) return;
+      try {
+        const { frameUrl, ...event } = JSON.parse(payload);
+        this.handleNetworkEvent(event, frameUrl);
+      } catch {
+        // Not an event of the interceptors
+      }
+    });
+    await cdp.send('Runtime.addBinding', { name: USER_PAGE_BINDING });
+
+    // Documents keep the listener after the call; without the binding its events go nowhere
+    const forwardEvents = (binding: string) => {
+      if ((window as any).__websee_listeners_installed) {
+        return;
+      }
+
+      const frameUrl = window === window.top ? undefined : location.href;
+      ['__websee_network_start', '__websee_network_complete', '__websee_network_error'].forEach(
+        eventName => {
+          window.addEventListener(eventName, (e: any) => {
+            const send = (window as any)[binding];
+            if (typeof send === 'function') {
+              send(JSON.stringify({ ...e.detail, frameUrl }));
+            }
+          });
+        }
+      );
+
+      (window as any).__websee_listeners_installed = true;
+    };
+
+    for (const frame of page.frames()) {
+      await frame.evaluate(interceptionScript).catch(() => {
+        // Frame detached or has no document yet
+      });
+      await frame.evaluate(forwardEvents, USER_PAGE_BINDING).catch(() => {
+        // Frame detached or has no document yet
+      });
     }
   }
 
   /**
-   * Handle network events from the page
+   * URL of a frame that is not the page's main frame, which traces report
    */
-  private handleNetworkEvent(event: any): void {
+  private frameUrl(frame: Frame): string | undefined {
+    return frame === this.page?.mainFrame() ? undefined : frame.url();
+  }
+
+  /**
+   * Handle network events from a frame of the page or a popup
+   */
+  private handleNetworkEvent(event: any, frameUrl?: string): void {
     if (!event.url) {
       return;
     }
@@ -236,7 +319,7 @@ export class NetworkTracer {
 
     if (event.stackTrace) {
       // Start of request
-      this.traces.set(key, {
+      const trace: NetworkTrace = {
         url: event.url,
         method: event.method,
         timestamp: event.timestamp,
@@ -246,7 +329,10 @@ export class NetworkTracer {
           // Parse stack trace for source location
           ...this.parseStackLocation(event.stackTrace[0]),
         },
-      });
+        ...(frameUrl && { frameUrl }),
+      };
+      this.traces.set(key, trace);
+      this.notifyTrace(trace);
     } else if (event.status !== undefined) {
       // Completion of request
       const trace = Array.from(this.traces.values()).find(t => t.url === event.url && !t.status);
@@ -257,6 +343,24 @@ export class NetworkTracer {
         if (event.headers) {
           trace.responseHeaders = event.headers;
         }
+        this.notifyTrace(trace);
+      }
+    }
+  }
+
+  /**
+   * Register a listener called whenever a trace is added or completed
+   */
+  onTrace(listener: (trace: NetworkTrace) => void): void {
+    this.traceListeners.push(listener);
+  }
+
+  private notifyTrace(trace: NetworkTrace): void {
+    for (const listener of this.traceListeners) {
+      try {
+        listener(trace);
+      } catch {
+        // Listener errors must not break tracing
       }
     }
   }
@@ -342,6 +446,32 @@ export class NetworkTracer {
    * Cleanup and destroy the tracer
    */
   async destroy(): Promise<void> {
+    if (this.cdp) {
+      const cdp = this.cdp;
+      this.cdp = null;
+      await cdp.send('Runtime.removeBinding', { name: USER_PAGE_BINDING }).catch(() => {
+        // Page closed meanwhile
+      });
+      await cdp.detach().catch(() => {
+        // Page closed meanwhile
+      });
+    }
+    if (this.page) {
+      contextTracers.get(this.page.context())?.delete(this);
+      this.page = null;
+    }
+    this.traceListeners = [];
     this.traces.clear();
   }
 }
+
+/**
+ * Run a script in every frame of the page and its popups, skipping frames that are gone
+ */
+async function evaluateInAllFrames(page: Page, script: () => void): Promise<void> {
+  for (const frame of contextPages(page).flatMap(owner => owner.frames())) {
+    await frame.evaluate(script).catch(() => {
+      // Frame detached or has no document yet
+    });
+  }
+}
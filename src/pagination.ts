@@ -0,0 +1,362 @@
+/**
+ * Pagination
+ * Limit/cursor paging for large list results and the response byte budget
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * A paginated tool captures its full result once. Each list in the result is cut to
+ * `limit` items, and if anything was left out the capture is stored and `page.nextCursor`
+ * is returned; passing the cursor back returns the next page from the stored capture
+ * instead of loading the page again. Captures made on a session are stored with the
+ * session, others with the client's connection for a few minutes.
+ *
+ * Independently of paging, every tool result is shrunk to `output.maxResponseBytes`
+ * by dropping list items and shortening strings, and the omissions are reported.
+ */
+
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { getConfig } from './config.js';
+import { RunContext } from './run-context.js';
+
+const DEFAULT_MAX_CAPTURES = 20;
+const DEFAULT_CAPTURE_TTL_MS = 10 * 60 * 1000;
+
+// Passes of the byte budget before it gives up on a result
+const MAX_SHRINK_PASSES = 40;
+const MIN_STRING_LENGTH = 64;
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * Paging parameters accepted by tools with large list results
+ */
+export const PaginationSchema = z.object({
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .describe('Maximum items per list in the result (default: output.pageSize from websee.config)'),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      'page.nextCursor from a previous call: returns the next page of that capture ' +
+        'without loading the page again (other arguments except limit are ignored)'
+    ),
+});
+
+export type PaginationParams = z.infer<typeof PaginationSchema>;
+
+export const PageInfoSchema = z.object({
+  offset: z.number(),
+  limit: z.number(),
+  /** Total items of each paginated list */
+  totals: z.record(z.number()),
+  /** Pass as `cursor` to get the next page; absent on the last page */
+  nextCursor: z.string().optional(),
+});
+
+export type PageInfo = z.infer<typeof PageInfoSchema>;
+
+/**
+ * Report of what the response byte budget removed from a result
+ */
+export interface Truncation {
+  maxBytes: number;
+  originalBytes: number;
+  bytes: number;
+  /** Items dropped from the end of each list, by JSON path */
+  omittedItems: Record<string, number>;
+  /** Strings that were shortened */
+  truncatedStrings: number;
+}
+
+/**
+ * Thrown when a cursor is malformed, expired or belongs to another tool or session
+ */
+export class CursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CursorError';
+  }
+}
+
+// ============================================================================
+// Stored Captures
+// ============================================================================
+
+interface StoredCapture {
+  tool: string;
+  result: object;
+  storedAt: number;
+}
+
+/**
+ * Captures that can be paged through with cursors; the oldest are dropped first
+ */
+export class ResultStore {
+  private captures = new Map<string, StoredCapture>();
+
+  constructor(
+    private maxCaptures: number = DEFAULT_MAX_CAPTURES,
+    private ttlMs: number = DEFAULT_CAPTURE_TTL_MS
+  ) {}
+
+  /**
+   * Store a tool's full result and return its ID
+   */
+  put(tool: string, result: object): string {
+    this.prune();
+    while (this.captures.size >= this.maxCaptures) {
+      const oldest = this.captures.keys().next().value as string;
+      this.captures.delete(oldest);
+    }
+
+    const id = randomUUID();
+    this.captures.set(id, { tool, result, storedAt: Date.now() });
+    return id;
+  }
+
+  get(id: string): StoredCapture | undefined {
+    this.prune();
+    return this.captures.get(id);
+  }
+
+  clear(): void {
+    this.captures.clear();
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.ttlMs;
+    for (const [id, capture] of this.captures) {
+      if (capture.storedAt < cutoff) {
+        this.captures.delete(id);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Paging
+// ============================================================================
+
+/**
+ * Run a capture, or look up a stored one by cursor, and return one page of its lists
+ *
+ * @param tool - Name of the calling tool; cursors only work with the tool that issued them
+ * @param listKeys - Top-level array fields of the result to page through
+ * @throws CursorError if the cursor is malformed, expired or from another tool, or the run
+ *   has no store to look it up in
+ */
+export async function paginate<T extends object>(
+  tool: string,
+  params: PaginationParams,
+  run: RunContext,
+  listKeys: Array<keyof T & string>,
+  capture: () => Promise<T>
+): Promise<T & { page: PageInfo }> {
+  const store = run.results;
+  const limit = params.limit ?? getConfig().output.pageSize;
+
+  let id: string | undefined;
+  let offset = 0;
+  let result: T;
+
+  if (params.cursor) {
+    ({ id, offset } = decodeCursor(params.cursor));
+    const stored = store?.get(id);
+    if (!stored) {
+      throw new CursorError(
+        'Cursor has expired or belongs to another session; repeat the call without a cursor'
+      );
+    }
+    if (stored.tool !== tool) {
+      throw new CursorError(`Cursor was issued by ${stored.tool}, not ${tool}`);
+    }
+    result = stored.result as T;
+  } else {
+    result = await capture();
+  }
+
+  const paged = { ...result } as Record<string, unknown>;
+  const totals: Record<string, number> = {};
+  for (const key of listKeys) {
+    const items = result[key];
+    if (Array.isArray(items)) {
+      totals[key] = items.length;
+      paged[key] = items.slice(offset, offset + limit);
+    }
+  }
+
+  const hasMore = Object.values(totals).some(total => total > offset + limit);
+  // Without a store only the first page can be returned
+  if (hasMore && !id && store) {
+    id = store.put(tool, result);
+  }
+
+  return {
+    ...(paged as T),
+    page: {
+      offset,
+      limit,
+      totals,
+      ...(hasMore && id && { nextCursor: encodeCursor(id, offset + limit) }),
+    },
+  };
+}
+
+function encodeCursor(id: string, offset: number): string {
+  return Buffer.from(JSON.stringify({ id, offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { id: string; offset: number } {
+  try {
+    const { id, offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (typeof id === 'string' && Number.isInteger(offset) && offset >= 0) {
+      return { id, offset };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new CursorError(`Invalid cursor: ${cursor}`);
+}
+
+// ============================================================================
+// Response Byte Budget
+// ============================================================================
+
+/**
+ * Shrink a JSON result to at most `maxBytes` of serialized JSON
+ *
+ * The largest lists are halved first, then long strings are shortened with a
+ * `…(+N chars)` marker. The value is returned unchanged if it already fits or
+ * `maxBytes` is 0. It is serialized once; the size is then kept up to date from
+ * what each pass removes.
+ */
+export function fitToBudget(
+  value: unknown,
+  maxBytes: number
+): { value: unknown; truncation?: Truncation } {
+  const originalBytes = byteLength(value);
+  if (maxBytes <= 0 || originalBytes <= maxBytes) {
+    return { value };
+  }
+
+  const copy = JSON.parse(JSON.stringify(value));
+  const omittedItems: Record<string, number> = {};
+  let bytes = originalBytes;
+
+  for (let pass = 0; pass < MAX_SHRINK_PASSES && bytes > maxBytes; pass++) {
+    const target = findLargestList(copy);
+    if (!target) break;
+
+    const keep = Math.floor(target.items.length / 2);
+    const dropped = target.items.splice(keep);
+    omittedItems[target.path] = (omittedItems[target.path] ?? 0) + dropped.length;
+    // Each dropped item also takes the comma before it
+    bytes -= dropped.reduce<number>((total, item) => total + byteLength(item) + 1, 0);
+  }
+
+  let truncatedStrings = 0;
+  for (
+    let maxLength = Math.floor(longestString(copy) / 2);
+    bytes > maxBytes && maxLength >= MIN_STRING_LENGTH;
+    maxLength = Math.floor(maxLength / 2)
+  ) {
+    const shortened = shortenStrings(copy, maxLength);
+    truncatedStrings += shortened.count;
+    bytes -= shortened.savedBytes;
+  }
+
+  return {
+    value: copy,
+    truncation: { maxBytes, originalBytes, bytes, omittedItems, truncatedStrings },
+  };
+}
+
+function byteLength(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value) ?? '');
+}
+
+/**
+ * The list with the largest serialized size that still has more than one item, found
+ * in one walk that adds up the sizes of the values below each list
+ */
+function findLargestList(value: unknown): { items: unknown[]; path: string } | undefined {
+  let largest: { items: unknown[]; path: string; bytes: number } | undefined;
+
+  // Bytes of the serialized value: brackets, commas and keys plus its children
+  const measure = (node: unknown, path: string): number => {
+    if (typeof node !== 'object' || node === null) {
+      return byteLength(node);
+    }
+
+    if (Array.isArray(node)) {
+      const bytes = node.reduce<number>(
+        (total, item, index) => total + measure(item, `${path}[${index}]`) + 1,
+        node.length === 0 ? 2 : 1
+      );
+      if (node.length > 1 && (!largest || bytes > largest.bytes)) {
+        largest = { items: node, path, bytes };
+      }
+      return bytes;
+    }
+
+    const entries = Object.entries(node);
+    return entries.reduce<number>(
+      (total, [key, child]) => total + byteLength(key) + 1 + measure(child, `${path}.${key}`) + 1,
+      entries.length === 0 ? 2 : 1
+    );
+  };
+
+  measure(value, '$');
+  return largest;
+}
+
+function longestString(value: unknown): number {
+  if (typeof value === 'string') {
+    return value.length;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return 0;
+  }
+  return Object.values(value).reduce<number>(
+    (longest, child) => Math.max(longest, longestString(child)),
+    0
+  );
+}
+
+/**
+ * Shorten every string longer than `maxLength` in place
+ *
+ * @returns number of strings shortened and the bytes of JSON that saved
+ */
+function shortenStrings(value: unknown, maxLength: number): { count: number; savedBytes: number } {
+  const shortened = { count: 0, savedBytes: 0 };
+  if (typeof value !== 'object' || value === null) {
+    return shortened;
+  }
+
+  const entries: Array<[string | number, unknown]> = Array.isArray(value)
+    ? value.map((item, index) => [index, item])
+    : Object.entries(value);
+
+  for (const [key, child] of entries) {
+    if (typeof child === 'string' && child.length > maxLength) {
+      const short = `${child.slice(0, maxLength)}…(+${child.length - maxLength} chars)`;
+      (value as any)[key] = short;
+      shortened.count++;
+      shortened.savedBytes += byteLength(child) - byteLength(short);
+    } else {
+      const nested = shortenStrings(child, maxLength);
+      shortened.count += nested.count;
+      shortened.savedBytes += nested.savedBytes;
+    }
+  }
+
+  return shortened;
+}
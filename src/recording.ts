@@ -0,0 +1,303 @@
+/**
+ * Recording
+ * Records what tool calls load into an archive and replays pages from it offline
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * In `record` mode every browser context writes its network traffic to a HAR file,
+ * and source maps fetched by the SourceMapResolver, console messages, page errors
+ * and component snapshots are saved next to it. In `replay` mode contexts are served
+ * from the recorded HAR files (newest recording first) and source maps are read from
+ * the archive; requests that were not recorded fail instead of reaching the network.
+ *
+ * Archive layout:
+ *   network/<time>-<id>.har   one HAR per browser context
+ *   source-maps/<hash>.map    source maps, listed with their URLs in index.jsonl
+ *   events.jsonl              console messages and page errors
+ *   components.jsonl          component trees captured by component tools
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, writeFileSync } from 'fs';
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { BrowserContext, BrowserContextOptions, Page } from 'playwright';
+import { getConfig, ResolvedConfig } from './config.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('recording');
+
+export type RecordingMode = ResolvedConfig['recording']['mode'];
+
+export type RecordedEvent =
+  | {
+      kind: 'console';
+      pageUrl: string;
+      type: string;
+      text: string;
+      location?: string;
+      timestamp: number;
+    }
+  | { kind: 'pageerror'; pageUrl: string; message: string; stack?: string; timestamp: number };
+
+export interface ComponentSnapshot {
+  url: string;
+  capturedAt: number;
+  components: unknown[];
+}
+
+export interface RecordingSummary {
+  dir: string;
+  harFiles: string[];
+  /** Requests recorded across all HAR files */
+  requests: number;
+  /** URLs of recorded HTML documents */
+  pages: string[];
+  sourceMaps: string[];
+  consoleMessages: number;
+  pageErrors: number;
+  componentSnapshots: number;
+}
+
+/**
+ * Thrown when a recording cannot be replayed
+ */
+export class RecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecordingError';
+  }
+}
+
+/**
+ * An archive directory being recorded into or replayed from
+ */
+export class Recording {
+  constructor(
+    readonly mode: Exclude<RecordingMode, 'off'>,
+    readonly dir: string
+  ) {}
+
+  private get networkDir(): string {
+    return join(this.dir, 'network');
+  }
+
+  private get sourceMapDir(): string {
+    return join(this.dir, 'source-maps');
+  }
+
+  /**
+   * Options for a new browser context: a HAR file to record into
+   *
+   * Service workers are blocked in both modes, since their requests bypass routing.
+   */
+  contextOptions(): BrowserContextOptions {
+    if (this.mode === 'replay') {
+      return { serviceWorkers: 'block' };
+    }
+
+    mkdirSync(this.networkDir, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.har`;
+    return {
+      serviceWorkers: 'block',
+      recordHar: { path: join(this.networkDir, name), content: 'embed', mode: 'full' },
+    };
+  }
+
+  /**
+   * Attach to a new context: capture console output and page errors when recording,
+   * or serve every request from the archive when replaying
+   *
+   * The HAR file of a recorded context is written when the context closes.
+   *
+   * @throws RecordingError if there is nothing to replay
+   */
+  async attach(context: BrowserContext): Promise<void> {
+    if (this.mode === 'replay') {
+      await this.routeFromArchive(context);
+      return;
+    }
+
+    context.pages().forEach(page => this.capturePage(page));
+    context.on('page', page => this.capturePage(page));
+  }
+
+  /**
+   * Save a source map fetched for a recording; does nothing when replaying
+   */
+  saveSourceMap(url: string, content: string): void {
+    if (this.mode !== 'record') return;
+
+    try {
+      mkdirSync(this.sourceMapDir, { recursive: true });
+      const file = sourceMapFileName(url);
+      writeFileSync(join(this.sourceMapDir, file), content);
+      appendFileSync(join(this.sourceMapDir, 'index.jsonl'), JSON.stringify({ url, file }) + '\n');
+    } catch (error) {
+      logger.warn(`Cannot save source map ${url} to ${this.sourceMapDir}`, error);
+    }
+  }
+
+  /**
+   * Recorded source map for a URL, or null if it was not recorded
+   */
+  async loadSourceMap(url: string): Promise<string | null> {
+    const path = join(this.sourceMapDir, sourceMapFileName(url));
+    return existsSync(path) ? readFile(path, 'utf-8') : null;
+  }
+
+  /**
+   * Save the component tree of a page; does nothing when replaying
+   */
+  saveComponents(url: string, components: unknown[]): void {
+    this.append('components.jsonl', { url, capturedAt: Date.now(), components });
+  }
+
+  private capturePage(page: Page): void {
+    page.on('console', message => {
+      const { url, lineNumber, columnNumber } = message.location();
+      this.append('events.jsonl', {
+        kind: 'console',
+        pageUrl: page.url(),
+        type: message.type(),
+        text: message.text(),
+        ...(url && { location: `${url}:${lineNumber}:${columnNumber}` }),
+        timestamp: Date.now(),
+      } satisfies RecordedEvent);
+    });
+    page.on('pageerror', error => {
+      this.append('events.jsonl', {
+        kind: 'pageerror',
+        pageUrl: page.url(),
+        message: error.message,
+        stack: error.stack,
+        timestamp: Date.now(),
+      } satisfies RecordedEvent);
+    });
+  }
+
+  private append(file: string, value: unknown): void {
+    if (this.mode !== 'record') return;
+
+    try {
+      mkdirSync(this.dir, { recursive: true });
+      appendFileSync(join(this.dir, file), JSON.stringify(value) + '\n');
+    } catch (error) {
+      logger.warn(`Cannot write ${file} to recording ${this.dir}`, error);
+    }
+  }
+
+  private async routeFromArchive(context: BrowserContext): Promise<void> {
+    const harFiles = await listHarFiles(this.dir);
+    if (harFiles.length === 0) {
+      throw new RecordingError(`No recorded network traffic to replay in ${this.networkDir}`);
+    }
+
+    // Routes run newest-registered first: unmatched requests fall back through older
+    // recordings and finally fail as if the network were down
+    await context.route('**/*', route => route.abort('internetdisconnected'));
+    for (const har of harFiles) {
+      await context.routeFromHAR(har, { notFound: 'fallback' });
+    }
+  }
+}
+
+let cachedRecording: { config: ResolvedConfig; recording: Recording | null } | null = null;
+
+/**
+ * Recording described by the active configuration, or null if recording is off
+ */
+export function getRecording(): Recording | null {
+  const config = getConfig();
+  if (cachedRecording?.config !== config) {
+    const { mode, dir } = config.recording;
+    cachedRecording = { config, recording: mode === 'off' ? null : new Recording(mode, dir) };
+  }
+  return cachedRecording.recording;
+}
+
+// ============================================================================
+// Reading Archives
+// ============================================================================
+
+/**
+ * Recorded console messages and page errors, in the order they happened
+ */
+export async function readRecordedEvents(dir: string): Promise<RecordedEvent[]> {
+  return readJsonLines<RecordedEvent>(join(dir, 'events.jsonl'));
+}
+
+/**
+ * Recorded component trees, oldest first
+ */
+export async function readComponentSnapshots(dir: string): Promise<ComponentSnapshot[]> {
+  return readJsonLines<ComponentSnapshot>(join(dir, 'components.jsonl'));
+}
+
+/**
+ * Summarize what a recording contains
+ */
+export async function summarizeRecording(dir: string): Promise<RecordingSummary> {
+  const harFiles = await listHarFiles(dir);
+  let requests = 0;
+  const pages: string[] = [];
+
+  for (const file of harFiles) {
+    try {
+      const { log } = JSON.parse(await readFile(file, 'utf-8'));
+      requests += log?.entries?.length ?? 0;
+      for (const entry of log?.entries ?? []) {
+        if (entry.response?.content?.mimeType?.startsWith('text/html')) {
+          pages.push(entry.request.url);
+        }
+      }
+    } catch (error) {
+      logger.warn(`Cannot read HAR file ${file}`, error);
+    }
+  }
+
+  const sourceMaps = await readJsonLines<{ url: string }>(join(dir, 'source-maps', 'index.jsonl'));
+  const events = await readRecordedEvents(dir);
+  const snapshots = await readComponentSnapshots(dir);
+
+  return {
+    dir,
+    harFiles,
+    requests,
+    pages,
+    sourceMaps: Array.from(new Set(sourceMaps.map(entry => entry.url))),
+    consoleMessages: events.filter(event => event.kind === 'console').length,
+    pageErrors: events.filter(event => event.kind === 'pageerror').length,
+    componentSnapshots: snapshots.length,
+  };
+}
+
+async function listHarFiles(dir: string): Promise<string[]> {
+  const networkDir = join(dir, 'network');
+  if (!existsSync(networkDir)) {
+    return [];
+  }
+  // Names start with the recording time, so sorting puts the oldest first
+  const names = (await readdir(networkDir)).filter(name => name.endsWith('.har')).sort();
+  return names.map(name => join(networkDir, name));
+}
+
+async function readJsonLines<T>(path: string): Promise<T[]> {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  const values: T[] = [];
+  for (const line of (await readFile(path, 'utf-8')).split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      values.push(JSON.parse(line));
+    } catch {
+      // A line cut short by a crash while recording
+    }
+  }
+  return values;
+}
+
+function sourceMapFileName(url: string): string {
+  return `${createHash('sha256').update(url).digest('hex').slice(0, 32)}.map`;
+}
@@ -0,0 +1,241 @@
+/**
+ * MCP Resources
+ * Exposes captured sources, network traces and console/page errors as addressable resources
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * URI scheme:
+ * - websee://source/{path}                   original source file from a loaded source map
+ * - websee://sessions/{sessionId}/console    console messages captured by a session
+ * - websee://sessions/{sessionId}/errors     uncaught page errors captured by a session
+ * - websee://sessions/{sessionId}/network    network traces captured by a session
+ * - websee://network/{sessionId}/{index}     a single network trace
+ */
+
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { SessionManager, CaptureKind } from './session-manager.js';
+import { SourceMapResolver } from './source-map-resolver.js';
+
+const SCHEME = 'websee://';
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'websee://source/{path}',
+    name: 'Original source file',
+    description: 'Original source file recovered from a loaded source map (path is URI-encoded)',
+  },
+  {
+    uriTemplate: 'websee://sessions/{sessionId}/console',
+    name: 'Session console messages',
+    description: 'Console messages captured by a browser session',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'websee://sessions/{sessionId}/errors',
+    name: 'Session page errors',
+    description: 'Uncaught page errors captured by a browser session',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'websee://sessions/{sessionId}/network',
+    name: 'Session network traces',
+    description: 'Network requests traced to their initiating code in a browser session',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'websee://network/{sessionId}/{index}',
+    name: 'Network trace',
+    description: 'A single network trace with its initiator stack',
+    mimeType: 'application/json',
+  },
+];
+
+/**
+ * Build the URI of an original source file
+ */
+export function sourceUri(path: string): string {
+  return `${SCHEME}source/${encodeURIComponent(path)}`;
+}
+
+/**
+ * Build the URI of a session's captured data
+ */
+export function sessionUri(sessionId: string, kind: CaptureKind): string {
+  return `${SCHEME}sessions/${sessionId}/${kind}`;
+}
+
+/**
+ * Build the URI of a single network trace
+ */
+export function networkTraceUri(sessionId: string, index: number): string {
+  return `${SCHEME}network/${sessionId}/${index}`;
+}
+
+/**
+ * Guess a MIME type for an original source file
+ */
+function sourceMimeType(path: string): string {
+  const ext = path.split('?')[0].split('.').pop()?.toLowerCase();
+  const mimeTypes: Record<string, string> = {
+    js: 'text/javascript',
+    mjs: 'text/javascript',
+    jsx: 'text/javascript',
+    ts: 'text/x-typescript',
+    tsx: 'text/x-typescript',
+    css: 'text/css',
+    scss: 'text/x-scss',
+    html: 'text/html',
+    json: 'application/json',
+  };
+  return mimeTypes[ext || ''] || 'text/plain';
+}
+
+/**
+ * Catalog of resources backed by live sessions and loaded source maps
+ */
+export class ResourceCatalog {
+  constructor(
+    private sessions: SessionManager,
+    private extraResolvers: () => Array<SourceMapResolver | null> = () => []
+  ) {}
+
+  /**
+   * List all currently addressable resources
+   */
+  async list(): Promise<Resource[]> {
+    const resources: Resource[] = [];
+
+    for (const summary of await this.sessions.list()) {
+      const session = this.sessions.get(summary.id);
+      if (!session) continue;
+
+      resources.push(
+        {
+          uri: sessionUri(session.id, 'console'),
+          name: `Console messages (${summary.url})`,
+          description: `${session.consoleMessages.length} console message(s) from session ${session.id}`,
+          mimeType: 'application/json',
+        },
+        {
+          uri: sessionUri(session.id, 'errors'),
+          name: `Page errors (${summary.url})`,
+          description: `${session.pageErrors.length} page error(s) from session ${session.id}`,
+          mimeType: 'application/json',
+        },
+        {
+          uri: sessionUri(session.id, 'network'),
+          name: `Network traces (${summary.url})`,
+          description: `${session.networkTracer.getTraces().length} traced request(s) from session ${session.id}`,
+          mimeType: 'application/json',
+        }
+      );
+
+      session.networkTracer.getTraces().forEach((trace, index) => {
+        resources.push({
+          uri: networkTraceUri(session.id, index),
+          name: `${trace.method} ${trace.url}`,
+          mimeType: 'application/json',
+        });
+      });
+    }
+
+    for (const path of await this.getSourceFiles()) {
+      resources.push({
+        uri: sourceUri(path),
+        name: path,
+        mimeType: sourceMimeType(path),
+      });
+    }
+
+    return resources;
+  }
+
+  /**
+   * Read a resource by URI
+   *
+   * @returns Resource contents or null if the URI does not address anything
+   */
+  async read(uri: string): Promise<ResourceContents | null> {
+    if (!uri.startsWith(SCHEME)) {
+      return null;
+    }
+
+    const [kind, ...rest] = uri.slice(SCHEME.length).split('/');
+
+    if (kind === 'source') {
+      const path = decodeURIComponent(rest.join('/'));
+      for (const resolver of this.getResolvers()) {
+        const content = resolver.getSourceContent(path);
+        if (content !== null) {
+          return { uri, mimeType: sourceMimeType(path), text: content };
+        }
+      }
+      return null;
+    }
+
+    if (kind === 'sessions' && rest.length === 2) {
+      const [sessionId, capture] = rest;
+      const session = this.sessions.get(sessionId);
+      if (!session) return null;
+
+      const data =
+        capture === 'console'
+          ? session.consoleMessages
+          : capture === 'errors'
+            ? session.pageErrors
+            : capture === 'network'
+              ? session.networkTracer.getTraces()
+              : null;
+
+      return data === null ? null : jsonContents(uri, data);
+    }
+
+    if (kind === 'network' && rest.length === 2) {
+      const [sessionId, indexStr] = rest;
+      const trace = this.sessions.get(sessionId)?.networkTracer.getTraces()[parseInt(indexStr, 10)];
+      return trace ? jsonContents(uri, trace) : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Original source files across all sessions and shared resolvers
+   */
+  private async getSourceFiles(): Promise<string[]> {
+    const files = new Set<string>();
+
+    for (const resolver of this.getResolvers()) {
+      await resolver.loadDiscoveredSourceMaps().catch(() => {
+        // Unreachable source maps are simply not listed
+      });
+      resolver.getAllSourceFiles().forEach(file => files.add(file));
+    }
+
+    return Array.from(files).sort();
+  }
+
+  private getResolvers(): SourceMapResolver[] {
+    const resolvers: SourceMapResolver[] = [];
+
+    for (const id of this.sessions.ids()) {
+      const session = this.sessions.get(id);
+      if (session) resolvers.push(session.sourceMaps);
+    }
+
+    for (const resolver of this.extraResolvers()) {
+      if (resolver) resolvers.push(resolver);
+    }
+
+    return resolvers;
+  }
+}
+
+function jsonContents(uri: string, data: unknown): ResourceContents {
+  return { uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) };
+}
@@ -0,0 +1,162 @@
+/**
+ * Run Context
+ * Cancellation and progress reporting threaded through tool implementations
+ * Part of the WebSee Source Intelligence Layer
+ */
+
+import type { ResultStore } from './pagination.js';
+import type { StepPlan } from './steps.js';
+import type { NavigationBudget } from './url-policy.js';
+
+export interface RunContext {
+  /** Aborted when the client cancels the request */
+  signal?: AbortSignal;
+  /** Report progress to the client (no-op unless it sent a progress token) */
+  progress?: (message: string) => void;
+  /** Limits how many navigations the call may make */
+  navigations?: NavigationBudget;
+  /** Where paginated captures are kept for follow-up calls (none: no cursors are issued) */
+  results?: ResultStore;
+  /** Interaction steps to run once the tool has loaded its page */
+  steps?: StepPlan;
+  /** The page is an attached browser tab, inspected where it is instead of navigated */
+  stayOnPage?: boolean;
+}
+
+/**
+ * Thrown when a tool run is cancelled
+ */
+export class AbortError extends Error {
+  constructor(message: string = 'Operation cancelled') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Thrown when a tool run exceeds its time limit
+ */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Throw an AbortError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AbortError();
+  }
+}
+
+/**
+ * Report progress if the caller asked for it
+ */
+export function reportProgress(context: RunContext, message: string): void {
+  context.progress?.(message);
+}
+
+/**
+ * Settle with the promise, or reject with AbortError as soon as the signal aborts.
+ * The underlying operation is not stopped; callers release its resources (e.g. close the page).
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    promise.catch(() => {
+      // Result is no longer wanted
+    });
+    return Promise.reject(new AbortError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Wait for `ms`, stopping early on abort and reporting progress every few seconds
+ */
+export async function wait(
+  ms: number,
+  context: RunContext = {},
+  label: string = 'Waiting'
+): Promise<void> {
+  const tick = 5000;
+  const start = Date.now();
+
+  throwIfAborted(context.signal);
+
+  while (Date.now() - start < ms) {
+    const remaining = ms - (Date.now() - start);
+    await abortable(
+      new Promise<void>(resolve => setTimeout(resolve, Math.min(tick, remaining))),
+      context.signal
+    );
+
+    const elapsed = Date.now() - start;
+    if (elapsed < ms) {
+      reportProgress(
+        context,
+        `${label} (${Math.round(elapsed / 1000)}s of ${Math.round(ms / 1000)}s)`
+      );
+    }
+  }
+}
+
+/**
+ * Run `fn` with a context whose signal also aborts after `ms` (0 disables the limit)
+ *
+ * @throws TimeoutError if the limit is reached first
+ */
+export async function withDeadline<T>(
+  context: RunContext,
+  ms: number,
+  fn: (context: RunContext) => Promise<T>
+): Promise<T> {
+  if (ms <= 0) {
+    return fn(context);
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  if (context.signal?.aborted) {
+    controller.abort();
+  }
+  context.signal?.addEventListener('abort', onAbort, { once: true });
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, ms);
+
+  try {
+    return await abortable(fn({ ...context, signal: controller.signal }), controller.signal);
+  } catch (error) {
+    if (timedOut) {
+      throw new TimeoutError(`Timed out after ${ms}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    context.signal?.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Screenshots
+ * Captures page, element and component screenshots for MCP image content
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * Screenshots are returned inline (base64) so remote clients can see them. A copy is
+ * also written to `artifacts.dir` from websee.config and its path reported.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { Page } from 'playwright';
+import { ComponentTracker } from './component-tracker.js';
+import { getConfig } from './config.js';
+
+export type ScreenshotTarget = 'viewport' | 'fullPage' | 'element' | 'component';
+
+export interface ScreenshotOptions {
+  target: ScreenshotTarget;
+  /** CSS selector of the element, or of an element rendered by the component */
+  selector?: string;
+  format?: 'png' | 'jpeg';
+  /** JPEG quality (0-100) */
+  quality?: number;
+  /** Directory to also write the image to (defaults to `artifacts.dir`) */
+  artifactDir?: string;
+  /**
+   * Tracker initialized before the page loaded, used to locate components
+   * (a new one is created otherwise, which only sees components on session pages)
+   */
+  tracker?: ComponentTracker;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Captured image, returned to MCP clients as an `image` content block.
+ *
+ * Serializes without its pixel data, so results that contain one stay small
+ * in `structuredContent` and in the JSON text block.
+ */
+export class ImageAttachment {
+  constructor(
+    readonly data: string,
+    readonly mimeType: string,
+    readonly target: ScreenshotTarget,
+    readonly path?: string
+  ) {}
+
+  /** Size of the decoded image in bytes */
+  get bytes(): number {
+    return Buffer.byteLength(this.data, 'base64');
+  }
+
+  toJSON(): { mimeType: string; target: ScreenshotTarget; bytes: number; path?: string } {
+    return { mimeType: this.mimeType, target: this.target, bytes: this.bytes, path: this.path };
+  }
+}
+
+/**
+ * Directory screenshots are written to (WEBSEE_ARTIFACT_DIR overrides it in the config)
+ */
+export function getArtifactDir(): string {
+  return getConfig().artifacts.dir;
+}
+
+/**
+ * Capture a screenshot of the viewport, the full page, an element or a component
+ *
+ * @throws Error if the element or component cannot be found
+ */
+export async function captureScreenshot(
+  page: Page,
+  options: ScreenshotOptions
+): Promise<ImageAttachment> {
+  const format = options.format ?? 'png';
+  const quality = format === 'jpeg' ? options.quality : undefined;
+  let buffer: Buffer;
+
+  switch (options.target) {
+    case 'viewport':
+    case 'fullPage':
+      buffer = await page.screenshot({
+        type: format,
+        quality,
+        fullPage: options.target === 'fullPage',
+      });
+      break;
+
+    case 'element': {
+      const selector = requireSelector(options);
+      const element = await page.$(selector);
+      if (!element) {
+        throw new Error(`No element found at selector: ${selector}`);
+      }
+      buffer = await element.screenshot({ type: format, quality });
+      break;
+    }
+
+    case 'component': {
+      const tracker = options.tracker ?? new ComponentTracker();
+      if (!options.tracker) {
+        await tracker.initialize(page);
+      }
+      const clip = await getComponentBox(page, tracker, requireSelector(options));
+      buffer = await page.screenshot({ type: format, quality, fullPage: true, clip });
+      break;
+    }
+  }
+
+  const data = buffer.toString('base64');
+  const mimeType = `image/${format}`;
+  const artifactDir = options.artifactDir ?? getArtifactDir();
+
+  if (!artifactDir) {
+    return new ImageAttachment(data, mimeType, options.target);
+  }
+
+  const dir = resolve(artifactDir);
+  const path = join(
+    dir,
+    `screenshot-${Date.now()}-${options.target}.${format === 'jpeg' ? 'jpg' : 'png'}`
+  );
+  await mkdir(dir, { recursive: true });
+  await writeFile(path, buffer);
+
+  return new ImageAttachment(data, mimeType, options.target, path);
+}
+
+function requireSelector(options: ScreenshotOptions): string {
+  if (!options.selector) {
+    throw new Error(`A selector is required for ${options.target} screenshots`);
+  }
+  return options.selector;
+}
+
+/**
+ * Bounding box (in page coordinates) around every DOM node of the component at `selector`
+ */
+async function getComponentBox(
+  page: Page,
+  tracker: ComponentTracker,
+  selector: string
+): Promise<Box> {
+  const component = await tracker.getComponentAtElement(selector);
+  if (!component) {
+    throw new Error(`No component found at selector: ${selector}`);
+  }
+
+  const box = await page.evaluate(
+    ({ ids, fallback }) => {
+      const elements = ids
+        .map(id => document.getElementById(id))
+        .filter((el): el is HTMLElement => el !== null);
+      const fallbackElement = document.querySelector(fallback);
+      if (elements.length === 0 && fallbackElement) {
+        elements.push(fallbackElement as HTMLElement);
+      }
+
+      const rects = elements
+        .map(el => el.getBoundingClientRect())
+        .filter(rect => rect.width > 0 && rect.height > 0);
+      if (rects.length === 0) return null;
+
+      const left = Math.min(...rects.map(r => r.left));
+      const top = Math.min(...rects.map(r => r.top));
+      const right = Math.max(...rects.map(r => r.right));
+      const bottom = Math.max(...rects.map(r => r.bottom));
+
+      return {
+        x: left + window.scrollX,
+        y: top + window.scrollY,
+        width: right - left,
+        height: bottom - top,
+      };
+    },
+    { ids: component.domNodes, fallback: selector }
+  );
+
+  if (!box) {
+    throw new Error(`Component ${component.name} has no visible DOM nodes`);
+  }
+
+  return box;
+}
@@ -0,0 +1,240 @@
+/**
+ * Value Serializer
+ * Turns props, state, hook and context values into bounded, JSON-safe data in the page
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * Values are walked to at most `maxDepth` levels, `maxBreadth` keys or items per
+ * object, array, Map or Set, and `maxNodes` values in total; strings are cut to
+ * `maxStringLength` characters. Values JSON cannot represent are replaced by tagged
+ * objects such as `{ __type: 'function', name }` or `{ __type: 'circular', path }`.
+ */
+
+import type { Frame, Page } from 'playwright';
+import { z } from 'zod';
+
+export interface SerializeLimits {
+  /** Levels of nesting below the value before objects are summarized */
+  maxDepth: number;
+  /** Keys or items kept per object, array, Map or Set */
+  maxBreadth: number;
+  /** Characters kept per string */
+  maxStringLength: number;
+  /** Values serialized in total before the rest is summarized */
+  maxNodes: number;
+}
+
+export const DEFAULT_SERIALIZE_LIMITS: SerializeLimits = {
+  maxDepth: 6,
+  maxBreadth: 50,
+  maxStringLength: 500,
+  maxNodes: 2000,
+};
+
+export const SerializeLimitsSchema = z
+  .object({
+    maxDepth: z.number().int().min(0).max(20).describe('Levels of nesting to serialize'),
+    maxBreadth: z
+      .number()
+      .int()
+      .min(1)
+      .max(1000)
+      .describe('Keys or items to keep per object, array, Map or Set'),
+    maxStringLength: z.number().int().min(1).max(100000).describe('Characters to keep per string'),
+    maxNodes: z.number().int().min(1).max(50000).describe('Values to serialize in total'),
+  })
+  .partial()
+  .describe('Limits for serializing props, state and hook values (large values are truncated)');
+
+// Name of the page global holding the serializer
+const SERIALIZER_GLOBAL = '__WEBSEE_SERIALIZE__';
+
+/**
+ * Fill in defaults for limits given per call
+ */
+export function resolveSerializeLimits(limits: Partial<SerializeLimits> = {}): SerializeLimits {
+  return { ...DEFAULT_SERIALIZE_LIMITS, ...limits };
+}
+
+/**
+ * Install the serializer as `window.__WEBSEE_SERIALIZE__(value, limits)` in a page or frame
+ *
+ * A new document starts without it, so install it after navigating.
+ */
+export async function installSerializer(target: Page | Frame): Promise<void> {
+  await target.evaluate(
+    `window.${SERIALIZER_GLOBAL} = window.${SERIALIZER_GLOBAL} || (${serializeValue.toString()});`
+  );
+}
+
+/**
+ * Serialize a value within limits
+ *
+ * Runs both in Node and in the page, so it must not reference anything outside itself.
+ */
+export function serializeValue(value: unknown, limits: SerializeLimits): unknown {
+  const ancestors: object[] = [];
+  const ancestorPaths: string[] = [];
+  let nodes = 0;
+
+  const truncateString = (text: string): string =>
+    text.length > limits.maxStringLength
+      ? `${text.slice(0, limits.maxStringLength)}…(+${text.length - limits.maxStringLength} chars)`
+      : text;
+
+  const classNameOf = (input: any): string => {
+    try {
+      return input.constructor?.name || 'Object';
+    } catch {
+      return 'Object';
+    }
+  };
+
+  const preview = (input: any): string => {
+    if (Array.isArray(input)) return `Array(${input.length})`;
+    if (input instanceof Map || input instanceof Set) return `${classNameOf(input)}(${input.size})`;
+    return `${classNameOf(input)} {${Object.keys(input).length} keys}`;
+  };
+
+  const visit = (input: any, depth: number, path: string): unknown => {
+    switch (typeof input) {
+      case 'string':
+        return truncateString(input);
+      case 'boolean':
+        return input;
+      case 'number':
+        return Number.isFinite(input) ? input : { __type: 'number', value: String(input) };
+      case 'bigint':
+        return { __type: 'bigint', value: input.toString() };
+      case 'undefined':
+        return { __type: 'undefined' };
+      case 'symbol':
+        return { __type: 'symbol', description: input.description ?? '' };
+      case 'function':
+        return { __type: 'function', name: input.name || 'anonymous' };
+    }
+    if (input === null) return null;
+
+    const cycle = ancestors.indexOf(input);
+    if (cycle !== -1) {
+      return { __type: 'circular', path: ancestorPaths[cycle] };
+    }
+
+    if (typeof Element !== 'undefined' && input instanceof Element) {
+      return {
+        __type: 'element',
+        tag: input.tagName.toLowerCase(),
+        ...(input.id && { id: input.id }),
+        ...(typeof input.className === 'string' &&
+          input.className && { className: input.className }),
+      };
+    }
+    if (typeof Node !== 'undefined' && input instanceof Node) {
+      return { __type: 'node', name: input.nodeName };
+    }
+    if (typeof Window !== 'undefined' && input instanceof Window) {
+      return { __type: 'window' };
+    }
+    if (input instanceof Date) {
+      return {
+        __type: 'date',
+        value: Number.isNaN(input.getTime()) ? 'Invalid Date' : input.toISOString(),
+      };
+    }
+    if (input instanceof RegExp) {
+      return { __type: 'regexp', value: String(input) };
+    }
+    if (input instanceof Error) {
+      return { __type: 'error', name: input.name, message: truncateString(input.message) };
+    }
+    if (typeof input.$$typeof === 'symbol') {
+      // React element, e.g. `props.children`; walking it would descend into the fiber tree
+      const type = input.type;
+      return {
+        __type: 'react-element',
+        type: typeof type === 'string' ? type : type?.displayName || type?.name || 'Unknown',
+        ...(input.key != null && { key: String(input.key) }),
+      };
+    }
+    if (input instanceof ArrayBuffer || ArrayBuffer.isView(input)) {
+      return { __type: 'binary', className: classNameOf(input), byteLength: input.byteLength };
+    }
+    if (input instanceof Promise || input instanceof WeakMap || input instanceof WeakSet) {
+      return { __type: 'instance', className: classNameOf(input) };
+    }
+
+    if (depth >= limits.maxDepth) {
+      return { __type: 'truncated', reason: 'depth', preview: preview(input) };
+    }
+    if (nodes >= limits.maxNodes) {
+      return { __type: 'truncated', reason: 'size', preview: preview(input) };
+    }
+    nodes++;
+
+    ancestors.push(input);
+    ancestorPaths.push(path);
+    try {
+      if (Array.isArray(input)) {
+        const items = input
+          .slice(0, limits.maxBreadth)
+          .map((item, index) => visit(item, depth + 1, `${path}[${index}]`));
+        if (input.length > limits.maxBreadth) {
+          items.push({
+            __type: 'truncated',
+            reason: 'breadth',
+            omitted: input.length - limits.maxBreadth,
+          });
+        }
+        return items;
+      }
+
+      if (input instanceof Map || input instanceof Set) {
+        const isMap = input instanceof Map;
+        const items: unknown[] = [];
+        let index = 0;
+        for (const entry of input) {
+          if (index >= limits.maxBreadth) break;
+          items.push(
+            isMap
+              ? [
+                  visit(entry[0], depth + 1, `${path}.<key ${index}>`),
+                  visit(entry[1], depth + 1, `${path}.<value ${index}>`),
+                ]
+              : visit(entry, depth + 1, `${path}.<value ${index}>`)
+          );
+          index++;
+        }
+        return {
+          __type: isMap ? 'map' : 'set',
+          size: input.size,
+          [isMap ? 'entries' : 'values']: items,
+          ...(input.size > limits.maxBreadth && { omitted: input.size - limits.maxBreadth }),
+        };
+      }
+
+      const keys = Object.keys(input);
+      const properties: Record<string, unknown> = {};
+      for (const key of keys.slice(0, limits.maxBreadth)) {
+        try {
+          properties[key] = visit(input[key], depth + 1, `${path}.${key}`);
+        } catch (error) {
+          // Getters may throw
+          properties[key] = { __type: 'unreadable', message: String(error) };
+        }
+      }
+      if (keys.length > limits.maxBreadth) {
+        properties.__truncated = { reason: 'breadth', omitted: keys.length - limits.maxBreadth };
+      }
+
+      const prototype = Object.getPrototypeOf(input);
+      if (prototype !== null && prototype !== Object.prototype) {
+        return { __type: 'instance', className: classNameOf(input), properties };
+      }
+      return properties;
+    } finally {
+      ancestors.pop();
+      ancestorPaths.pop();
+    }
+  };
+
+  return visit(value, 0, '$');
+}
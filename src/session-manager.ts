@@ -0,0 +1,321 @@
+/**
+ * Session Manager
+ * Keeps browser pages alive across MCP tool calls so agents can work on a live page
+ * Part of the WebSee Source Intelligence Layer
+ */
+
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { BrowserContext, Page } from 'playwright';
+import { BrowserManager } from './browser-manager.js';
+import { Emulation } from './emulation.js';
+import { NetworkTracer } from './network-tracer.js';
+import { ResultStore } from './pagination.js';
+import { SourceMapResolver } from './source-map-resolver.js';
+
+const DEFAULT_IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+const MAX_CAPTURED_ENTRIES = 500;
+
+export interface CapturedConsoleMessage {
+  type: string;
+  text: string;
+  location?: string;
+  timestamp: number;
+  /** Page the message came from, when it is a popup rather than the session page */
+  pageUrl?: string;
+}
+
+export interface CapturedPageError {
+  message: string;
+  stack?: string;
+  timestamp: number;
+  /** Page the error came from, when it is a popup rather than the session page */
+  pageUrl?: string;
+}
+
+export interface BrowserSession {
+  id: string;
+  context: BrowserContext;
+  page: Page;
+  createdAt: number;
+  lastUsedAt: number;
+  idleTimeoutMs: number;
+  /** Console messages captured since the session opened (most recent 500) */
+  consoleMessages: CapturedConsoleMessage[];
+  /** Uncaught page errors captured since the session opened (most recent 500) */
+  pageErrors: CapturedPageError[];
+  /** Network tracer attached for the lifetime of the session */
+  networkTracer: NetworkTracer;
+  /** Source map resolver attached for the lifetime of the session */
+  sourceMaps: SourceMapResolver;
+  /** Paginated results captured on the session, for follow-up calls with a cursor */
+  results: ResultStore;
+}
+
+/**
+ * Kind of data captured by a session, emitted with the `captured` event
+ */
+export type CaptureKind = 'console' | 'errors' | 'network';
+
+export interface SessionOpenOptions {
+  idleTimeoutMs?: number;
+  /** Emulation for the session's context, on top of the configured one */
+  emulation?: Emulation;
+}
+
+export interface SessionSummary {
+  id: string;
+  url: string;
+  title: string;
+  createdAt: number;
+  lastUsedAt: number;
+  idleTimeoutMs: number;
+  expiresAt: number;
+}
+
+interface SessionEntry {
+  session: BrowserSession;
+  timer: NodeJS.Timeout | null;
+  activeCalls: number;
+}
+
+/**
+ * Registry of persistent browser sessions.
+ * Each session owns an isolated context and is closed after `idleTimeoutMs` without use.
+ *
+ * Events:
+ * - `opened` (sessionId) / `closed` (sessionId)
+ * - `captured` (sessionId, kind: CaptureKind) when new console, error or network data arrives
+ */
+export class SessionManager extends EventEmitter {
+  private sessions = new Map<string, SessionEntry>();
+  private readonly defaultIdleTimeoutMs: number;
+
+  constructor(
+    readonly browserManager: BrowserManager,
+    defaultIdleTimeoutMs: number = parseInt(
+      process.env.WEBSEE_SESSION_IDLE_TIMEOUT || String(DEFAULT_IDLE_TIMEOUT_MS),
+      10
+    )
+  ) {
+    super();
+    this.defaultIdleTimeoutMs = defaultIdleTimeoutMs;
+  }
+
+  /**
+   * Open a new session with its own browser context and page
+   */
+  async open(options: SessionOpenOptions = {}): Promise<BrowserSession> {
+    const context = await this.browserManager.newContext(options.emulation);
+    const page = await context.newPage();
+    const now = Date.now();
+
+    const session: BrowserSession = {
+      id: randomUUID(),
+      context,
+      page,
+      createdAt: now,
+      lastUsedAt: now,
+      idleTimeoutMs: options.idleTimeoutMs ?? this.defaultIdleTimeoutMs,
+      consoleMessages: [],
+      pageErrors: [],
+      networkTracer: new NetworkTracer(),
+      sourceMaps: new SourceMapResolver(),
+      results: new ResultStore(),
+    };
+
+    try {
+      await this.attachCapture(session);
+    } catch (error) {
+      await context.close().catch(() => {
+        // Ignore errors during cleanup
+      });
+      throw error;
+    }
+
+    const entry: SessionEntry = { session, timer: null, activeCalls: 0 };
+    this.sessions.set(session.id, entry);
+
+    // Drop the session if the page goes away underneath us (crash, window.close)
+    page.on('close', () => {
+      if (this.sessions.get(session.id) === entry) {
+        this.clearTimer(entry);
+        this.sessions.delete(session.id);
+        context.close().catch(() => {
+          // Context may already be closed
+        });
+        this.emit('closed', session.id);
+      }
+    });
+
+    this.scheduleExpiry(entry);
+    this.emit('opened', session.id);
+    return session;
+  }
+
+  /**
+   * Record console output, page errors and network traces for the session's lifetime,
+   * from the session page and any popups it opens
+   */
+  private async attachCapture(session: BrowserSession): Promise<void> {
+    const { context, page } = session;
+    const popupUrl = (source: Page | null) =>
+      source && source !== page ? { pageUrl: source.url() } : {};
+
+    context.on('console', msg => {
+      const location = msg.location();
+      pushBounded(session.consoleMessages, {
+        type: msg.type(),
+        text: msg.text(),
+        location: location?.url
+          ? `${location.url}:${location.lineNumber}:${location.columnNumber}`
+          : undefined,
+        timestamp: Date.now(),
+        ...popupUrl(msg.page()),
+      });
+      this.emit('captured', session.id, 'console');
+    });
+
+    context.on('weberror', webError => {
+      const error = webError.error();
+      pushBounded(session.pageErrors, {
+        message: error.message,
+        stack: error.stack,
+        timestamp: Date.now(),
+        ...popupUrl(webError.page()),
+      });
+      this.emit('captured', session.id, 'errors');
+    });
+
+    await session.networkTracer.initialize(page);
+    session.networkTracer.onTrace(() => this.emit('captured', session.id, 'network'));
+    await session.sourceMaps.initialize(page);
+  }
+
+  /**
+   * Get a session by ID
+   */
+  get(id: string): BrowserSession | undefined {
+    return this.sessions.get(id)?.session;
+  }
+
+  /**
+   * Check if a session exists
+   */
+  has(id: string): boolean {
+    return this.sessions.has(id);
+  }
+
+  /**
+   * Run a callback against a session's page.
+   * The idle timer is suspended while the callback runs and restarted afterwards.
+   */
+  async use<T>(id: string, fn: (session: BrowserSession) => Promise<T>): Promise<T> {
+    const entry = this.sessions.get(id);
+    if (!entry) {
+      throw new Error(`Unknown session: ${id}`);
+    }
+
+    entry.activeCalls++;
+    this.clearTimer(entry);
+    entry.session.lastUsedAt = Date.now();
+
+    try {
+      return await fn(entry.session);
+    } finally {
+      entry.activeCalls--;
+      entry.session.lastUsedAt = Date.now();
+      this.scheduleExpiry(entry);
+    }
+  }
+
+  /**
+   * IDs of all open sessions
+   */
+  ids(): string[] {
+    return Array.from(this.sessions.keys());
+  }
+
+  /**
+   * List all open sessions
+   */
+  async list(): Promise<SessionSummary[]> {
+    return Promise.all(
+      Array.from(this.sessions.values()).map(({ session }) => this.summarize(session))
+    );
+  }
+
+  /**
+   * Summarize a session for tool output
+   */
+  async summarize(session: BrowserSession): Promise<SessionSummary> {
+    return {
+      id: session.id,
+      url: session.page.url(),
+      title: await session.page.title().catch(() => ''),
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      idleTimeoutMs: session.idleTimeoutMs,
+      expiresAt: session.lastUsedAt + session.idleTimeoutMs,
+    };
+  }
+
+  /**
+   * Close a session and its browser context
+   */
+  async close(id: string): Promise<boolean> {
+    const entry = this.sessions.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    this.clearTimer(entry);
+    this.sessions.delete(id);
+    await entry.session.networkTracer.destroy();
+    await entry.session.sourceMaps.destroy();
+    await entry.session.context.close().catch(() => {
+      // Ignore errors during cleanup
+    });
+    this.emit('closed', id);
+    return true;
+  }
+
+  /**
+   * Close every open session
+   */
+  async closeAll(): Promise<void> {
+    await Promise.all(Array.from(this.sessions.keys()).map(id => this.close(id)));
+  }
+
+  private scheduleExpiry(entry: SessionEntry): void {
+    this.clearTimer(entry);
+    if (entry.activeCalls > 0 || entry.session.idleTimeoutMs <= 0) {
+      return;
+    }
+
+    entry.timer = setTimeout(() => {
+      this.close(entry.session.id).catch(() => {
+        // Ignore errors during cleanup
+      });
+    }, entry.session.idleTimeoutMs);
+    // Idle sessions must not keep the process alive
+    entry.timer.unref();
+  }
+
+  private clearTimer(entry: SessionEntry): void {
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+  }
+}
+
+/**
+ * Append to a capture buffer, dropping the oldest entries beyond MAX_CAPTURED_ENTRIES
+ */
+function pushBounded<T>(buffer: T[], item: T): void {
+  buffer.push(item);
+  if (buffer.length > MAX_CAPTURED_ENTRIES) {
+    buffer.splice(0, buffer.length - MAX_CAPTURED_ENTRIES);
+  }
+}
@@ -1,5 +1,13 @@
-import { Page } from 'playwright';
+import { readFile } from 'fs/promises';
+import { isAbsolute } from 'path';
+import { Page, Response } from 'playwright';
 import { SourceMapConsumer, RawSourceMap } from 'source-map';
+import { getConfig, matchesPattern } from './config.js';
+import { createLogger } from './logger.js';
+import { getRecording } from './recording.js';
+import { getUrlPolicy, PolicyViolationError } from './url-policy.js';
+
+const logger = createLogger('source-map-resolver');
 
 /**
  * Represents a location in the original source code
@@ -76,14 +84,27 @@ export class SourceMapResolver {
   private page: Page | null = null;
   private initialized = false;
   private sourceMapUrls = new Map<string, string>(); // JS URL -> source map URL
+  private capturedSourceMaps = new Map<string, string>(); // Source map URL -> content
+  private responseListener: ((response: Response) => Promise<void>) | null = null;
 
-  constructor(cacheSize = 50) {
+  /**
+   * @param cacheSize - Number of parsed source maps to keep
+   * @param overrides - Script URL patterns mapped to a source map URL or local file,
+   *   used instead of the map the script declares
+   * @param enabled - false never loads a source map, so every location stays unresolved
+   */
+  constructor(
+    cacheSize = getConfig().sourceMaps.cacheSize,
+    private overrides: Record<string, string> = getConfig().sourceMaps.overrides,
+    private enabled = getConfig().sourceMaps.enabled
+  ) {
     this.sourceMapCache = new LRUCache(cacheSize);
   }
 
   /**
    * Initialize the resolver with a Playwright page.
-   * Sets up request interception to discover and fetch source maps.
+   * Sets up request interception to discover and fetch source maps, for the page's
+   * frames and any popups it opens.
    */
   async initialize(page: Page): Promise<void> {
     if (this.initialized) {
@@ -91,9 +112,13 @@ export class SourceMapResolver {
     }
 
     this.page = page;
+    this.initialized = true;
+    if (!this.enabled) {
+      return;
+    }
 
     // Intercept responses to discover source map URLs
-    page.on('response', async response => {
+    this.responseListener = async (response: Response) => {
       try {
         const url = response.url();
         const contentType = response.headers()['content-type'] || '';
@@ -103,28 +128,43 @@ export class SourceMapResolver {
           return;
         }
 
-        // Check for source map header
-        const sourceMapHeader = response.headers()['sourcemappingurl'];
-        if (sourceMapHeader) {
-          const sourceMapUrl = this.resolveSourceMapUrl(url, sourceMapHeader);
-          this.sourceMapUrls.set(url, sourceMapUrl);
-          return;
-        }
-
-        // Check for inline source map comment in the response body
-        const text = await response.text().catch(() => '');
-        const inlineMatch = text.match(/\/\/[@#]\s*sourceMappingURL=(.+)/);
-        if (inlineMatch) {
-          const sourceMapUrl = this.resolveSourceMapUrl(url, inlineMatch[1].trim());
-          this.sourceMapUrls.set(url, sourceMapUrl);
-        }
+        // The body is only needed when there is no source map header
+        const headers = response.headers();
+        const text = headers['sourcemappingurl'] ? '' : await response.text().catch(() => '');
+        this.registerScript(url, headers, text);
       } catch (error) {
         // Silently ignore errors during source map discovery
         // We don't want to break the page load
       }
-    });
+    };
+    // Listen on the context so scripts loaded by popups are covered too
+    page.context().on('response', this.responseListener);
+  }
 
-    this.initialized = true;
+  /**
+   * Register a script whose response was captured elsewhere, e.g. in a HAR file, so the
+   * source map it declares in a header or comment can be found
+   */
+  registerScript(url: string, headers: Record<string, string>, body: string | null): void {
+    // Check for source map header
+    const sourceMapHeader = headers['sourcemappingurl'];
+    if (sourceMapHeader) {
+      this.sourceMapUrls.set(url, this.resolveSourceMapUrl(url, sourceMapHeader));
+      return;
+    }
+
+    // Check for inline source map comment in the response body
+    const inlineMatch = body?.match(/\/\/[@#]\s*sourceMappingURL=(.+)/);
+    if (inlineMatch) {
+      this.sourceMapUrls.set(url, this.resolveSourceMapUrl(url, inlineMatch[1].trim()));
+    }
+  }
+
+  /**
+   * Register the content of a source map captured elsewhere, used instead of fetching it
+   */
+  registerSourceMap(url: string, content: string): void {
+    this.capturedSourceMaps.set(url, content);
   }
 
   /**
@@ -179,12 +219,13 @@ export class SourceMapResolver {
       // Performance check - warn if slow
       const elapsed = Date.now() - startTime;
       if (elapsed > 100) {
-        console.warn(`SourceMapResolver: Slow resolution (${elapsed}ms) for ${url}`);
+        logger.warn(`Slow resolution (${elapsed}ms) for ${url}`);
       }
 
       return result;
     } catch (error) {
-      console.error(`SourceMapResolver: Failed to resolve location in ${url}:`, error);
+      if (error instanceof PolicyViolationError) throw error;
+      logger.error(`Failed to resolve location in ${url}`, error);
       return null;
     }
   }
@@ -193,13 +234,17 @@ export class SourceMapResolver {
    * Get source map from cache or load it
    */
   private async getOrLoadSourceMap(url: string): Promise<SourceMapCacheEntry | null> {
+    if (!this.enabled) {
+      return null;
+    }
+
     // Check cache first
     if (this.sourceMapCache.has(url)) {
       return this.sourceMapCache.get(url)!;
     }
 
-    // Find the source map URL
-    const sourceMapUrl = this.sourceMapUrls.get(url);
+    // Find the source map URL (configured overrides take precedence)
+    const sourceMapUrl = this.findOverride(url) ?? this.sourceMapUrls.get(url);
     if (!sourceMapUrl) {
       return null;
     }
@@ -234,13 +279,22 @@ export class SourceMapResolver {
       this.sourceMapCache.set(url, cacheEntry);
       return cacheEntry;
     } catch (error) {
-      console.error(`SourceMapResolver: Failed to load source map for ${url}:`, error);
+      if (error instanceof PolicyViolationError) throw error;
+      logger.error(`Failed to load source map for ${url}`, error);
       return null;
     }
   }
 
   /**
-   * Fetch a source map from a URL
+   * Source map configured for a script URL, if any
+   */
+  private findOverride(url: string): string | undefined {
+    const pattern = Object.keys(this.overrides).find(pattern => matchesPattern(url, pattern));
+    return pattern ? this.overrides[pattern] : undefined;
+  }
+
+  /**
+   * Fetch a source map from a URL (or read it from a local file for overrides)
    */
   private async fetchSourceMap(url: string): Promise<RawSourceMap | null> {
     if (!this.page) {
@@ -248,6 +302,10 @@ export class SourceMapResolver {
     }
 
     try {
+      if (isAbsolute(url)) {
+        return JSON.parse(await readFile(url, 'utf-8'));
+      }
+
       // Handle data URLs (inline source maps)
       if (url.startsWith('data:')) {
         const base64Match = url.match(/base64,(.+)/);
@@ -258,6 +316,19 @@ export class SourceMapResolver {
         return null;
       }
 
+      const captured = this.capturedSourceMaps.get(url);
+      if (captured) {
+        return JSON.parse(captured);
+      }
+
+      // Replays read source maps from the recording instead of the network
+      getUrlPolicy().check(url);
+      const recording = getRecording();
+      if (recording?.mode === 'replay') {
+        const recorded = await recording.loadSourceMap(url);
+        return recorded ? JSON.parse(recorded) : null;
+      }
+
       // Fetch via Playwright's context to maintain cookies/headers
       const response = await this.page.context().request.get(url);
       if (!response.ok()) {
@@ -265,9 +336,12 @@ export class SourceMapResolver {
       }
 
       const text = await response.text();
-      return JSON.parse(text);
+      const sourceMap = JSON.parse(text);
+      recording?.saveSourceMap(url, text);
+      return sourceMap;
     } catch (error) {
-      console.error(`SourceMapResolver: Failed to fetch source map from ${url}:`, error);
+      if (error instanceof PolicyViolationError) throw error;
+      logger.error(`Failed to fetch source map from ${url}`, error);
       return null;
     }
   }
@@ -331,6 +405,7 @@ export class SourceMapResolver {
   clearCache(): void {
     this.sourceMapCache.clear();
     this.sourceMapUrls.clear();
+    this.capturedSourceMaps.clear();
   }
 
   /**
@@ -361,6 +436,21 @@ export class SourceMapResolver {
     return Array.from(files);
   }
 
+  /**
+   * Load the source maps of every script discovered so far.
+   * Makes their original sources available to getAllSourceFiles() and getSourceContent().
+   */
+  async loadDiscoveredSourceMaps(): Promise<void> {
+    for (const url of Array.from(this.sourceMapUrls.keys())) {
+      try {
+        await this.getOrLoadSourceMap(url);
+      } catch (error) {
+        // Source maps blocked by the URL policy are skipped
+        logger.debug(`Skipping source map for ${url}: ${(error as Error).message}`);
+      }
+    }
+  }
+
   /**
    * Get source map consumer for a specific URL
    * Used for advanced source map operations
@@ -375,6 +465,11 @@ export class SourceMapResolver {
    */
   async destroy(): Promise<void> {
     this.clearCache();
+    if (this.page && this.responseListener) {
+      // Pages from persistent sessions outlive the resolver
+      this.page.context().off('response', this.responseListener);
+    }
+    this.responseListener = null;
     this.page = null;
     this.initialized = false;
   }
@@ -0,0 +1,309 @@
+/**
+ * Interaction Steps
+ * Clicks, typing, waits and assertions run after a tool loads its page and before it captures
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * Every page tool accepts a `steps` list, e.g. open a modal, fill a form and submit it,
+ * so bugs that only appear after user interaction can be inspected. The steps run once,
+ * right after the tool's first navigation (or on the page as it is when a session is
+ * already showing the URL). They stop at the first failure; the tool still captures the
+ * page in the state the failure left it, and the outcome of every step is reported.
+ */
+
+import { Page, Response } from 'playwright';
+import { z } from 'zod';
+import { matchesPattern } from './config.js';
+import { navigateTo } from './navigation.js';
+import {
+  AbortError,
+  abortable,
+  reportProgress,
+  RunContext,
+  throwIfAborted,
+  wait,
+} from './run-context.js';
+import { PolicyViolationError } from './url-policy.js';
+
+const DEFAULT_STEP_TIMEOUT_MS = 10000;
+
+const timeoutMs = z
+  .number()
+  .int()
+  .positive()
+  .max(120000)
+  .optional()
+  .describe(`How long the step may take (ms, default ${DEFAULT_STEP_TIMEOUT_MS})`);
+
+const selector = z.string().min(1).describe('CSS or Playwright selector of the element');
+
+export const StepSchema = z.discriminatedUnion('action', [
+  z
+    .object({
+      action: z.literal('click'),
+      selector,
+      button: z.enum(['left', 'right', 'middle']).optional(),
+      clickCount: z.number().int().min(1).max(3).optional(),
+      timeoutMs,
+    })
+    .strict(),
+  z
+    .object({
+      action: z.literal('fill'),
+      selector,
+      value: z.string().describe('Text to put in the input (replaces its value)'),
+      timeoutMs,
+    })
+    .strict(),
+  z
+    .object({
+      action: z.literal('press'),
+      key: z.string().min(1).describe('Key or chord, e.g. "Enter" or "Control+A"'),
+      selector: selector.optional().describe('Element to focus first (default: focused element)'),
+      timeoutMs,
+    })
+    .strict(),
+  z.object({ action: z.literal('hover'), selector, timeoutMs }).strict(),
+  z
+    .object({
+      action: z.literal('select'),
+      selector,
+      value: z
+        .union([z.string(), z.array(z.string())])
+        .describe('Option value or label to select (several for a multiple select)'),
+      timeoutMs,
+    })
+    .strict(),
+  z
+    .object({
+      action: z.literal('check'),
+      selector,
+      checked: z.boolean().default(true).describe('false unchecks the box'),
+      timeoutMs,
+    })
+    .strict(),
+  z
+    .object({
+      action: z.literal('waitForSelector'),
+      selector,
+      state: z.enum(['attached', 'detached', 'visible', 'hidden']).default('visible'),
+      timeoutMs,
+    })
+    .strict(),
+  z
+    .object({
+      action: z.literal('waitForText'),
+      text: z.string().min(1).describe('Text that must appear on the page'),
+      timeoutMs,
+    })
+    .strict(),
+  z
+    .object({
+      action: z.literal('waitForResponse'),
+      pattern: z.string().min(1).describe('Response URL pattern (* wildcards)'),
+      status: z.number().int().optional().describe('Required status code'),
+      timeoutMs,
+    })
+    .strict(),
+  z
+    .object({
+      action: z.literal('assert'),
+      expression: z
+        .string()
+        .min(1)
+        .describe('JavaScript expression evaluated in the page; the step fails if it is falsy'),
+      message: z.string().optional().describe('Failure message'),
+    })
+    .strict(),
+  z.object({ action: z.literal('navigate'), url: z.string().url() }).strict(),
+  z.object({ action: z.literal('wait'), ms: z.number().int().min(0).max(60000) }).strict(),
+]);
+
+export type Step = z.infer<typeof StepSchema>;
+
+/**
+ * Steps parameter accepted by every page-based tool
+ */
+export const StepsParamsSchema = z.object({
+  steps: z
+    .array(StepSchema)
+    .max(50)
+    .optional()
+    .describe('Interactions to run after the page loads and before the tool captures it'),
+});
+
+export interface StepOutcome {
+  index: number;
+  action: Step['action'];
+  status: 'passed' | 'failed' | 'skipped';
+  durationMs: number;
+  /** Why the step failed or was skipped */
+  error?: string;
+  /** Value of an assertion, URL of a matched response */
+  result?: unknown;
+}
+
+/**
+ * The steps of one tool call, run once on the page the tool loads
+ */
+export class StepPlan {
+  private outcomes: StepOutcome[] | null = null;
+
+  constructor(readonly steps: Step[]) {}
+
+  /**
+   * Run the steps unless they have already run
+   *
+   * @throws AbortError if the call is cancelled, PolicyViolationError if a navigation is refused
+   */
+  async run(page: Page, context: RunContext): Promise<void> {
+    if (this.outcomes) return;
+    this.outcomes = [];
+
+    // Responses since the previous step started, so a click's response is not missed
+    // when the next step waits for it
+    const responses: Response[] = [];
+    const onResponse = (response: Response) => responses.push(response);
+    page.on('response', onResponse);
+
+    // Navigations made by steps must not run the steps again, and do navigate an attached tab
+    const stepContext: RunContext = { ...context, steps: undefined, stayOnPage: false };
+
+    try {
+      for (const [index, step] of this.steps.entries()) {
+        const failed = this.outcomes.some(outcome => outcome.status === 'failed');
+        if (failed) {
+          this.outcomes.push(skipped(index, step, 'An earlier step failed'));
+          continue;
+        }
+
+        throwIfAborted(context.signal);
+        reportProgress(context, `Step ${index + 1} of ${this.steps.length}: ${step.action}`);
+        const seen = responses.splice(0);
+        const startedAt = Date.now();
+        try {
+          const result = await abortable(
+            runStep(page, step, stepContext, seen, responses),
+            context.signal
+          );
+          this.outcomes.push({
+            index,
+            action: step.action,
+            status: 'passed',
+            durationMs: Date.now() - startedAt,
+            ...(result !== undefined && { result }),
+          });
+        } catch (error) {
+          if (error instanceof AbortError || error instanceof PolicyViolationError) {
+            throw error;
+          }
+          this.outcomes.push({
+            index,
+            action: step.action,
+            status: 'failed',
+            durationMs: Date.now() - startedAt,
+            error: error instanceof Error ? error.message.split('\n')[0] : String(error),
+          });
+        }
+      }
+    } finally {
+      page.off('response', onResponse);
+    }
+  }
+
+  /**
+   * Outcome of every step; steps that never ran because the tool did not load a page
+   * are reported as skipped
+   */
+  results(): StepOutcome[] {
+    return (
+      this.outcomes ??
+      this.steps.map((step, index) => skipped(index, step, 'The tool did not load a page'))
+    );
+  }
+}
+
+/**
+ * One-line account of the steps' outcomes, e.g. "steps: 2 passed, step 3 (click) failed: ..."
+ */
+export function summarizeSteps(outcomes: StepOutcome[]): string {
+  const passed = outcomes.filter(outcome => outcome.status === 'passed').length;
+  const skippedCount = outcomes.filter(outcome => outcome.status === 'skipped').length;
+  const failure = outcomes.find(outcome => outcome.status === 'failed');
+
+  const parts = [`${passed} passed`];
+  if (failure) {
+    parts.push(`step ${failure.index + 1} (${failure.action}) failed: ${failure.error}`);
+  }
+  if (skippedCount > 0) {
+    parts.push(`${skippedCount} skipped`);
+  }
+  return `[steps: ${parts.join(', ')}]`;
+}
+
+async function runStep(
+  page: Page,
+  step: Step,
+  context: RunContext,
+  seen: Response[],
+  responses: Response[]
+): Promise<unknown> {
+  const timeout = 'timeoutMs' in step ? (step.timeoutMs ?? DEFAULT_STEP_TIMEOUT_MS) : undefined;
+
+  switch (step.action) {
+    case 'click':
+      await page
+        .locator(step.selector)
+        .first()
+        .click({ button: step.button, clickCount: step.clickCount, timeout });
+      return;
+    case 'fill':
+      await page.locator(step.selector).first().fill(step.value, { timeout });
+      return;
+    case 'press':
+      if (step.selector) {
+        await page.locator(step.selector).first().press(step.key, { timeout });
+      } else {
+        await page.keyboard.press(step.key);
+      }
+      return;
+    case 'hover':
+      await page.locator(step.selector).first().hover({ timeout });
+      return;
+    case 'select':
+      return page.locator(step.selector).first().selectOption(step.value, { timeout });
+    case 'check':
+      await page.locator(step.selector).first().setChecked(step.checked, { timeout });
+      return;
+    case 'waitForSelector':
+      await page.locator(step.selector).first().waitFor({ state: step.state, timeout });
+      return;
+    case 'waitForText':
+      await page.getByText(step.text).first().waitFor({ timeout });
+      return;
+    case 'waitForResponse': {
+      const matches = (response: Response) =>
+        matchesPattern(response.url(), step.pattern) &&
+        (step.status === undefined || response.status() === step.status);
+      const response =
+        [...seen, ...responses].find(matches) ?? (await page.waitForResponse(matches, { timeout }));
+      return `${response.status()} ${response.url()}`;
+    }
+    case 'assert': {
+      const value = await page.evaluate(step.expression);
+      if (!value) {
+        throw new Error(step.message ?? `Assertion failed: ${step.expression}`);
+      }
+      return value;
+    }
+    case 'navigate':
+      await navigateTo(page, step.url, context);
+      return page.url();
+    case 'wait':
+      await wait(step.ms, context);
+      return;
+  }
+}
+
+function skipped(index: number, step: Step, reason: string): StepOutcome {
+  return { index, action: step.action, status: 'skipped', durationMs: 0, error: reason };
+}
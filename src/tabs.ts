@@ -0,0 +1,115 @@
+/**
+ * Tabs
+ * Finds the tab of an attached browser that a tool should inspect
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * With `cdpEndpoint` configured the server attaches to a running Chrome instead of
+ * launching one. Its existing tabs can be listed and any page tool pointed at one
+ * with `tab`: the tool inspects the tab as it is, without navigating it. A tab is
+ * given by its id (the DevTools target id), its index in the listing, or a URL
+ * pattern (`*` wildcards).
+ */
+
+import { Page } from 'playwright';
+import { z } from 'zod';
+import { BrowserManager } from './browser-manager.js';
+import { matchesPattern } from './config.js';
+
+/**
+ * Optional tab reference accepted by every page-based tool
+ */
+export const TabRefSchema = z.object({
+  tab: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Run against a tab of the browser attached over CDP (id, index or URL pattern from ' +
+        'tab_list). The tab is inspected as it is; `url` is not loaded.'
+    ),
+});
+
+export interface TabSummary {
+  /** DevTools target id, stable while the tab is open */
+  id: string;
+  /** Position in the listing */
+  index: number;
+  url: string;
+  title: string;
+}
+
+/**
+ * Thrown when no tab of the attached browser matches the requested id, index or URL
+ */
+export class TabNotFoundError extends Error {
+  constructor(
+    readonly tab: string,
+    readonly available: TabSummary[]
+  ) {
+    super(
+      `No tab matches "${tab}" (available: ` +
+        (available.map(summary => `${summary.index}: ${summary.url}`).join(', ') || 'none') +
+        ')'
+    );
+    this.name = 'TabNotFoundError';
+  }
+}
+
+// DevTools target ids, looked up once per page
+const targetIds = new WeakMap<Page, string>();
+
+/**
+ * Tabs of the attached browser with their ids, URLs and titles
+ */
+export async function listTabs(browserManager: BrowserManager): Promise<TabSummary[]> {
+  const pages = await browserManager.tabs();
+  return Promise.all(pages.map((page, index) => summarizeTab(page, index)));
+}
+
+/**
+ * Tab selected by id, index or URL pattern
+ *
+ * @throws TabNotFoundError if nothing matches
+ */
+export async function resolveTab(browserManager: BrowserManager, ref: string): Promise<Page> {
+  const pages = await browserManager.tabs();
+  const summaries = await Promise.all(pages.map((page, index) => summarizeTab(page, index)));
+
+  const index =
+    [
+      summaries.findIndex(summary => summary.id === ref),
+      /^\d+$/.test(ref) ? Number(ref) : -1,
+      summaries.findIndex(summary => matchesPattern(summary.url, ref)),
+    ].find(candidate => candidate >= 0 && candidate < pages.length) ?? -1;
+
+  if (index === -1) {
+    throw new TabNotFoundError(ref, summaries);
+  }
+  return pages[index];
+}
+
+async function summarizeTab(page: Page, index: number): Promise<TabSummary> {
+  return {
+    id: await targetId(page),
+    index,
+    url: page.url(),
+    title: await page.title().catch(() => ''),
+  };
+}
+
+async function targetId(page: Page): Promise<string> {
+  let id = targetIds.get(page);
+  if (!id) {
+    const cdp = await page.context().newCDPSession(page);
+    try {
+      const { targetInfo } = await cdp.send('Target.getTargetInfo');
+      id = targetInfo.targetId;
+      targetIds.set(page, id);
+    } finally {
+      await cdp.detach().catch(() => {
+        // Tab closed meanwhile
+      });
+    }
+  }
+  return id;
+}
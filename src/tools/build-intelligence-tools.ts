@@ -13,6 +13,9 @@
 import { z } from 'zod';
 import { Page } from 'playwright';
 import { BuildArtifactManager } from '../build-artifact-manager.js';
+import { navigateTo } from '../navigation.js';
+import { RunContext } from '../run-context.js';
+import { defineTool, ToolDefinition } from './registry.js';
 
 // ============================================================================
 // Zod Schemas for Tool Validation
@@ -45,6 +48,105 @@ export const BuildAnalyzeSizeSchema = z.object({
     .describe('Size threshold in KB to flag large modules'),
 });
 
+// ============================================================================
+// Output Schemas
+// ============================================================================
+
+const ChunkIdSchema = z.union([z.string(), z.number()]);
+
+const SizeByTypeSchema = z.object({
+  count: z.number(),
+  size: z.number(),
+  sizeKB: z.string(),
+});
+
+export const BuildGetManifestOutputSchema = z.object({
+  type: z.string(),
+  version: z.string(),
+  chunks: z.array(
+    z.object({
+      id: ChunkIdSchema,
+      files: z.array(z.string()),
+      size: z.number(),
+      entry: z.boolean().optional(),
+      initial: z.boolean().optional(),
+    })
+  ),
+  assets: z.array(
+    z.object({
+      name: z.string(),
+      size: z.number(),
+      chunks: z.array(ChunkIdSchema),
+    })
+  ),
+  modules: z.array(
+    z.object({
+      id: ChunkIdSchema,
+      name: z.string(),
+      size: z.number(),
+      chunks: z.array(ChunkIdSchema),
+    })
+  ),
+});
+
+export const BuildGetChunksOutputSchema = z.object({
+  chunks: z.array(
+    z.object({
+      id: ChunkIdSchema,
+      files: z.array(z.string()),
+      modules: z.array(z.string()),
+      size: z.number(),
+      sizeKB: z.string(),
+      entry: z.boolean().optional(),
+      initial: z.boolean().optional(),
+    })
+  ),
+});
+
+export const BuildFindModuleOutputSchema = z.object({
+  name: z.string(),
+  id: ChunkIdSchema,
+  size: z.number(),
+  sizeKB: z.string(),
+  chunks: z.array(ChunkIdSchema),
+  dependencies: z.array(z.string()),
+  source: z.string().optional(),
+});
+
+export const BuildGetDependenciesOutputSchema = z.object({
+  dependencies: z.array(
+    z.object({
+      name: z.string(),
+      version: z.string().optional(),
+      size: z.number(),
+      sizeKB: z.string(),
+      dependents: z.array(z.string()),
+      chunks: z.array(ChunkIdSchema),
+    })
+  ),
+});
+
+export const BuildAnalyzeSizeOutputSchema = z.object({
+  total: z.number(),
+  totalKB: z.string(),
+  totalMB: z.string(),
+  byType: z.object({
+    js: SizeByTypeSchema,
+    css: SizeByTypeSchema,
+    other: SizeByTypeSchema,
+  }),
+  large: z.array(
+    z.object({
+      name: z.string(),
+      size: z.number(),
+      sizeKB: z.string(),
+      type: z.string(),
+      percentage: z.string(),
+    })
+  ),
+  recommendations: z.array(z.string()),
+});
+
 // ============================================================================
 // Type Definitions
 // ============================================================================
@@ -133,15 +235,16 @@ interface SizeAnalysis {
 /**
  * Initialize page and load build artifacts
  */
-async function initializeBuildAnalysis(page: Page, url: string): Promise<BuildArtifactManager> {
+async function initializeBuildAnalysis(
+  page: Page,
+  url: string,
+  run: RunContext
+): Promise<BuildArtifactManager> {
   // Navigate to the URL to trigger build artifact loading
-  await page.goto(url, { waitUntil: 'networkidle' });
-
-  // Extract project root from URL or use a default approach
-  // In production, this would be configured or detected
-  const projectRoot = process.env.PROJECT_ROOT || process.cwd();
+  await navigateTo(page, url, run);
 
-  const buildManager = new BuildArtifactManager(projectRoot);
+  // Project root and artifact paths come from websee.config (or PROJECT_ROOT)
+  const buildManager = new BuildArtifactManager();
 
   try {
     await buildManager.loadBuildArtifacts();
@@ -254,9 +357,10 @@ function extractDependencies(source: string | undefined): string[] {
  */
 export async function buildGetManifest(
   page: Page,
-  params: BuildGetManifestParams
+  params: BuildGetManifestParams,
+  run: RunContext = {}
 ): Promise<BuildManifestResult> {
-  const buildManager = await initializeBuildAnalysis(page, params.url);
+  const buildManager = await initializeBuildAnalysis(page, params.url, run);
 
   if (!buildManager.isLoaded()) {
     throw new Error('Failed to load build manifest');
@@ -286,9 +390,10 @@ export async function buildGetManifest(
  */
 export async function buildGetChunks(
   page: Page,
-  params: BuildGetChunksParams
+  params: BuildGetChunksParams,
+  run: RunContext = {}
 ): Promise<{ chunks: ChunkInfo[] }> {
-  const buildManager = await initializeBuildAnalysis(page, params.url);
+  const buildManager = await initializeBuildAnalysis(page, params.url, run);
 
   if (!buildManager.isLoaded()) {
     throw new Error('Failed to load build manifest');
@@ -325,9 +430,10 @@ export async function buildGetChunks(
  */
 export async function buildFindModule(
   page: Page,
-  params: BuildFindModuleParams
+  params: BuildFindModuleParams,
+  run: RunContext = {}
 ): Promise<ModuleInfo | null> {
-  const buildManager = await initializeBuildAnalysis(page, params.url);
+  const buildManager = await initializeBuildAnalysis(page, params.url, run);
 
   if (!buildManager.isLoaded()) {
     throw new Error('Failed to load build manifest');
@@ -358,9 +464,10 @@ export async function buildFindModule(
  */
 export async function buildGetDependencies(
   page: Page,
-  params: BuildGetDependenciesParams
+  params: BuildGetDependenciesParams,
+  run: RunContext = {}
 ): Promise<{ dependencies: DependencyNode[] }> {
-  const buildManager = await initializeBuildAnalysis(page, params.url);
+  const buildManager = await initializeBuildAnalysis(page, params.url, run);
 
   if (!buildManager.isLoaded()) {
     throw new Error('Failed to load build manifest');
@@ -408,9 +515,10 @@ export async function buildGetDependencies(
  */
 export async function buildAnalyzeSize(
   page: Page,
-  params: BuildAnalyzeSizeParams
+  params: BuildAnalyzeSizeParams,
+  run: RunContext = {}
 ): Promise<SizeAnalysis> {
-  const buildManager = await initializeBuildAnalysis(page, params.url);
+  const buildManager = await initializeBuildAnalysis(page, params.url, run);
 
   if (!buildManager.isLoaded()) {
     throw new Error('Failed to load build manifest');
@@ -514,88 +622,43 @@ export async function buildAnalyzeSize(
 /**
  * MCP-compatible tool definitions for registration
  */
-export const BUILD_INTELLIGENCE_TOOLS = [
-  {
+export const BUILD_INTELLIGENCE_TOOLS: ToolDefinition[] = [
+  defineTool({
     name: 'build_get_manifest',
     description: 'Get webpack/vite build manifest including chunks, assets, and modules',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The application URL to analyze',
-        },
-      },
-      required: ['url'],
-    },
-  },
-  {
+    inputSchema: BuildGetManifestSchema,
+    outputSchema: BuildGetManifestOutputSchema,
+    handler: buildGetManifest,
+  }),
+  defineTool({
     name: 'build_get_chunks',
     description: 'Get all code chunks with their files, modules, and sizes',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The application URL to analyze',
-        },
-      },
-      required: ['url'],
-    },
-  },
-  {
+    inputSchema: BuildGetChunksSchema,
+    outputSchema: BuildGetChunksOutputSchema,
+    handler: buildGetChunks,
+  }),
+  defineTool({
     name: 'build_find_module',
     description: 'Find a specific module in the bundle by name or path',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The application URL to analyze',
-        },
-        moduleName: {
-          type: 'string',
-          description: 'Name or path of the module to find',
-        },
-      },
-      required: ['url', 'moduleName'],
-    },
-  },
-  {
+    inputSchema: BuildFindModuleSchema,
+    outputSchema: BuildFindModuleOutputSchema,
+    handler: buildFindModule,
+  }),
+  defineTool({
     name: 'build_get_dependencies',
     description: 'Get dependency graph for all modules or a specific module',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The application URL to analyze',
-        },
-        moduleName: {
-          type: 'string',
-          description: 'Specific module to get dependencies for (optional)',
-        },
-      },
-      required: ['url'],
-    },
-  },
-  {
+    inputSchema: BuildGetDependenciesSchema,
+    outputSchema: BuildGetDependenciesOutputSchema,
+    handler: buildGetDependencies,
+  }),
+  defineTool({
     name: 'build_analyze_size',
     description:
       'Analyze bundle sizes by type and identify large modules with optimization recommendations',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The application URL to analyze',
-        },
-        threshold: {
-          type: 'number',
-          description: 'Size threshold in KB to flag large modules (default: 100)',
-        },
-      },
-      required: ['url'],
-    },
-  },
+    inputSchema: BuildAnalyzeSizeSchema,
+    outputSchema: BuildAnalyzeSizeOutputSchema,
+    handler: buildAnalyzeSize,
+    summarize: (result: SizeAnalysis) =>
+      `Bundle is ${result.totalKB} KB with ${result.large.length} large module(s)`,
+  }),
 ];
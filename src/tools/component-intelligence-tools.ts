@@ -10,33 +10,47 @@
 import { Page } from 'playwright';
 import { z } from 'zod';
 import { ComponentTracker, ComponentInfo } from '../component-tracker.js';
+import { FrameSchema, resolveFrame } from '../frames.js';
+import { navigateTo } from '../navigation.js';
+import { PageInfoSchema, PaginationSchema, PageInfo, paginate } from '../pagination.js';
+import { RunContext, wait } from '../run-context.js';
+import { installSerializer, resolveSerializeLimits, SerializeLimitsSchema } from '../serializer.js';
+import { defineTool, ToolDefinition } from './registry.js';
 
 // ============================================================================
 // Zod Schemas for Tool Parameters
 // ============================================================================
 
-export const ComponentTreeSchema = z.object({
-  url: z.string().url().describe('The URL of the page to analyze'),
-  includeDepth: z
-    .boolean()
-    .optional()
-    .default(true)
-    .describe('Include depth information for each component'),
-  filterFramework: z
-    .enum(['react', 'vue', 'angular', 'svelte', 'all'])
-    .optional()
-    .default('all')
-    .describe('Filter components by framework'),
-});
+export const ComponentTreeSchema = z
+  .object({
+    url: z.string().url().describe('The URL of the page to analyze'),
+    includeDepth: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe('Include depth information for each component'),
+    filterFramework: z
+      .enum(['react', 'vue', 'angular', 'svelte', 'all'])
+      .optional()
+      .default('all')
+      .describe('Filter components by framework'),
+    serialization: SerializeLimitsSchema.optional(),
+    frame: FrameSchema,
+  })
+  .merge(PaginationSchema);
 
 export const ComponentGetPropsSchema = z.object({
   url: z.string().url().describe('The page URL'),
   selector: z.string().describe('CSS selector for the component'),
+  serialization: SerializeLimitsSchema.optional(),
+  frame: FrameSchema,
 });
 
 export const ComponentGetStateSchema = z.object({
   url: z.string().url().describe('The page URL'),
   selector: z.string().describe('CSS selector for the component'),
+  serialization: SerializeLimitsSchema.optional(),
+  frame: FrameSchema,
 });
 
 export const ComponentFindByNameSchema = z.object({
@@ -44,11 +58,14 @@ export const ComponentFindByNameSchema = z.object({
   componentName: z.string().describe('Name of the component to find (case-sensitive)'),
   includeProps: z.boolean().optional().default(true).describe('Include props in results'),
   includeState: z.boolean().optional().default(true).describe('Include state in results'),
+  serialization: SerializeLimitsSchema.optional(),
+  frame: FrameSchema,
 });
 
 export const ComponentGetSourceSchema = z.object({
   url: z.string().url().describe('The page URL'),
   selector: z.string().describe('CSS selector for the component'),
+  frame: FrameSchema,
 });
 
 export const ComponentTrackRendersSchema = z.object({
@@ -65,27 +82,130 @@ export const ComponentTrackRendersSchema = z.object({
     .optional()
     .default(true)
     .describe('Attempt to capture re-render reasons'),
+  frame: FrameSchema,
 });
 
 export const ComponentGetContextSchema = z.object({
   url: z.string().url().describe('The page URL'),
   selector: z.string().describe('CSS selector for the component'),
+  serialization: SerializeLimitsSchema.optional(),
+  frame: FrameSchema,
 });
 
 export const ComponentGetHooksSchema = z.object({
   url: z.string().url().describe('The page URL'),
   selector: z.string().describe('CSS selector for the React component'),
+  serialization: SerializeLimitsSchema.optional(),
+  frame: FrameSchema,
+});
+
+// ============================================================================
+// Output Schemas
+// ============================================================================
+
+const SourceLocationSchema = z.object({
+  file: z.string(),
+  line: z.number().optional(),
+  column: z.number().optional(),
+});
+
+const ComponentTreeNodeSchema = z.object({
+  id: z.number(),
+  parentId: z.number().optional(),
+  name: z.string(),
+  type: z.string(),
+  depth: z.number(),
+  childCount: z.number(),
+  props: z.record(z.any()).optional(),
+  state: z.record(z.any()).optional(),
+  source: SourceLocationSchema.optional(),
+});
+
+export const ComponentTreeOutputSchema = z.object({
+  components: z.array(ComponentTreeNodeSchema),
+  totalCount: z.number(),
+  frameworks: z.array(z.string()),
+  page: PageInfoSchema,
+});
+
+export const ComponentGetPropsOutputSchema = z.object({
+  componentName: z.string(),
+  props: z.record(z.any()),
+});
+
+export const ComponentGetStateOutputSchema = z.object({
+  componentName: z.string(),
+  state: z.record(z.any()).nullable(),
+});
+
+export const ComponentFindByNameOutputSchema = z.object({
+  instances: z.array(
+    z.object({
+      selector: z.string(),
+      props: z.record(z.any()),
+      state: z.record(z.any()).optional(),
+      domId: z.string().optional(),
+    })
+  ),
+  count: z.number(),
+});
+
+export const ComponentGetSourceOutputSchema = SourceLocationSchema.extend({
+  framework: z.string(),
+});
+
+export const ComponentTrackRendersOutputSchema = z.object({
+  componentName: z.string(),
+  renders: z.array(
+    z.object({
+      timestamp: z.number(),
+      reason: z.string().optional(),
+      props: z.record(z.any()).optional(),
+      state: z.record(z.any()).optional(),
+      duration: z.number().optional(),
+    })
+  ),
+  totalRenders: z.number(),
+  averageInterval: z.number(),
+});
+
+export const ComponentGetContextOutputSchema = z.object({
+  contexts: z.array(
+    z.object({
+      name: z.string(),
+      value: z.any(),
+      provider: z.string().optional(),
+    })
+  ),
+});
+
+export const ComponentGetHooksOutputSchema = z.object({
+  hooks: z.array(
+    z.object({
+      type: z.string(),
+      value: z.any(),
+      dependencies: z.array(z.any()).optional(),
+      index: z.number(),
+    })
+  ),
 });
 
 // ============================================================================
 // Type Definitions
 // ============================================================================
 
+/**
+ * Component in the flattened tree: nodes are listed depth-first, each after its parent
+ */
 interface ComponentTreeNode {
+  /** Position in the flattened tree */
+  id: number;
+  /** id of the parent component; absent on roots */
+  parentId?: number;
   name: string;
   type: string;
   depth: number;
-  children: ComponentTreeNode[];
+  childCount: number;
   props?: Record<string, any>;
   state?: Record<string, any>;
   source?: {
@@ -128,19 +248,40 @@ interface HookInfo {
 // ============================================================================
 
 /**
- * Get full component hierarchy as a tree structure
+ * Get the full component hierarchy as a depth-first list of nodes linked by `parentId`,
+ * a page of nodes at a time, so large trees are split however deep or wide they are
  */
 export async function componentTree(
   page: Page,
-  params: z.infer<typeof ComponentTreeSchema>
+  params: z.infer<typeof ComponentTreeSchema>,
+  run: RunContext = {}
+): Promise<{
+  components: ComponentTreeNode[];
+  totalCount: number;
+  frameworks: string[];
+  page: PageInfo;
+}> {
+  return paginate('component_tree', params, run, ['components'], () =>
+    captureComponentTree(page, params, run)
+  );
+}
+
+/**
+ * Load the page and build the full component tree
+ */
+async function captureComponentTree(
+  page: Page,
+  params: z.infer<typeof ComponentTreeSchema>,
+  run: RunContext
 ): Promise<{ components: ComponentTreeNode[]; totalCount: number; frameworks: string[] }> {
-  const tracker = new ComponentTracker();
+  const tracker = new ComponentTracker(params.serialization);
 
   try {
     await tracker.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
+    await navigateTo(page, params.url, run);
 
-    const allComponents = await tracker.getComponentTree();
+    const frame = await resolveFrame(page, params.frame);
+    const allComponents = await tracker.getComponentTree(frame);
 
     // Filter by framework if specified
     const filteredComponents =
@@ -148,16 +289,24 @@ export async function componentTree(
         ? allComponents
         : allComponents.filter((c: ComponentInfo) => c.type === params.filterFramework);
 
-    // Build tree structure with depth calculation
     const componentMap = new Map<string, ComponentInfo>();
     filteredComponents.forEach((c: ComponentInfo) => componentMap.set(c.name, c));
 
-    const buildTree = (comp: ComponentInfo, depth = 0): ComponentTreeNode => {
-      const node: ComponentTreeNode = {
+    // Flatten the tree depth-first, numbering nodes in the order they are listed
+    const nodes: ComponentTreeNode[] = [];
+    const addNode = (comp: ComponentInfo, depth: number, parentId?: number): void => {
+      const children = (comp.children ?? [])
+        .map(childName => componentMap.get(childName))
+        .filter((child): child is ComponentInfo => child !== undefined);
+      const id = nodes.length;
+
+      nodes.push({
+        id,
+        ...(parentId !== undefined && { parentId }),
         name: comp.name,
         type: comp.type,
         depth,
-        children: [],
+        childCount: children.length,
         props: comp.props,
         state: comp.state,
         source: comp.source
@@ -167,28 +316,20 @@ export async function componentTree(
               column: comp.source.column,
             }
           : undefined,
-      };
-
-      // Build children recursively
-      if (comp.children && comp.children.length > 0) {
-        node.children = comp.children
-          .map(childName => componentMap.get(childName))
-          .filter((child): child is ComponentInfo => child !== undefined)
-          .map(child => buildTree(child, depth + 1));
-      }
-
-      return node;
+      });
+      children.forEach(child => addNode(child, depth + 1, id));
     };
 
     // Find root components (those without parents)
-    const rootComponents = filteredComponents.filter((c: ComponentInfo) => !c.parent);
-    const tree = rootComponents.map(c => buildTree(c));
+    filteredComponents
+      .filter((c: ComponentInfo) => !c.parent)
+      .forEach((c: ComponentInfo) => addNode(c, 0));
 
     // Get unique frameworks
     const frameworks = Array.from(new Set(allComponents.map((c: ComponentInfo) => c.type)));
 
     return {
-      components: tree,
+      components: nodes,
       totalCount: filteredComponents.length,
       frameworks,
     };
@@ -202,15 +343,17 @@ export async function componentTree(
  */
 export async function componentGetProps(
   page: Page,
-  params: z.infer<typeof ComponentGetPropsSchema>
+  params: z.infer<typeof ComponentGetPropsSchema>,
+  run: RunContext = {}
 ): Promise<{ componentName: string; props: Record<string, any> }> {
-  const tracker = new ComponentTracker();
+  const tracker = new ComponentTracker(params.serialization);
 
   try {
     await tracker.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
+    await navigateTo(page, params.url, run);
 
-    const component = await tracker.getComponentAtElement(params.selector);
+    const frame = await resolveFrame(page, params.frame);
+    const component = await tracker.getComponentAtElement(params.selector, frame);
 
     if (!component) {
       throw new Error(`No component found at selector: ${params.selector}`);
@@ -230,15 +373,17 @@ export async function componentGetProps(
  */
 export async function componentGetState(
   page: Page,
-  params: z.infer<typeof ComponentGetStateSchema>
+  params: z.infer<typeof ComponentGetStateSchema>,
+  run: RunContext = {}
 ): Promise<{ componentName: string; state: Record<string, any> | null }> {
-  const tracker = new ComponentTracker();
+  const tracker = new ComponentTracker(params.serialization);
 
   try {
     await tracker.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
+    await navigateTo(page, params.url, run);
 
-    const component = await tracker.getComponentAtElement(params.selector);
+    const frame = await resolveFrame(page, params.frame);
+    const component = await tracker.getComponentAtElement(params.selector, frame);
 
     if (!component) {
       throw new Error(`No component found at selector: ${params.selector}`);
@@ -258,15 +403,17 @@ export async function componentGetState(
  */
 export async function componentFindByName(
   page: Page,
-  params: z.infer<typeof ComponentFindByNameSchema>
+  params: z.infer<typeof ComponentFindByNameSchema>,
+  run: RunContext = {}
 ): Promise<{ instances: ComponentInstance[]; count: number }> {
-  const tracker = new ComponentTracker();
+  const tracker = new ComponentTracker(params.serialization);
 
   try {
     await tracker.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
+    await navigateTo(page, params.url, run);
 
-    const allComponents = await tracker.getComponentTree();
+    const frame = await resolveFrame(page, params.frame);
+    const allComponents = await tracker.getComponentTree(frame);
     const matchingComponents = allComponents.filter(
       (c: ComponentInfo) => c.name === params.componentName
     );
@@ -299,15 +446,17 @@ export async function componentFindByName(
  */
 export async function componentGetSource(
   page: Page,
-  params: z.infer<typeof ComponentGetSourceSchema>
+  params: z.infer<typeof ComponentGetSourceSchema>,
+  run: RunContext = {}
 ): Promise<{ file: string; line?: number; column?: number; framework: string }> {
   const tracker = new ComponentTracker();
 
   try {
     await tracker.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
+    await navigateTo(page, params.url, run);
 
-    const component = await tracker.getComponentAtElement(params.selector);
+    const frame = await resolveFrame(page, params.frame);
+    const component = await tracker.getComponentAtElement(params.selector, frame);
 
     if (!component) {
       throw new Error(`No component found at selector: ${params.selector}`);
@@ -336,7 +485,8 @@ export async function componentGetSource(
  */
 export async function componentTrackRenders(
   page: Page,
-  params: z.infer<typeof ComponentTrackRendersSchema>
+  params: z.infer<typeof ComponentTrackRendersSchema>,
+  run: RunContext = {}
 ): Promise<{
   componentName: string;
   renders: RenderEvent[];
@@ -344,19 +494,21 @@ export async function componentTrackRenders(
   averageInterval: number;
 }> {
   const tracker = new ComponentTracker();
+  let frame = page.mainFrame();
 
   try {
     await tracker.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
+    await navigateTo(page, params.url, run);
 
     // Get the component to track
-    const component = await tracker.getComponentAtElement(params.selector);
+    frame = await resolveFrame(page, params.frame);
+    const component = await tracker.getComponentAtElement(params.selector, frame);
     if (!component) {
       throw new Error(`No component found at selector: ${params.selector}`);
     }
 
     // Inject render tracking
-    await page.evaluate(
+    await frame.evaluate(
       ({ captureReasons }) => {
         const renderEvents: any[] = [];
 
@@ -384,10 +536,10 @@ export async function componentTrackRenders(
     );
 
     // Wait for the specified duration
-    await page.waitForTimeout(params.duration);
+    await wait(params.duration, run, 'Recording renders');
 
     // Retrieve render events
-    const events = await page.evaluate(() => {
+    const events = await frame.evaluate(() => {
       return (window as any).__websee_render_events || [];
     });
 
@@ -413,7 +565,7 @@ export async function componentTrackRenders(
     };
   } finally {
     // Cleanup tracking hooks
-    await page
+    await frame
       .evaluate(() => {
         delete (window as any).__websee_render_events;
 
@@ -435,62 +587,70 @@ export async function componentTrackRenders(
  */
 export async function componentGetContext(
   page: Page,
-  params: z.infer<typeof ComponentGetContextSchema>
+  params: z.infer<typeof ComponentGetContextSchema>,
+  run: RunContext = {}
 ): Promise<{ contexts: ContextValue[] }> {
-  const tracker = new ComponentTracker();
+  const tracker = new ComponentTracker(params.serialization);
 
   try {
     await tracker.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
+    await navigateTo(page, params.url, run);
 
-    const component = await tracker.getComponentAtElement(params.selector);
+    const frame = await resolveFrame(page, params.frame);
+    const component = await tracker.getComponentAtElement(params.selector, frame);
 
     if (!component) {
       throw new Error(`No component found at selector: ${params.selector}`);
     }
 
     // Extract context values from the component
-    const contexts = await page.evaluate(selector => {
-      const element = document.querySelector(selector);
-      if (!element) return [];
-
-      const contexts: ContextValue[] = [];
-
-      // Try to access React fiber for context
-      const fiberKey = Object.keys(element).find(
-        key => key.startsWith('__reactFiber') || key.startsWith('__reactInternalInstance')
-      );
-
-      if (fiberKey) {
-        const fiber = (element as any)[fiberKey];
-
-        // Walk up the fiber tree to find contexts
-        let currentFiber = fiber;
-        while (currentFiber) {
-          if (currentFiber.dependencies?.firstContext) {
-            let contextItem = currentFiber.dependencies.firstContext;
-            let contextIndex = 0;
-
-            while (contextItem && contextIndex < 20) {
-              // Limit to prevent infinite loops
-              const contextValue = contextItem.memoizedValue;
-              contexts.push({
-                name: `Context_${contextIndex}`,
-                value: contextValue,
-                provider: currentFiber.type?.displayName || currentFiber.type?.name,
-              });
-
-              contextItem = contextItem.next;
-              contextIndex++;
+    await installSerializer(frame);
+    const limits = resolveSerializeLimits(params.serialization);
+    const contexts = await frame.evaluate(
+      ({ selector, limits }) => {
+        const serialize = (window as any).__WEBSEE_SERIALIZE__;
+        const element = document.querySelector(selector);
+        if (!element) return [];
+
+        const contexts: ContextValue[] = [];
+
+        // Try to access React fiber for context
+        const fiberKey = Object.keys(element).find(
+          key => key.startsWith('__reactFiber') || key.startsWith('__reactInternalInstance')
+        );
+
+        if (fiberKey) {
+          const fiber = (element as any)[fiberKey];
+
+          // Walk up the fiber tree to find contexts
+          let currentFiber = fiber;
+          while (currentFiber) {
+            if (currentFiber.dependencies?.firstContext) {
+              let contextItem = currentFiber.dependencies.firstContext;
+              let contextIndex = 0;
+
+              while (contextItem && contextIndex < 20) {
+                // Limit to prevent infinite loops
+                const contextValue = contextItem.memoizedValue;
+                contexts.push({
+                  name: `Context_${contextIndex}`,
+                  value: serialize(contextValue, limits),
+                  provider: currentFiber.type?.displayName || currentFiber.type?.name,
+                });
+
+                contextItem = contextItem.next;
+                contextIndex++;
+              }
             }
-          }
 
-          currentFiber = currentFiber.return;
+            currentFiber = currentFiber.return;
+          }
         }
-      }
 
-      return contexts;
-    }, params.selector);
+        return contexts;
+      },
+      { selector: params.selector, limits }
+    );
 
     return { contexts };
   } finally {
@@ -503,15 +663,17 @@ export async function componentGetContext(
  */
 export async function componentGetHooks(
   page: Page,
-  params: z.infer<typeof ComponentGetHooksSchema>
+  params: z.infer<typeof ComponentGetHooksSchema>,
+  run: RunContext = {}
 ): Promise<{ hooks: HookInfo[] }> {
-  const tracker = new ComponentTracker();
+  const tracker = new ComponentTracker(params.serialization);
 
   try {
     await tracker.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
+    await navigateTo(page, params.url, run);
 
-    const component = await tracker.getComponentAtElement(params.selector);
+    const frame = await resolveFrame(page, params.frame);
+    const component = await tracker.getComponentAtElement(params.selector, frame);
 
     if (!component) {
       throw new Error(`No component found at selector: ${params.selector}`);
@@ -522,61 +684,67 @@ export async function componentGetHooks(
     }
 
     // Extract hooks information
-    const hooks = await page.evaluate(selector => {
-      const element = document.querySelector(selector);
-      if (!element) return [];
-
-      const hooks: HookInfo[] = [];
-
-      // Try to access React fiber for hooks
-      const fiberKey = Object.keys(element).find(
-        key => key.startsWith('__reactFiber') || key.startsWith('__reactInternalInstance')
-      );
-
-      if (fiberKey) {
-        const fiber = (element as any)[fiberKey];
-
-        // Access memoizedState which contains hooks
-        let hookNode = fiber?.memoizedState;
-        let index = 0;
-
-        while (hookNode && index < 50) {
-          // Limit to prevent infinite loops
-          const hookInfo: HookInfo = {
-            type: determineHookType(hookNode, index),
-            value: hookNode.memoizedState,
-            index,
-          };
+    await installSerializer(frame);
+    const limits = resolveSerializeLimits(params.serialization);
+    const hooks = await frame.evaluate(
+      ({ selector, limits }) => {
+        const serialize = (window as any).__WEBSEE_SERIALIZE__;
+        const element = document.querySelector(selector);
+        if (!element) return [];
+
+        const hooks: HookInfo[] = [];
+
+        // Try to access React fiber for hooks
+        const fiberKey = Object.keys(element).find(
+          key => key.startsWith('__reactFiber') || key.startsWith('__reactInternalInstance')
+        );
+
+        if (fiberKey) {
+          const fiber = (element as any)[fiberKey];
+
+          // Access memoizedState which contains hooks
+          let hookNode = fiber?.memoizedState;
+          let index = 0;
+
+          while (hookNode && index < 50) {
+            // Limit to prevent infinite loops
+            const hookInfo: HookInfo = {
+              type: determineHookType(hookNode, index),
+              value: serialize(hookNode.memoizedState, limits),
+              index,
+            };
+
+            // Try to extract dependencies for effects
+            if (hookNode.deps !== null && hookNode.deps !== undefined) {
+              hookInfo.dependencies = serialize(hookNode.deps, limits);
+            }
 
-          // Try to extract dependencies for effects
-          if (hookNode.deps !== null && hookNode.deps !== undefined) {
-            hookInfo.dependencies = hookNode.deps;
+            hooks.push(hookInfo);
+            hookNode = hookNode.next;
+            index++;
           }
-
-          hooks.push(hookInfo);
-          hookNode = hookNode.next;
-          index++;
         }
-      }
 
-      function determineHookType(hookNode: any, _index: number): string {
-        // This is a heuristic approach since React doesn't expose hook types directly
-        if (hookNode.queue !== null && hookNode.queue !== undefined) {
-          return 'useState/useReducer';
-        }
-        if (hookNode.deps !== null && hookNode.deps !== undefined) {
-          return 'useEffect/useMemo/useCallback';
-        }
-        if (hookNode.memoizedState && typeof hookNode.memoizedState === 'object') {
-          if (hookNode.memoizedState.current !== undefined) {
-            return 'useRef';
+        function determineHookType(hookNode: any, _index: number): string {
+          // This is a heuristic approach since React doesn't expose hook types directly
+          if (hookNode.queue !== null && hookNode.queue !== undefined) {
+            return 'useState/useReducer';
+          }
+          if (hookNode.deps !== null && hookNode.deps !== undefined) {
+            return 'useEffect/useMemo/useCallback';
           }
+          if (hookNode.memoizedState && typeof hookNode.memoizedState === 'object') {
+            if (hookNode.memoizedState.current !== undefined) {
+              return 'useRef';
+            }
+          }
+          return 'unknown';
         }
-        return 'unknown';
-      }
 
-      return hooks;
-    }, params.selector);
+        return hooks;
+      },
+      { selector: params.selector, limits }
+    );
 
     return { hooks };
   } finally {
@@ -588,121 +756,64 @@ export async function componentGetHooks(
 // Tool Metadata for MCP Server Registration
 // ============================================================================
 
-export const COMPONENT_INTELLIGENCE_TOOLS = [
-  {
+export const COMPONENT_INTELLIGENCE_TOOLS: ToolDefinition[] = [
+  defineTool({
     name: 'component_tree',
     description:
-      'Get full React/Vue/Angular component hierarchy as a tree structure with depth information',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        url: { type: 'string', description: 'The URL of the page to analyze' },
-        includeDepth: {
-          type: 'boolean',
-          description: 'Include depth information for each component',
-        },
-        filterFramework: {
-          type: 'string',
-          enum: ['react', 'vue', 'angular', 'svelte', 'all'],
-          description: 'Filter components by framework',
-        },
-      },
-      required: ['url'],
-    },
-  },
-  {
+      'Get the full React/Vue/Angular component hierarchy as a depth-first list of components ' +
+      'with id, parentId and depth, paged like other lists',
+    inputSchema: ComponentTreeSchema,
+    outputSchema: ComponentTreeOutputSchema,
+    handler: componentTree,
+  }),
+  defineTool({
     name: 'component_get_props',
     description: 'Get component props for a specific component selected by CSS selector',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        url: { type: 'string', description: 'The page URL' },
-        selector: { type: 'string', description: 'CSS selector for the component' },
-      },
-      required: ['url', 'selector'],
-    },
-  },
-  {
+    inputSchema: ComponentGetPropsSchema,
+    outputSchema: ComponentGetPropsOutputSchema,
+    handler: componentGetProps,
+  }),
+  defineTool({
     name: 'component_get_state',
     description: 'Get component state for a specific component selected by CSS selector',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        url: { type: 'string', description: 'The page URL' },
-        selector: { type: 'string', description: 'CSS selector for the component' },
-      },
-      required: ['url', 'selector'],
-    },
-  },
-  {
+    inputSchema: ComponentGetStateSchema,
+    outputSchema: ComponentGetStateOutputSchema,
+    handler: componentGetState,
+  }),
+  defineTool({
     name: 'component_find_by_name',
     description: 'Find all instances of a component by name across the entire page',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        url: { type: 'string', description: 'The page URL' },
-        componentName: {
-          type: 'string',
-          description: 'Name of the component to find (case-sensitive)',
-        },
-        includeProps: { type: 'boolean', description: 'Include props in results' },
-        includeState: { type: 'boolean', description: 'Include state in results' },
-      },
-      required: ['url', 'componentName'],
-    },
-  },
-  {
+    inputSchema: ComponentFindByNameSchema,
+    outputSchema: ComponentFindByNameOutputSchema,
+    handler: componentFindByName,
+  }),
+  defineTool({
     name: 'component_get_source',
     description: 'Map a component to its source file, line, and column information',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        url: { type: 'string', description: 'The page URL' },
-        selector: { type: 'string', description: 'CSS selector for the component' },
-      },
-      required: ['url', 'selector'],
-    },
-  },
-  {
+    inputSchema: ComponentGetSourceSchema,
+    outputSchema: ComponentGetSourceOutputSchema,
+    handler: componentGetSource,
+  }),
+  defineTool({
     name: 'component_track_renders',
     description:
       'Track component re-renders over a specified duration to identify performance issues',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        url: { type: 'string', description: 'The page URL' },
-        selector: { type: 'string', description: 'CSS selector for the component to track' },
-        duration: {
-          type: 'number',
-          description: 'Duration to track renders in milliseconds (1000-60000)',
-        },
-        captureReasons: { type: 'boolean', description: 'Attempt to capture re-render reasons' },
-      },
-      required: ['url', 'selector'],
-    },
-  },
-  {
+    inputSchema: ComponentTrackRendersSchema,
+    outputSchema: ComponentTrackRendersOutputSchema,
+    handler: componentTrackRenders,
+  }),
+  defineTool({
     name: 'component_get_context',
     description: 'Get React context values available to a component',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        url: { type: 'string', description: 'The page URL' },
-        selector: { type: 'string', description: 'CSS selector for the component' },
-      },
-      required: ['url', 'selector'],
-    },
-  },
-  {
+    inputSchema: ComponentGetContextSchema,
+    outputSchema: ComponentGetContextOutputSchema,
+    handler: componentGetContext,
+  }),
+  defineTool({
     name: 'component_get_hooks',
     description: 'Get React hooks state and information for a component',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        url: { type: 'string', description: 'The page URL' },
-        selector: { type: 'string', description: 'CSS selector for the React component' },
-      },
-      required: ['url', 'selector'],
-    },
-  },
+    inputSchema: ComponentGetHooksSchema,
+    outputSchema: ComponentGetHooksOutputSchema,
+    handler: componentGetHooks,
+  }),
 ];
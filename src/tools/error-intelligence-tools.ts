@@ -6,8 +6,16 @@
  */
 
 import { z } from 'zod';
-import { Page } from 'playwright';
+import { ConsoleMessage, Page, WebError } from 'playwright';
 import { SourceIntelligenceLayer } from '../index.js';
+import { FrameSchema, resolveFrame } from '../frames.js';
+import { navigateTo } from '../navigation.js';
+import { PageInfoSchema, PaginationSchema, PageInfo, paginate } from '../pagination.js';
+import { RunContext, wait } from '../run-context.js';
+import { defineTool, ToolDefinition } from './registry.js';
+import { createLogger } from '../logger.js';
+
+const logger = createLogger('error-intelligence');
 
 // ============================================================================
 // Tool Schemas
@@ -18,18 +26,103 @@ export const ErrorResolveStackSchema = z.object({
   errorStack: z.string().describe('The minified error stack trace to resolve'),
 });
 
-export const ErrorGetContextSchema = z.object({
-  url: z.string().url().describe('The page URL to analyze'),
-});
+export const ErrorGetContextSchema = z
+  .object({
+    url: z.string().url().describe('The page URL to analyze'),
+    frame: FrameSchema,
+  })
+  .merge(PaginationSchema);
 
 export const ErrorTraceCauseSchema = z.object({
   url: z.string().url().describe('The page URL where the error occurred'),
   errorMessage: z.string().describe('The error message to trace'),
+  frame: FrameSchema,
 });
 
 export const ErrorGetSimilarSchema = z.object({
   url: z.string().url().describe('The page URL to analyze'),
   errorMessage: z.string().describe('The error message to find similar errors for'),
+  frame: FrameSchema,
+});
+
+// ============================================================================
+// Output Schemas
+// ============================================================================
+
+const ResolvedStackFrameSchema = z.object({
+  original: z.string(),
+  resolved: z
+    .object({
+      file: z.string(),
+      line: z.number(),
+      column: z.number(),
+      content: z.string().optional(),
+    })
+    .optional(),
+});
+
+const ConsoleEntrySchema = z.object({
+  type: z.string(),
+  message: z.string(),
+  timestamp: z.number(),
+  location: z.string().optional(),
+  pageUrl: z.string().optional(),
+});
+
+export const ErrorResolveStackOutputSchema = z.object({
+  original: z.array(z.string()),
+  resolved: z.array(ResolvedStackFrameSchema),
+  message: z.string(),
+});
+
+export const ErrorGetContextOutputSchema = z.object({
+  errors: z.array(ConsoleEntrySchema),
+  warnings: z.array(ConsoleEntrySchema),
+  components: z.array(
+    z.object({
+      name: z.string(),
+      framework: z.string(),
+      state: z.record(z.any()).optional(),
+      props: z.record(z.any()).optional(),
+    })
+  ),
+  network: z.array(
+    z.object({
+      url: z.string(),
+      method: z.string(),
+      status: z.number().optional(),
+      duration: z.number().optional(),
+      timestamp: z.number(),
+    })
+  ),
+  page: PageInfoSchema,
+});
+
+export const ErrorTraceCauseOutputSchema = z.object({
+  rootCause: z.string(),
+  confidence: z.enum(['high', 'medium', 'low']),
+  stackTrace: z.array(ResolvedStackFrameSchema),
+  relatedErrors: z.array(
+    z.object({
+      message: z.string(),
+      timestamp: z.number(),
+      correlation: z.number(),
+    })
+  ),
+  recommendations: z.array(z.string()),
+});
+
+export const ErrorGetSimilarOutputSchema = z.object({
+  similar: z.array(
+    z.object({
+      message: z.string(),
+      count: z.number(),
+      firstSeen: z.number(),
+      lastSeen: z.number(),
+      stackTrace: z.string().optional(),
+      pattern: z.string(),
+    })
+  ),
 });
 
 // ============================================================================
@@ -52,12 +145,16 @@ export interface ErrorContext {
     message: string;
     timestamp: number;
     location?: string;
+    /** Page the message came from, when it is a popup rather than the inspected page */
+    pageUrl?: string;
   }>;
   warnings: Array<{
     type: string;
     message: string;
     timestamp: number;
     location?: string;
+    /** Page the message came from, when it is a popup rather than the inspected page */
+    pageUrl?: string;
   }>;
   components: Array<{
     name: string;
@@ -104,7 +201,8 @@ export interface SimilarError {
  */
 export async function errorResolveStack(
   page: Page,
-  params: z.infer<typeof ErrorResolveStackSchema>
+  params: z.infer<typeof ErrorResolveStackSchema>,
+  run: RunContext = {}
 ): Promise<{
   original: string[];
   resolved: ResolvedStackFrame[];
@@ -114,7 +212,7 @@ export async function errorResolveStack(
 
   try {
     await intelligence.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
+    await navigateTo(page, params.url, run);
 
     const stackLines = params.errorStack.split('\n').filter(line => line.trim());
     const resolved: ResolvedStackFrame[] = [];
@@ -149,7 +247,7 @@ export async function errorResolveStack(
           }
         } catch (error) {
           // Failed to resolve this frame, keep original
-          console.warn(`Failed to resolve stack frame: ${line}`, error);
+          logger.debug(`Failed to resolve stack frame: ${line}`, error);
         }
       }
 
@@ -170,11 +268,32 @@ export async function errorResolveStack(
 }
 
 /**
- * Get comprehensive error context including console, network, and component state
+ * Get comprehensive error context including console, network, and component state,
+ * a page of each list at a time
  */
 export async function errorGetContext(
   page: Page,
-  params: z.infer<typeof ErrorGetContextSchema>
+  params: z.infer<typeof ErrorGetContextSchema>,
+  run: RunContext = {}
+): Promise<ErrorContext & { page: PageInfo }> {
+  return paginate(
+    'error_get_context',
+    params,
+    run,
+    ['errors', 'warnings', 'components', 'network'],
+    () => captureErrorContext(page, params.url, params.frame, run)
+  );
+}
+
+/**
+ * Load the page and collect its errors, warnings, components and network activity,
+ * including those of popups unless a frame is selected
+ */
+async function captureErrorContext(
+  page: Page,
+  url: string,
+  frameRef: string | undefined,
+  run: RunContext
 ): Promise<ErrorContext> {
   const intelligence = new SourceIntelligenceLayer();
   const context: ErrorContext = {
@@ -184,47 +303,66 @@ export async function errorGetContext(
     network: [],
   };
 
-  try {
-    // Capture console messages
-    const consoleMessages: Array<{
-      type: string;
-      text: string;
-      location: any;
-      timestamp: number;
-    }> = [];
-
-    page.on('console', msg => {
-      consoleMessages.push({
-        type: msg.type(),
-        text: msg.text(),
-        location: msg.location(),
-        timestamp: Date.now(),
-      });
+  // Capture console messages
+  const consoleMessages: Array<{
+    type: string;
+    text: string;
+    location: any;
+    timestamp: number;
+    source: Page | null;
+  }> = [];
+
+  const onConsole = (msg: ConsoleMessage) => {
+    consoleMessages.push({
+      type: msg.type(),
+      text: msg.text(),
+      location: msg.location(),
+      timestamp: Date.now(),
+      source: msg.page(),
     });
+  };
 
-    // Capture page errors
-    const pageErrors: Array<{
-      message: string;
-      stack?: string;
-      timestamp: number;
-    }> = [];
-
-    page.on('pageerror', error => {
-      pageErrors.push({
-        message: error.message,
-        stack: error.stack,
-        timestamp: Date.now(),
-      });
+  // Capture page errors
+  const pageErrors: Array<{
+    message: string;
+    stack?: string;
+    timestamp: number;
+    source: Page | null;
+  }> = [];
+
+  const onPageError = (webError: WebError) => {
+    const error = webError.error();
+    pageErrors.push({
+      message: error.message,
+      stack: error.stack,
+      timestamp: Date.now(),
+      source: webError.page(),
     });
+  };
+
+  // Listen on the context so popups opened by the page are covered too
+  const browserContext = page.context();
+
+  try {
+    browserContext.on('console', onConsole);
+    browserContext.on('weberror', onPageError);
 
     await intelligence.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
+    await navigateTo(page, url, run);
 
     // Wait a bit to capture any async errors
-    await page.waitForTimeout(2000);
+    await wait(2000, run, 'Collecting errors');
+
+    // A selected frame narrows everything to its page, components and requests
+    const frame = await resolveFrame(page, frameRef);
+    const inScope = (source: Page | null) => !frameRef || source === frame.page();
+    const pageUrlOf = (source: Page | null) =>
+      source && source !== page ? { pageUrl: source.url() } : {};
 
     // Process console messages
     consoleMessages.forEach(msg => {
+      if (!inScope(msg.source)) return;
+
       const entry = {
         type: msg.type,
         message: msg.text,
@@ -232,6 +370,7 @@ export async function errorGetContext(
         location: msg.location?.url
           ? `${msg.location.url}:${msg.location.lineNumber}:${msg.location.columnNumber}`
           : undefined,
+        ...pageUrlOf(msg.source),
       };
 
       if (msg.type === 'error') {
@@ -243,16 +382,19 @@ export async function errorGetContext(
 
     // Process page errors
     pageErrors.forEach(error => {
+      if (!inScope(error.source)) return;
+
       context.errors.push({
         type: 'pageerror',
         message: error.message,
         timestamp: error.timestamp,
         location: error.stack ? error.stack.split('\n')[1]?.trim() : undefined,
+        ...pageUrlOf(error.source),
       });
     });
 
     // Get component tree
-    const components = await intelligence.getComponentTree();
+    const components = await intelligence.getComponentTree(frame);
     context.components = components.map(comp => ({
       name: comp.name,
       framework: comp.type,
@@ -261,7 +403,9 @@ export async function errorGetContext(
     }));
 
     // Get network activity
-    const networkTraces = intelligence.getNetworkTraces();
+    const networkTraces = intelligence
+      .getNetworkTraces()
+      .filter(trace => !frameRef || (trace.frameUrl ?? page.url()) === frame.url());
     context.network = networkTraces.map(trace => ({
       url: trace.url,
       method: trace.method,
@@ -272,6 +416,9 @@ export async function errorGetContext(
 
     return context;
   } finally {
+    // Session pages outlive this call, so detach our listeners
+    browserContext.off('console', onConsole);
+    browserContext.off('weberror', onPageError);
     await intelligence.destroy();
   }
 }
@@ -281,31 +428,41 @@ export async function errorGetContext(
  */
 export async function errorTraceCause(
   page: Page,
-  params: z.infer<typeof ErrorTraceCauseSchema>
+  params: z.infer<typeof ErrorTraceCauseSchema>,
+  run: RunContext = {}
 ): Promise<RootCauseAnalysis> {
   const intelligence = new SourceIntelligenceLayer();
+  let errorTimeline: Array<{
+    error: Error;
+    timestamp: number;
+    source: Page | null;
+  }> = [];
+
+  // Capture all errors with timestamps, from the page and its popups
+  const onPageError = (webError: WebError) => {
+    errorTimeline.push({
+      error: webError.error(),
+      timestamp: Date.now(),
+      source: webError.page(),
+    });
+  };
+  const browserContext = page.context();
 
   try {
-    const errors: Error[] = [];
-    const errorTimeline: Array<{
-      error: Error;
-      timestamp: number;
-    }> = [];
-
-    // Capture all errors with timestamps
-    page.on('pageerror', error => {
-      errors.push(error);
-      errorTimeline.push({
-        error,
-        timestamp: Date.now(),
-      });
-    });
+    browserContext.on('weberror', onPageError);
 
     await intelligence.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
+    await navigateTo(page, params.url, run);
 
     // Wait for errors to occur
-    await page.waitForTimeout(2000);
+    await wait(2000, run, 'Collecting errors');
+
+    // A selected frame narrows the errors to its page
+    const frame = await resolveFrame(page, params.frame);
+    if (params.frame) {
+      errorTimeline = errorTimeline.filter(entry => entry.source === frame.page());
+    }
+    const errors = errorTimeline.map(entry => entry.error);
 
     // Find the matching error
     const targetError = errors.find(
@@ -327,7 +484,7 @@ export async function errorTraceCause(
     }
 
     // Get error intelligence
-    const errorIntel = await intelligence.getErrorIntelligence(targetError);
+    const errorIntel = await intelligence.getErrorIntelligence(targetError, frame);
 
     // Parse stack trace
     const stackTrace: ResolvedStackFrame[] = [];
@@ -372,6 +529,7 @@ export async function errorTraceCause(
       recommendations,
     };
   } finally {
+    browserContext.off('weberror', onPageError);
     await intelligence.destroy();
   }
 }
@@ -381,40 +539,54 @@ export async function errorTraceCause(
  */
 export async function errorGetSimilar(
   page: Page,
-  params: z.infer<typeof ErrorGetSimilarSchema>
+  params: z.infer<typeof ErrorGetSimilarSchema>,
+  run: RunContext = {}
 ): Promise<{
   similar: SimilarError[];
 }> {
   const intelligence = new SourceIntelligenceLayer();
+  const errorMap = new Map<string, SimilarError>();
+  const captured: Array<{ error: Error; timestamp: number; source: Page | null }> = [];
 
-  try {
-    const errorMap = new Map<string, SimilarError>();
+  // Capture all errors, from the page and its popups
+  const onPageError = (webError: WebError) => {
+    captured.push({ error: webError.error(), timestamp: Date.now(), source: webError.page() });
+  };
+  const browserContext = page.context();
 
-    // Capture all errors
-    page.on('pageerror', error => {
-      const pattern = extractErrorPattern(error.message);
-      const existing = errorMap.get(pattern);
+  const countError = (error: Error, timestamp: number) => {
+    const pattern = extractErrorPattern(error.message);
+    const existing = errorMap.get(pattern);
 
-      if (existing) {
-        existing.count++;
-        existing.lastSeen = Date.now();
-      } else {
-        errorMap.set(pattern, {
-          message: error.message,
-          count: 1,
-          firstSeen: Date.now(),
-          lastSeen: Date.now(),
-          stackTrace: error.stack,
-          pattern,
-        });
-      }
-    });
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = timestamp;
+    } else {
+      errorMap.set(pattern, {
+        message: error.message,
+        count: 1,
+        firstSeen: timestamp,
+        lastSeen: timestamp,
+        stackTrace: error.stack,
+        pattern,
+      });
+    }
+  };
+
+  try {
+    browserContext.on('weberror', onPageError);
 
     await intelligence.initialize(page);
-    await page.goto(params.url, { waitUntil: 'networkidle' });
+    await navigateTo(page, params.url, run);
 
     // Wait to collect errors
-    await page.waitForTimeout(3000);
+    await wait(3000, run, 'Collecting errors');
+
+    // A selected frame narrows the errors to its page
+    const frame = await resolveFrame(page, params.frame);
+    captured
+      .filter(entry => !params.frame || entry.source === frame.page())
+      .forEach(entry => countError(entry.error, entry.timestamp));
 
     // Find similar errors
     const targetPattern = extractErrorPattern(params.errorMessage);
@@ -439,6 +611,7 @@ export async function errorGetSimilar(
 
     return { similar };
   } finally {
+    browserContext.off('weberror', onPageError);
     await intelligence.destroy();
   }
 }
@@ -619,88 +792,39 @@ function generateRecommendations(error: Error, intelligence: any): string[] {
 // Tool Exports
 // ============================================================================
 
-export const errorIntelligenceTools = {
-  error_resolve_stack: {
+export const errorIntelligenceTools: ToolDefinition[] = [
+  defineTool({
     name: 'error_resolve_stack',
     description:
       'Resolve minified error stack traces to original source code locations using source maps',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The page URL where the error occurred',
-        },
-        errorStack: {
-          type: 'string',
-          description: 'The minified error stack trace to resolve',
-        },
-      },
-      required: ['url', 'errorStack'],
-    },
+    inputSchema: ErrorResolveStackSchema,
+    outputSchema: ErrorResolveStackOutputSchema,
     handler: errorResolveStack,
-    schema: ErrorResolveStackSchema,
-  },
-
-  error_get_context: {
+  }),
+  defineTool({
     name: 'error_get_context',
     description:
       'Get comprehensive error context including console errors, warnings, component state, and network activity',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The page URL to analyze',
-        },
-      },
-      required: ['url'],
-    },
+    inputSchema: ErrorGetContextSchema,
+    outputSchema: ErrorGetContextOutputSchema,
     handler: errorGetContext,
-    schema: ErrorGetContextSchema,
-  },
-
-  error_trace_cause: {
+  }),
+  defineTool({
     name: 'error_trace_cause',
     description:
       'Trace an error to its root cause with AI-powered analysis, including related errors and recommendations',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The page URL where the error occurred',
-        },
-        errorMessage: {
-          type: 'string',
-          description: 'The error message to trace',
-        },
-      },
-      required: ['url', 'errorMessage'],
-    },
+    inputSchema: ErrorTraceCauseSchema,
+    outputSchema: ErrorTraceCauseOutputSchema,
     handler: errorTraceCause,
-    schema: ErrorTraceCauseSchema,
-  },
-
-  error_get_similar: {
+    summarize: (result: RootCauseAnalysis) =>
+      `Root cause (${result.confidence} confidence): ${result.rootCause}`,
+  }),
+  defineTool({
     name: 'error_get_similar',
     description:
       'Find similar errors in the error timeline to identify patterns and recurring issues',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The page URL to analyze',
-        },
-        errorMessage: {
-          type: 'string',
-          description: 'The error message to find similar errors for',
-        },
-      },
-      required: ['url', 'errorMessage'],
-    },
+    inputSchema: ErrorGetSimilarSchema,
+    outputSchema: ErrorGetSimilarOutputSchema,
     handler: errorGetSimilar,
-    schema: ErrorGetSimilarSchema,
-  },
-};
+  }),
+];
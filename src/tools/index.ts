@@ -6,6 +6,93 @@
  * @module tools
  */
 
+import { ToolGroup } from '../config.js';
+import { ToolDefinition } from './registry.js';
+import { SESSION_TOOLS } from './session-tools.js';
+import { WORKFLOW_TOOLS } from './workflow-tools.js';
+import { PAGE_TOOLS } from './page-tools.js';
+import { SOURCE_INTELLIGENCE_TOOL_DEFINITIONS } from './source-intelligence-tools.js';
+import { COMPONENT_INTELLIGENCE_TOOLS } from './component-intelligence-tools.js';
+import { networkIntelligenceTools } from './network-intelligence-tools.js';
+import { BUILD_INTELLIGENCE_TOOLS } from './build-intelligence-tools.js';
+import { errorIntelligenceTools } from './error-intelligence-tools.js';
+
+/**
+ * Tools by group, in listing order
+ * (sessions, 6 workflow tools, page capture, then the granular layers)
+ */
+export const TOOL_GROUPS: Record<ToolGroup, ToolDefinition[]> = {
+  sessions: SESSION_TOOLS,
+  workflow: WORKFLOW_TOOLS,
+  page: PAGE_TOOLS,
+  source: SOURCE_INTELLIGENCE_TOOL_DEFINITIONS,
+  component: COMPONENT_INTELLIGENCE_TOOLS,
+  network: networkIntelligenceTools,
+  build: BUILD_INTELLIGENCE_TOOLS,
+  error: errorIntelligenceTools,
+};
+
+/**
+ * Every tool served by the MCP server, in listing order
+ */
+export const ALL_TOOLS: ToolDefinition[] = Object.values(TOOL_GROUPS).flat();
+
+/**
+ * Tools of the given groups (e.g. the groups enabled in websee.config), in listing order
+ */
+export function getToolsForGroups(groups: ToolGroup[]): ToolDefinition[] {
+  return (Object.keys(TOOL_GROUPS) as ToolGroup[])
+    .filter(group => groups.includes(group))
+    .flatMap(group => TOOL_GROUPS[group]);
+}
+
+// Tool Registry
+export {
+  ToolRegistry,
+  defineTool,
+  defineSessionTool,
+  toJsonSchema,
+  summarizeResult,
+  type ToolDefinition,
+  type PageToolDefinition,
+  type SessionToolDefinition,
+} from './registry.js';
+
+// Session Tools
+export {
+  SESSION_TOOLS,
+  SessionOpenSchema,
+  SessionListSchema,
+  SessionCloseSchema,
+  SessionSaveAuthSchema,
+  SessionRefSchema,
+  TabListSchema,
+  sessionOpen,
+  sessionList,
+  sessionClose,
+  sessionSaveAuth,
+  tabList,
+} from './session-tools.js';
+
+// Workflow Tools
+export {
+  WORKFLOW_TOOLS,
+  debugFrontendIssue,
+  analyzePerformance,
+  inspectComponentState,
+  traceNetworkRequests,
+  analyzeBundleSize,
+  resolveMinifiedError,
+} from './workflow-tools.js';
+
+// Page Tools
+export {
+  PAGE_TOOLS,
+  PageScreenshotSchema,
+  ScreenshotTargetSchema,
+  pageScreenshot,
+} from './page-tools.js';
+
 // Component Intelligence Tools
 export {
   // Tool functions
@@ -55,7 +142,7 @@ export {
   type RootCauseAnalysis,
   type SimilarError,
 
-  // Default export
+  // Tool definitions
   errorIntelligenceTools,
 } from './error-intelligence-tools.js';
 
@@ -68,6 +155,10 @@ export {
   networkTraceInitiator,
   networkGetHeaders,
   networkGetBody,
+  networkSimulate,
+  networkMock,
+  networkExportHar,
+  exportHar,
 
   // Schemas
   NetworkGetRequestsSchema,
@@ -76,6 +167,9 @@ export {
   NetworkTraceInitiatorSchema,
   NetworkGetHeadersSchema,
   NetworkGetBodySchema,
+  NetworkSimulateSchema,
+  NetworkMockSchema,
+  NetworkExportHarSchema,
 
   // Types
   type NetworkRequest,
@@ -83,8 +177,10 @@ export {
   type InitiatorTrace,
   type NetworkHeaders,
   type NetworkBody,
+  type NetworkSimulation,
+  type NetworkMockResult,
+  type NetworkHarExport,
 
   // Tool definitions
   networkIntelligenceTools,
-  createNetworkToolHandler,
 } from './network-intelligence-tools.js';
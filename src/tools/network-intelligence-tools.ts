@@ -8,43 +8,294 @@
  */
 
 import { z } from 'zod';
-import { Page } from 'playwright';
+import { isAbsolute, relative, resolve } from 'path';
+import { ConsoleMessage, Page, Request, Response } from 'playwright';
 import { SourceIntelligenceLayer } from '../index.js';
+import { getConfig, matchesPattern } from '../config.js';
+import {
+  buildHar,
+  CapturedExchange,
+  Har,
+  HarOptions,
+  importHar,
+  readHar,
+  writeHar,
+} from '../har.js';
+import type { NetworkTrace } from '../network-tracer.js';
+import { SourceMapResolver } from '../source-map-resolver.js';
+import { isSameUrl, navigateTo, reloadPage } from '../navigation.js';
+import {
+  AffectedRequest,
+  AppliedThrottle,
+  applyNetworkConditions,
+  NetworkConditionsSchema,
+} from '../network-conditions.js';
+import { AppliedMock, applyNetworkMocks, NetworkMocksSchema } from '../network-mocks.js';
+import { PageInfoSchema, PaginationSchema, PageInfo, paginate } from '../pagination.js';
+import { AbortError, RunContext, wait } from '../run-context.js';
+import { PolicyViolationError } from '../url-policy.js';
+import { defineTool, ToolDefinition } from './registry.js';
 
 // ==================== Zod Schemas ====================
 
-export const NetworkGetRequestsSchema = z.object({
-  url: z.string().url().describe('The page URL to analyze'),
+const HarPathSchema = z.object({
+  harPath: z
+    .string()
+    .optional()
+    .describe('Analyze this HAR file (inside the project root) instead of loading a page'),
+});
+
+export const NetworkGetRequestsSchema = z
+  .object({
+    url: z.string().url().optional().describe('The page URL to analyze (or give harPath)'),
+    waitTime: z
+      .number()
+      .optional()
+      .default(3000)
+      .describe('Time to wait for requests to complete (ms)'),
+  })
+  .merge(HarPathSchema)
+  .merge(PaginationSchema);
+
+export const NetworkGetByUrlSchema = z.object({
+  url: z.string().url().describe('The page URL'),
+  pattern: z
+    .string()
+    .describe("URL pattern to filter, * matches any characters (e.g., '*/api/*', '*.json')"),
+});
+
+export const NetworkGetTimingSchema = z
+  .object({
+    url: z.string().url().optional().describe('The page URL (or give harPath)'),
+    requestUrl: z.string().describe('The specific request URL to get timing for'),
+  })
+  .merge(HarPathSchema);
+
+export const NetworkTraceInitiatorSchema = z
+  .object({
+    url: z.string().url().optional().describe('The page URL (or give harPath)'),
+    requestUrl: z.string().describe('The specific request URL to trace'),
+  })
+  .merge(HarPathSchema);
+
+export const NetworkGetHeadersSchema = z
+  .object({
+    url: z.string().url().optional().describe('The page URL (or give harPath)'),
+    requestUrl: z.string().describe('The specific request URL to get headers for'),
+  })
+  .merge(HarPathSchema);
+
+export const NetworkGetBodySchema = z
+  .object({
+    url: z.string().url().optional().describe('The page URL (or give harPath)'),
+    requestUrl: z.string().describe('The specific request URL to get body for'),
+  })
+  .merge(HarPathSchema);
+
+export const NetworkSimulateSchema = z
+  .object({
+    url: z.string().url().describe('The page URL to load under the network conditions'),
+    offline: z
+      .object({
+        afterMs: z.number().int().min(0).describe('Go offline this long after the page loads (ms)'),
+        forMs: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe('Come back online after this long (ms); stays offline if omitted'),
+      })
+      .strict()
+      .optional()
+      .describe('Offline transition after the page has loaded'),
+    waitTime: z
+      .number()
+      .optional()
+      .default(5000)
+      .describe('Time to watch the page after load and offline transitions (ms)'),
+  })
+  .merge(NetworkConditionsSchema);
+
+export const NetworkMockSchema = z
+  .object({
+    url: z.string().url().describe('The page URL to load with the mocks in place'),
+    waitTime: z
+      .number()
+      .optional()
+      .default(3000)
+      .describe('Time to watch the page after load (ms)'),
+  })
+  .merge(NetworkMocksSchema);
+
+export const NetworkExportHarSchema = z.object({
+  url: z.string().url().describe('The page URL to capture'),
   waitTime: z
     .number()
     .optional()
     .default(3000)
     .describe('Time to wait for requests to complete (ms)'),
+  path: z
+    .string()
+    .optional()
+    .describe('HAR file to write, inside artifacts.dir (default: a timestamped file there)'),
+  includeBodies: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Include text request and response bodies'),
+  redact: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Redact authorization and cookie headers, cookies and secret parameters'),
+  redactKeys: z
+    .array(z.string())
+    .optional()
+    .describe('Further header, query and field names to redact (audit.redactKeys always are)'),
 });
 
-export const NetworkGetByUrlSchema = z.object({
-  url: z.string().url().describe('The page URL'),
-  pattern: z.string().describe("URL pattern to filter (e.g., '/api/*', '*.json')"),
+// ==================== Output Schemas ====================
+
+const RequestNotFoundSchema = z.object({
+  error: z.string(),
 });
 
-export const NetworkGetTimingSchema = z.object({
-  url: z.string().url().describe('The page URL'),
-  requestUrl: z.string().describe('The specific request URL to get timing for'),
+const StackLocationSchema = z.object({
+  file: z.string(),
+  line: z.number(),
+  column: z.number(),
+  function: z.string().optional(),
 });
 
-export const NetworkTraceInitiatorSchema = z.object({
-  url: z.string().url().describe('The page URL'),
-  requestUrl: z.string().describe('The specific request URL to trace'),
+const NetworkRequestOutputSchema = z.object({
+  url: z.string(),
+  method: z.string(),
+  status: z.number().optional(),
+  duration: z.number().optional(),
+  size: z.number().optional(),
+  timestamp: z.number(),
+  initiator: z
+    .object({
+      type: z.enum(['fetch', 'xhr', 'script', 'parser', 'other']),
+      lineNumber: z.number().optional(),
+      columnNumber: z.number().optional(),
+      url: z.string().optional(),
+    })
+    .optional(),
+  stackTrace: z.array(z.string()).optional(),
+  requestHeaders: z.record(z.string()).optional(),
+  responseHeaders: z.record(z.string()).optional(),
+  frameUrl: z.string().optional(),
 });
 
-export const NetworkGetHeadersSchema = z.object({
-  url: z.string().url().describe('The page URL'),
-  requestUrl: z.string().describe('The specific request URL to get headers for'),
+export const NetworkGetRequestsOutputSchema = z.object({
+  requests: z.array(NetworkRequestOutputSchema),
+  page: PageInfoSchema,
 });
 
-export const NetworkGetBodySchema = z.object({
-  url: z.string().url().describe('The page URL'),
-  requestUrl: z.string().describe('The specific request URL to get body for'),
+export const NetworkGetByUrlOutputSchema = z.object({
+  requests: z.array(NetworkRequestOutputSchema),
+});
+
+export const NetworkGetTimingOutputSchema = z.union([
+  z.object({
+    dns: z.number(),
+    connect: z.number(),
+    ssl: z.number(),
+    ttfb: z.number(),
+    download: z.number(),
+    total: z.number(),
+  }),
+  RequestNotFoundSchema,
+]);
+
+export const NetworkTraceInitiatorOutputSchema = z.union([
+  StackLocationSchema.extend({
+    stackTrace: z.array(StackLocationSchema),
+  }),
+  RequestNotFoundSchema,
+]);
+
+export const NetworkGetHeadersOutputSchema = z.union([
+  z.object({
+    requestHeaders: z.record(z.string()),
+    responseHeaders: z.record(z.string()),
+  }),
+  RequestNotFoundSchema,
+]);
+
+export const NetworkGetBodyOutputSchema = z.union([
+  z.object({
+    requestBody: z.string().nullable(),
+    responseBody: z.string().nullable(),
+    contentType: z.string(),
+  }),
+  RequestNotFoundSchema,
+]);
+
+const PageErrorsOutputSchema = z.array(
+  z.object({
+    source: z.enum(['console', 'pageerror']),
+    message: z.string(),
+    timestamp: z.number(),
+  })
+);
+
+export const NetworkSimulateOutputSchema = z.object({
+  url: z.string(),
+  throttling: z
+    .object({
+      latencyMs: z.number(),
+      downloadKbps: z.number().optional(),
+      uploadKbps: z.number().optional(),
+      via: z.enum(['cdp', 'route']),
+    })
+    .nullable(),
+  navigationError: z.string().optional(),
+  requests: z.number(),
+  affected: z.array(
+    z.object({
+      url: z.string(),
+      method: z.string(),
+      resourceType: z.string(),
+      fault: z.enum(['delay', 'abort', 'status', 'offline']),
+      detail: z.string(),
+      rule: z.number().optional(),
+      timestamp: z.number(),
+      initiator: NetworkRequestOutputSchema.shape.initiator,
+      stackTrace: z.array(z.string()).optional(),
+    })
+  ),
+  transitions: z.array(z.object({ offline: z.boolean(), timestamp: z.number() })),
+  errors: PageErrorsOutputSchema,
+});
+
+export const NetworkMockOutputSchema = z.object({
+  url: z.string(),
+  navigationError: z.string().optional(),
+  requests: z.number(),
+  applied: z.array(
+    z.object({
+      rule: z.number(),
+      url: z.string(),
+      method: z.string(),
+      operation: z.string().optional(),
+      action: z.enum(['fulfill', 'passthrough', 'delay']),
+      status: z.number().optional(),
+      error: z.string().optional(),
+      timestamp: z.number(),
+    })
+  ),
+  unusedRules: z.array(z.number()),
+  errors: PageErrorsOutputSchema,
+});
+
+export const NetworkExportHarOutputSchema = z.object({
+  path: z.string(),
+  entries: z.number(),
+  bytes: z.number(),
+  redacted: z.boolean(),
+  bodies: z.boolean(),
 });
 
 // ==================== Type Definitions ====================
@@ -65,6 +316,8 @@ export interface NetworkRequest {
   stackTrace?: string[];
   requestHeaders?: Record<string, string>;
   responseHeaders?: Record<string, string>;
+  /** Iframe or popup document that made the request; absent for the page itself */
+  frameUrl?: string;
 }
 
 export interface NetworkTiming {
@@ -100,6 +353,44 @@ export interface NetworkBody {
   contentType: string;
 }
 
+export interface NetworkSimulation {
+  url: string;
+  /** Throttling in effect, or null if the page was not throttled */
+  throttling: AppliedThrottle | null;
+  /** Why the page failed to load, when an injected fault broke the navigation */
+  navigationError?: string;
+  /** Requests the page made during the run */
+  requests: number;
+  /** Requests changed by a fault rule or by being offline, with their initiators */
+  affected: Array<AffectedRequest & Pick<NetworkRequest, 'initiator' | 'stackTrace'>>;
+  transitions: Array<{ offline: boolean; timestamp: number }>;
+  /** Console errors and uncaught exceptions seen during the run */
+  errors: Array<{ source: 'console' | 'pageerror'; message: string; timestamp: number }>;
+}
+
+export interface NetworkMockResult {
+  url: string;
+  /** Why the page failed to load, when a mock broke the navigation */
+  navigationError?: string;
+  /** Requests the page made during the run */
+  requests: number;
+  /** Requests answered or changed by a mock rule */
+  applied: AppliedMock[];
+  /** Rules no request matched, worth checking for a wrong pattern or operation */
+  unusedRules: number[];
+  /** Console errors and uncaught exceptions seen during the run */
+  errors: NetworkSimulation['errors'];
+}
+
+export interface NetworkHarExport {
+  /** HAR file written */
+  path: string;
+  entries: number;
+  bytes: number;
+  redacted: boolean;
+  bodies: boolean;
+}
+
 // ==================== Helper Functions ====================
 
 // Global storage for page-level network data
@@ -127,7 +418,8 @@ async function getOrCreateNetworkTracking(page: Page): Promise<{
     const responseMap = new Map<string, any>();
 
     // Set up Playwright event listeners FIRST (these capture ALL requests)
-    page.on('request', request => {
+    const onRequest = (request: Request) => {
+      const frameUrl = requestFrameUrl(page, request);
       requestMap.set(request.url(), {
         url: request.url(),
         method: request.method(),
@@ -135,10 +427,11 @@ async function getOrCreateNetworkTracking(page: Page): Promise<{
         postData: request.postData(),
         resourceType: request.resourceType(),
         timestamp: Date.now(),
+        ...(frameUrl && { frameUrl }),
       });
-    });
+    };
 
-    page.on('response', async response => {
+    const onResponse = async (response: Response) => {
       const request = response.request();
       const timing = request.timing();
 
@@ -160,7 +453,16 @@ async function getOrCreateNetworkTracking(page: Page): Promise<{
         timing: timing,
         body: body,
       });
-    });
+    };
+
+    // Requests of iframes are reported by their page; popups opened by the page
+    // (e.g. OAuth windows) are tracked as part of it
+    const track = (target: Page) => {
+      target.on('request', onRequest);
+      target.on('response', onResponse);
+      target.on('popup', track);
+    };
+    track(page);
 
     // Initialize intelligence layer (sets up network tracer)
     await intelligence.initialize(page);
@@ -178,7 +480,8 @@ async function getOrCreateNetworkTracking(page: Page): Promise<{
 async function initializePageWithNetworkTracking(
   page: Page,
   url: string,
-  waitTime: number = 3000
+  waitTime: number = 3000,
+  run: RunContext = {}
 ): Promise<{
   intelligence: SourceIntelligenceLayer;
   requestMap: Map<string, any>;
@@ -189,17 +492,15 @@ async function initializePageWithNetworkTracking(
 
   // Only navigate if we're not already at the target URL
   // This prevents double-navigations and capturing unwanted requests
-  const currentUrl = page.url();
-  if (currentUrl !== url) {
+  if (!isSameUrl(page.url(), url)) {
     // Clear existing data before navigation to avoid pollution
     requestMap.clear();
     responseMap.clear();
     intelligence.clearNetworkTraces();
-
-    await page.goto(url, { waitUntil: 'networkidle' });
   }
+  await navigateTo(page, url, run);
 
-  await page.waitForTimeout(waitTime);
+  await wait(waitTime, run, 'Capturing network requests');
 
   return { intelligence, requestMap, responseMap };
 }
@@ -217,11 +518,175 @@ export function clearNetworkData(page: Page): void {
 }
 
 /**
- * Match request URL using pattern (supports wildcards)
+ * Requests, responses and traces a tool reads, from a page or an imported HAR file
  */
-function matchesPattern(url: string, pattern: string): boolean {
-  const regex = new RegExp('^' + pattern.replace(/\*/g, '.*').replace(/\?/g, '.') + '$');
-  return regex.test(url);
+interface NetworkCapture {
+  traces: NetworkTrace[];
+  requestMap: Map<string, any>;
+  responseMap: Map<string, any>;
+  /** URL relative trace URLs are resolved against */
+  pageUrl: string;
+}
+
+/**
+ * Traffic of a HAR file, with initiator stacks mapped to original sources where the
+ * scripts' source maps can be found (in the HAR, through overrides or online)
+ */
+async function loadHarCapture(page: Page, harPath: string): Promise<NetworkCapture> {
+  const config = getConfig();
+  const path = resolve(config.projectRoot, harPath);
+
+  // Paths come from the client, so only project files and exported HARs are read
+  if (!isInside(path, config.projectRoot) && !isInside(path, config.artifacts.dir)) {
+    throw new Error(`HAR path must be inside the project root or artifacts.dir: ${harPath}`);
+  }
+  const har = await readHar(path);
+
+  const resolver = new SourceMapResolver();
+  await resolver.initialize(page);
+  let exchanges: CapturedExchange[];
+  try {
+    for (const entry of har.log.entries) {
+      const { text, encoding } = entry.response.content ?? {};
+      if (text === undefined) continue;
+
+      const body = encoding === 'base64' ? Buffer.from(text, 'base64').toString('utf-8') : text;
+      if (entry.request.url.split('?')[0].endsWith('.map')) {
+        resolver.registerSourceMap(entry.request.url, body);
+      } else {
+        const headers = Object.fromEntries(
+          entry.response.headers.map(({ name, value }) => [name.toLowerCase(), value])
+        );
+        resolver.registerScript(entry.request.url, headers, body);
+      }
+    }
+
+    exchanges = await importHar(har, (url, line, column) =>
+      // A source map that cannot be fetched leaves the generated location
+      resolver.resolveLocation(url, line, column).catch(() => null)
+    );
+  } finally {
+    await resolver.destroy();
+  }
+
+  const requestMap = new Map<string, any>();
+  const responseMap = new Map<string, any>();
+  const traces: NetworkTrace[] = [];
+  for (const { request, response, trace } of exchanges) {
+    requestMap.set(request.url, request);
+    if (response) responseMap.set(response.url, response);
+    if (trace) traces.push(trace);
+  }
+
+  return { traces, requestMap, responseMap, pageUrl: har.log.entries[0]?.request.url ?? '' };
+}
+
+/**
+ * Traffic a tool reads: an imported HAR file, or what the page has captured so far
+ */
+async function readCapture(
+  page: Page,
+  harPath: string | undefined,
+  run: RunContext
+): Promise<NetworkCapture> {
+  if (harPath) {
+    return loadHarCapture(page, harPath);
+  }
+
+  // Use existing tracking data instead of creating new listeners
+  const { intelligence, requestMap, responseMap } = await getOrCreateNetworkTracking(page);
+
+  // These tools read the page as it is, so interaction steps run here
+  await run.steps?.run(page, run);
+
+  // Wait briefly for any pending data
+  await wait(500, run);
+
+  return { traces: intelligence.getNetworkTraces(), requestMap, responseMap, pageUrl: page.url() };
+}
+
+/**
+ * URL of the iframe or popup document that made a request, if it was not the page itself
+ */
+function requestFrameUrl(page: Page, request: Request): string | undefined {
+  try {
+    const frame = request.frame();
+    return frame === page.mainFrame() ? undefined : frame.url();
+  } catch {
+    // Service worker requests have no frame
+    return undefined;
+  }
+}
+
+/**
+ * Count the requests of a page and collect its console errors and uncaught exceptions
+ * until `stop` is called
+ */
+function watchPage(page: Page): {
+  readonly requests: number;
+  errors: NetworkSimulation['errors'];
+  stop: () => void;
+} {
+  const errors: NetworkSimulation['errors'] = [];
+  let requests = 0;
+
+  const onRequest = () => requests++;
+  const onConsole = (message: ConsoleMessage) => {
+    if (message.type() === 'error') {
+      errors.push({ source: 'console', message: message.text(), timestamp: Date.now() });
+    }
+  };
+  const onPageError = (error: Error) => {
+    errors.push({ source: 'pageerror', message: error.message, timestamp: Date.now() });
+  };
+  page.on('request', onRequest);
+  page.on('console', onConsole);
+  page.on('pageerror', onPageError);
+
+  return {
+    get requests() {
+      return requests;
+    },
+    errors,
+    stop: () => {
+      page.off('request', onRequest);
+      page.off('console', onConsole);
+      page.off('pageerror', onPageError);
+    },
+  };
+}
+
+/**
+ * Load a page whose network has been tampered with, reloading it if it is already shown
+ * so the changes apply. Returns why the load failed instead of throwing, since a broken
+ * load is often the outcome being tested; policy violations and cancellation still throw.
+ */
+async function loadUnderTest(
+  page: Page,
+  url: string,
+  run: RunContext
+): Promise<string | undefined> {
+  try {
+    if (isSameUrl(page.url(), url)) {
+      await reloadPage(page, run);
+    } else {
+      await navigateTo(page, url, run);
+    }
+    return undefined;
+  } catch (error) {
+    if (error instanceof PolicyViolationError || error instanceof AbortError) {
+      throw error;
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Whether a resolved path lies within a directory
+ */
+function isInside(path: string, dir: string): boolean {
+  const fromDir = relative(dir, path);
+  return !fromDir.startsWith('..') && !isAbsolute(fromDir);
 }
 
 /**
@@ -262,19 +727,54 @@ function parseStackTrace(stackTrace: string[]): InitiatorTrace['stackTrace'] {
 // ==================== Tool Implementations ====================
 
 /**
- * Get all network requests for a page
+ * Get all network requests for a page, a page of results at a time
  */
 export async function networkGetRequests(
   page: Page,
-  params: z.infer<typeof NetworkGetRequestsSchema>
+  params: z.infer<typeof NetworkGetRequestsSchema>,
+  run: RunContext = {}
+): Promise<{ requests: NetworkRequest[]; page: PageInfo }> {
+  const { url, harPath } = params;
+  if (!url && !harPath) {
+    throw new Error('Pass either url or harPath');
+  }
+
+  return paginate('network_get_requests', params, run, ['requests'], async () =>
+    harPath
+      ? listRequests(await loadHarCapture(page, harPath))
+      : collectRequests(page, url!, params.waitTime, run)
+  );
+}
+
+/**
+ * Load a page and collect every request it makes, with stack traces where available
+ */
+async function collectRequests(
+  page: Page,
+  url: string,
+  waitTime: number,
+  run: RunContext
 ): Promise<{ requests: NetworkRequest[] }> {
   const { intelligence, requestMap, responseMap } = await initializePageWithNetworkTracking(
     page,
-    params.url,
-    params.waitTime
+    url,
+    waitTime,
+    run
   );
 
-  const traces = intelligence.getNetworkTraces();
+  return listRequests({
+    traces: intelligence.getNetworkTraces(),
+    requestMap,
+    responseMap,
+    pageUrl: page.url(),
+  });
+}
+
+/**
+ * Every captured request, with stack traces where available
+ */
+function listRequests(capture: NetworkCapture): { requests: NetworkRequest[] } {
+  const { traces, requestMap, responseMap } = capture;
   const requests: NetworkRequest[] = [];
   const processedUrls = new Set<string>();
 
@@ -286,7 +786,7 @@ export async function networkGetRequests(
         return url;
       }
       // If it's relative, try to resolve it against page URL
-      const pageUrl = page.url();
+      const pageUrl = capture.pageUrl;
       if (pageUrl && pageUrl !== 'about:blank') {
         return new URL(url, pageUrl).href;
       }
@@ -317,6 +817,7 @@ export async function networkGetRequests(
       stackTrace: trace.stackTrace,
       requestHeaders: requestData?.headers,
       responseHeaders: responseData?.headers,
+      frameUrl: trace.frameUrl,
     });
 
     // Mark both URLs as processed to avoid duplicates
@@ -342,6 +843,7 @@ export async function networkGetRequests(
         timestamp: requestData.timestamp,
         requestHeaders: requestData.headers,
         responseHeaders: responseData?.headers,
+        frameUrl: requestData.frameUrl,
       });
       processedUrls.add(url);
     }
@@ -355,12 +857,10 @@ export async function networkGetRequests(
  */
 export async function networkGetByUrl(
   page: Page,
-  params: z.infer<typeof NetworkGetByUrlSchema>
+  params: z.infer<typeof NetworkGetByUrlSchema>,
+  run: RunContext = {}
 ): Promise<{ requests: NetworkRequest[] }> {
-  const { requests } = await networkGetRequests(page, {
-    url: params.url,
-    waitTime: 3000,
-  });
+  const { requests } = await collectRequests(page, params.url, 3000, run);
 
   const filteredRequests = requests.filter(req => matchesPattern(req.url, params.pattern));
 
@@ -381,13 +881,10 @@ export async function networkGetByUrl(
  */
 export async function networkGetTiming(
   page: Page,
-  params: z.infer<typeof NetworkGetTimingSchema>
+  params: z.infer<typeof NetworkGetTimingSchema>,
+  run: RunContext = {}
 ): Promise<NetworkTiming | { error: string }> {
-  // Use existing tracking data instead of creating new listeners
-  const { responseMap } = await getOrCreateNetworkTracking(page);
-
-  // Wait briefly for any pending responses
-  await page.waitForTimeout(500);
+  const { responseMap } = await readCapture(page, params.harPath, run);
 
   const responseData = responseMap.get(params.requestUrl);
 
@@ -405,15 +902,11 @@ export async function networkGetTiming(
  */
 export async function networkTraceInitiator(
   page: Page,
-  params: z.infer<typeof NetworkTraceInitiatorSchema>
+  params: z.infer<typeof NetworkTraceInitiatorSchema>,
+  run: RunContext = {}
 ): Promise<InitiatorTrace | { error: string }> {
-  // Use existing intelligence layer
-  const { intelligence } = await getOrCreateNetworkTracking(page);
-
-  // Wait briefly for any pending traces
-  await page.waitForTimeout(500);
+  const { traces } = await readCapture(page, params.harPath, run);
 
-  const traces = intelligence.getNetworkTraces();
   const targetTrace = traces.find(t => t.url === params.requestUrl);
 
   if (!targetTrace) {
@@ -453,13 +946,10 @@ export async function networkTraceInitiator(
  */
 export async function networkGetHeaders(
   page: Page,
-  params: z.infer<typeof NetworkGetHeadersSchema>
+  params: z.infer<typeof NetworkGetHeadersSchema>,
+  run: RunContext = {}
 ): Promise<NetworkHeaders | { error: string }> {
-  // Use existing tracking data
-  const { requestMap, responseMap } = await getOrCreateNetworkTracking(page);
-
-  // Wait briefly for any pending data
-  await page.waitForTimeout(500);
+  const { requestMap, responseMap } = await readCapture(page, params.harPath, run);
 
   const requestData = requestMap.get(params.requestUrl);
   const responseData = responseMap.get(params.requestUrl);
@@ -481,13 +971,10 @@ export async function networkGetHeaders(
  */
 export async function networkGetBody(
   page: Page,
-  params: z.infer<typeof NetworkGetBodySchema>
+  params: z.infer<typeof NetworkGetBodySchema>,
+  run: RunContext = {}
 ): Promise<NetworkBody | { error: string }> {
-  // Use existing tracking data
-  const { requestMap, responseMap } = await getOrCreateNetworkTracking(page);
-
-  // Wait briefly for any pending data
-  await page.waitForTimeout(500);
+  const { requestMap, responseMap } = await readCapture(page, params.harPath, run);
 
   const requestData = requestMap.get(params.requestUrl);
   const responseData = responseMap.get(params.requestUrl);
@@ -507,166 +994,256 @@ export async function networkGetBody(
   };
 }
 
+/**
+ * Load a page under throttling and injected faults, optionally go offline, and report
+ * which requests were affected and how the page reacted
+ *
+ * The conditions stay on the page afterwards, so a session can be inspected with other
+ * tools while still throttled; call again without preset, throttle or faults to clear them.
+ */
+export async function networkSimulate(
+  page: Page,
+  params: z.infer<typeof NetworkSimulateSchema>,
+  run: RunContext = {}
+): Promise<NetworkSimulation> {
+  const { intelligence } = await getOrCreateNetworkTracking(page);
+  clearNetworkData(page);
+
+  const conditions = await applyNetworkConditions(page, params);
+  const transitions: NetworkSimulation['transitions'] = [];
+  const watch = watchPage(page);
+
+  const goOffline = async (offline: boolean) => {
+    await conditions.setOffline(offline);
+    transitions.push({ offline, timestamp: Date.now() });
+  };
+
+  let navigationError: string | undefined;
+  try {
+    // A session already showing the page reloads it under the new conditions
+    navigationError = await loadUnderTest(page, params.url, run);
+
+    if (params.offline) {
+      await wait(params.offline.afterMs, run, 'Waiting to go offline');
+      await goOffline(true);
+      if (params.offline.forMs) {
+        await wait(params.offline.forMs, run, 'Offline');
+        await goOffline(false);
+      }
+    }
+
+    await wait(params.waitTime, run, 'Watching the page');
+  } finally {
+    watch.stop();
+  }
+
+  const traces = intelligence.getNetworkTraces();
+  return {
+    url: params.url,
+    throttling: conditions.throttling,
+    ...(navigationError && { navigationError }),
+    requests: watch.requests,
+    affected: conditions.affected.map(request => {
+      const trace = traces.find(t => t.url === request.url);
+      return trace
+        ? { ...request, initiator: trace.initiator, stackTrace: trace.stackTrace }
+        : request;
+    }),
+    transitions,
+    errors: watch.errors,
+  };
+}
+
+/**
+ * Load a page with mock rules answering its requests, and report which requests were
+ * mocked and how the page reacted
+ *
+ * The mocks stay on the page afterwards, so a session can be inspected with other tools
+ * (e.g. component_get_state) against the mocked responses; call again without rules to
+ * clear them.
+ */
+export async function networkMock(
+  page: Page,
+  params: z.infer<typeof NetworkMockSchema>,
+  run: RunContext = {}
+): Promise<NetworkMockResult> {
+  const mocks = await applyNetworkMocks(page, params);
+  const watch = watchPage(page);
+
+  let navigationError: string | undefined;
+  try {
+    // A session already showing the page reloads it with the mocks in place
+    navigationError = await loadUnderTest(page, params.url, run);
+    await wait(params.waitTime, run, 'Watching the page');
+  } finally {
+    watch.stop();
+  }
+
+  return {
+    url: params.url,
+    ...(navigationError && { navigationError }),
+    requests: watch.requests,
+    applied: mocks.applied,
+    unusedRules: mocks.unusedRules,
+    errors: watch.errors,
+  };
+}
+
+/**
+ * HAR 1.2 log of the requests captured on a page so far, with the initiator stack of
+ * each request in `_initiator`
+ */
+export async function exportHar(page: Page, options: HarOptions = {}): Promise<Har> {
+  const { intelligence, requestMap, responseMap } = await getOrCreateNetworkTracking(page);
+
+  // Traces may carry URLs relative to the page
+  const traces = new Map<string, NetworkTrace>();
+  for (const trace of intelligence.getNetworkTraces()) {
+    try {
+      traces.set(new URL(trace.url, page.url()).href, trace);
+    } catch {
+      traces.set(trace.url, trace);
+    }
+  }
+
+  const exchanges: CapturedExchange[] = Array.from(requestMap.values()).map(request => ({
+    request,
+    response: responseMap.get(request.url),
+    trace: traces.get(request.url),
+  }));
+
+  return buildHar(exchanges, {
+    page: { url: page.url(), title: await page.title().catch(() => '') },
+    ...options,
+  });
+}
+
+/**
+ * Load a page and write the traffic it made to a HAR file
+ */
+export async function networkExportHar(
+  page: Page,
+  params: z.infer<typeof NetworkExportHarSchema>,
+  run: RunContext = {}
+): Promise<NetworkHarExport> {
+  await initializePageWithNetworkTracking(page, params.url, params.waitTime, run);
+
+  const config = getConfig();
+  const har = await exportHar(page, {
+    includeBodies: params.includeBodies,
+    redact: params.redact,
+    redactKeys: [...config.audit.redactKeys, ...(params.redactKeys ?? [])],
+  });
+
+  const time = new Date().toISOString().replace(/[:.]/g, '-');
+  const path = resolve(
+    config.artifacts.dir,
+    params.path ?? `${time}-${new URL(params.url).hostname}.har`
+  );
+
+  // Explicit paths come from the client, so keep them inside the artifacts directory
+  if (params.path && !isInside(path, config.artifacts.dir)) {
+    throw new Error(`HAR path must be inside the artifacts directory: ${params.path}`);
+  }
+  const bytes = writeHar(path, har);
+
+  return {
+    path,
+    entries: har.log.entries.length,
+    bytes,
+    redacted: params.redact,
+    bodies: params.includeBodies,
+  };
+}
+
 // ==================== Tool Definitions for MCP ====================
 
 /**
  * Tool definitions compatible with MCP server
  */
-export const networkIntelligenceTools = [
-  {
+export const networkIntelligenceTools: ToolDefinition[] = [
+  defineTool({
     name: 'network_get_requests',
-    description: 'Get all network requests made by a page with detailed information',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The page URL to analyze',
-        },
-        waitTime: {
-          type: 'number',
-          description: 'Time to wait for requests to complete (ms)',
-          default: 3000,
-        },
-      },
-      required: ['url'],
-    },
-  },
-  {
+    description:
+      'Get all network requests made by a page, or recorded in a HAR file, with detailed ' +
+      'information',
+    inputSchema: NetworkGetRequestsSchema,
+    outputSchema: NetworkGetRequestsOutputSchema,
+    handler: networkGetRequests,
+  }),
+  defineTool({
     name: 'network_get_by_url',
     description: 'Filter network requests by URL pattern (supports wildcards)',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The page URL',
-        },
-        pattern: {
-          type: 'string',
-          description: "URL pattern to filter (e.g., '/api/*', '*.json')",
-        },
-      },
-      required: ['url', 'pattern'],
-    },
-  },
-  {
+    inputSchema: NetworkGetByUrlSchema,
+    outputSchema: NetworkGetByUrlOutputSchema,
+    handler: networkGetByUrl,
+  }),
+  defineTool({
     name: 'network_get_timing',
     description: 'Get detailed timing metrics for a specific network request',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The page URL',
-        },
-        requestUrl: {
-          type: 'string',
-          description: 'The specific request URL to get timing for',
-        },
-      },
-      required: ['url', 'requestUrl'],
-    },
-  },
-  {
+    inputSchema: NetworkGetTimingSchema,
+    outputSchema: NetworkGetTimingOutputSchema,
+    handler: networkGetTiming,
+  }),
+  defineTool({
     name: 'network_trace_initiator',
     description: 'Trace a network request to its source code origin',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The page URL',
-        },
-        requestUrl: {
-          type: 'string',
-          description: 'The specific request URL to trace',
-        },
-      },
-      required: ['url', 'requestUrl'],
-    },
-  },
-  {
+    inputSchema: NetworkTraceInitiatorSchema,
+    outputSchema: NetworkTraceInitiatorOutputSchema,
+    handler: networkTraceInitiator,
+  }),
+  defineTool({
     name: 'network_get_headers',
     description: 'Get request and response headers for a specific network request',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The page URL',
-        },
-        requestUrl: {
-          type: 'string',
-          description: 'The specific request URL to get headers for',
-        },
-      },
-      required: ['url', 'requestUrl'],
-    },
-  },
-  {
+    inputSchema: NetworkGetHeadersSchema,
+    outputSchema: NetworkGetHeadersOutputSchema,
+    handler: networkGetHeaders,
+  }),
+  defineTool({
     name: 'network_get_body',
     description: 'Get request and response body for a specific network request',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The page URL',
-        },
-        requestUrl: {
-          type: 'string',
-          description: 'The specific request URL to get body for',
-        },
-      },
-      required: ['url', 'requestUrl'],
-    },
-  },
+    inputSchema: NetworkGetBodySchema,
+    outputSchema: NetworkGetBodyOutputSchema,
+    handler: networkGetBody,
+  }),
+  defineTool({
+    name: 'network_simulate',
+    description:
+      'Load a page under slow-3G or custom throttling, injected delays, aborts and error ' +
+      'statuses, or an offline transition, and report the affected requests and page errors',
+    inputSchema: NetworkSimulateSchema,
+    outputSchema: NetworkSimulateOutputSchema,
+    summarize: (result: NetworkSimulation) =>
+      `${result.affected.length} of ${result.requests} requests affected, ` +
+      `${result.errors.length} errors` +
+      (result.navigationError ? ` (navigation failed: ${result.navigationError})` : ''),
+    handler: networkSimulate,
+  }),
+  defineTool({
+    name: 'network_mock',
+    description:
+      'Load a page with mocked API responses (fixed status, body or file, delays, or changed ' +
+      'real responses, matched by URL, method or GraphQL operation) and report what was mocked',
+    inputSchema: NetworkMockSchema,
+    outputSchema: NetworkMockOutputSchema,
+    summarize: (result: NetworkMockResult) =>
+      `${result.applied.length} of ${result.requests} requests mocked, ` +
+      `${result.unusedRules.length} rules unused, ${result.errors.length} errors` +
+      (result.navigationError ? ` (navigation failed: ${result.navigationError})` : ''),
+    handler: networkMock,
+  }),
+  defineTool({
+    name: 'network_export_har',
+    description:
+      'Load a page and write its network traffic to a HAR 1.2 file, with the source ' +
+      'stack of each request in _initiator and secrets redacted',
+    inputSchema: NetworkExportHarSchema,
+    outputSchema: NetworkExportHarOutputSchema,
+    summarize: (result: NetworkHarExport) =>
+      `Wrote ${result.entries} requests (${result.bytes} bytes) to ${result.path}`,
+    handler: networkExportHar,
+  }),
 ];
 
-// ==================== Tool Handler Factory ====================
-
-/**
- * Create a tool handler for the MCP server
- */
-export function createNetworkToolHandler(page: Page) {
-  return async (toolName: string, args: any): Promise<any> => {
-    switch (toolName) {
-      case 'network_get_requests': {
-        const params = NetworkGetRequestsSchema.parse(args);
-        return await networkGetRequests(page, params);
-      }
-
-      case 'network_get_by_url': {
-        const params = NetworkGetByUrlSchema.parse(args);
-        return await networkGetByUrl(page, params);
-      }
-
-      case 'network_get_timing': {
-        const params = NetworkGetTimingSchema.parse(args);
-        return await networkGetTiming(page, params);
-      }
-
-      case 'network_trace_initiator': {
-        const params = NetworkTraceInitiatorSchema.parse(args);
-        return await networkTraceInitiator(page, params);
-      }
-
-      case 'network_get_headers': {
-        const params = NetworkGetHeadersSchema.parse(args);
-        return await networkGetHeaders(page, params);
-      }
-
-      case 'network_get_body': {
-        const params = NetworkGetBodySchema.parse(args);
-        return await networkGetBody(page, params);
-      }
-
-      default:
-        throw new Error(`Unknown network tool: ${toolName}`);
-    }
-  };
-}
-
 // ==================== Exports ====================
 // All exports are already defined above with their declarations
@@ -0,0 +1,111 @@
+/**
+ * Page Tools for WebSee MCP Server
+ *
+ * Tools that capture what the page looks like, returned as MCP image content.
+ *
+ * @module page-tools
+ */
+
+import { z } from 'zod';
+import { Page } from 'playwright';
+import { ComponentTracker } from '../component-tracker.js';
+import { navigateTo } from '../navigation.js';
+import { RunContext, reportProgress } from '../run-context.js';
+import { captureScreenshot, ImageAttachment } from '../screenshots.js';
+import { defineTool, ToolDefinition } from './registry.js';
+
+// ============================================================================
+// Zod Schemas
+// ============================================================================
+
+export const ScreenshotTargetSchema = z
+  .enum(['viewport', 'fullPage', 'element', 'component'])
+  .describe(
+    'What to capture: the visible viewport, the full scrollable page, the element at `selector`, ' +
+      'or the bounding box of the component rendering the element at `selector`'
+  );
+
+export const PageScreenshotSchema = z.object({
+  url: z.string().url().describe('The page URL'),
+  target: ScreenshotTargetSchema.optional().default('viewport'),
+  selector: z
+    .string()
+    .optional()
+    .describe(
+      'CSS selector for the element or component (required for element and component targets)'
+    ),
+  format: z.enum(['png', 'jpeg']).optional().default('png').describe('Image format'),
+  quality: z.number().min(0).max(100).optional().describe('JPEG quality (0-100)'),
+});
+
+// ============================================================================
+// Output Schemas
+// ============================================================================
+
+/**
+ * Screenshot metadata in structured results; the pixels are sent as an image content block
+ */
+export const ImageAttachmentSchema = z.object({
+  mimeType: z.string(),
+  target: z.string(),
+  bytes: z.number(),
+  path: z.string().optional(),
+});
+
+export const PageScreenshotOutputSchema = z.object({
+  url: z.string(),
+  selector: z.string().optional(),
+  screenshot: ImageAttachmentSchema,
+});
+
+// ============================================================================
+// Tool Implementations
+// ============================================================================
+
+/**
+ * Capture a screenshot of the page, an element or a component
+ */
+export async function pageScreenshot(
+  page: Page,
+  params: z.infer<typeof PageScreenshotSchema>,
+  run: RunContext = {}
+): Promise<{ url: string; selector?: string; screenshot: ImageAttachment }> {
+  // The component hook must be installed before the page loads
+  let tracker: ComponentTracker | undefined;
+  if (params.target === 'component') {
+    tracker = new ComponentTracker();
+    await tracker.initialize(page);
+  }
+
+  await navigateTo(page, params.url, run);
+  reportProgress(run, `Capturing ${params.target} screenshot`);
+
+  const screenshot = await captureScreenshot(page, {
+    target: params.target,
+    selector: params.selector,
+    format: params.format,
+    quality: params.quality,
+    tracker,
+  });
+
+  return { url: page.url(), selector: params.selector, screenshot };
+}
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+export const PAGE_TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: 'page_screenshot',
+    description:
+      'Capture a screenshot of the viewport, the full page, a single element or a component bounding box (returned as image content)',
+    inputSchema: PageScreenshotSchema,
+    outputSchema: PageScreenshotOutputSchema,
+    handler: pageScreenshot,
+    summarize: result =>
+      `Captured ${result.screenshot.target} screenshot of ${result.url}` +
+      (result.selector ? ` at ${result.selector}` : '') +
+      ` (${Math.round(result.screenshot.bytes / 1024)} KB)`,
+  }),
+];
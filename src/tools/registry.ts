@@ -0,0 +1,325 @@
+/**
+ * Tool Registry for WebSee MCP Server
+ *
+ * Every tool is declared once with its Zod input schema, output schema and
+ * handler. The registry generates the MCP JSON Schema from Zod, validates
+ * arguments before any handler runs, looks tools up by name and turns results
+ * into `structuredContent` plus a short text summary. Screenshots in a result
+ * become `image` content blocks. Results larger than `output.maxResponseBytes`
+ * are shrunk and the omissions reported in `_meta["websee/truncation"]`.
+ *
+ * @module tool-registry
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { Page } from 'playwright';
+import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { SessionManager } from '../session-manager.js';
+import { getConfig } from '../config.js';
+import { fitToBudget, Truncation } from '../pagination.js';
+import { RunContext } from '../run-context.js';
+import { createLogger } from '../logger.js';
+import { ImageAttachment } from '../screenshots.js';
+import { StepOutcome, summarizeSteps } from '../steps.js';
+import { ArtifactReport, summarizeArtifacts } from '../artifacts.js';
+
+const logger = createLogger('tool-registry');
+
+const MAX_SUMMARY_FIELDS = 6;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface BaseToolDefinition<S extends z.AnyZodObject> {
+  name: string;
+  description: string;
+  inputSchema: S;
+  /** Shape of the result, returned to the client as `structuredContent` */
+  outputSchema?: z.ZodTypeAny;
+  /** One-line human summary of a result (defaults to counts of its top-level fields) */
+  summarize?: (result: any) => string;
+}
+
+/**
+ * Tool that runs against a browser page (a fresh page or a session's live page)
+ */
+export interface PageToolDefinition<S extends z.AnyZodObject = z.AnyZodObject>
+  extends BaseToolDefinition<S> {
+  scope: 'page';
+  handler: (page: Page, params: z.infer<S>, run: RunContext) => Promise<unknown>;
+}
+
+/**
+ * Tool that manages sessions and needs no page of its own
+ */
+export interface SessionToolDefinition<S extends z.AnyZodObject = z.AnyZodObject>
+  extends BaseToolDefinition<S> {
+  scope: 'sessions';
+  handler: (sessions: SessionManager, params: z.infer<S>, run: RunContext) => Promise<unknown>;
+}
+
+export type ToolDefinition = PageToolDefinition<any> | SessionToolDefinition<any>;
+
+interface RegisteredTool {
+  definition: ToolDefinition;
+  inputSchema: z.AnyZodObject;
+  listing: Tool;
+}
+
+/**
+ * What a page tool call reports besides its result
+ */
+export interface ResultExtras {
+  steps?: StepOutcome[];
+  artifacts?: ArtifactReport;
+}
+
+// ============================================================================
+// Tool Declaration
+// ============================================================================
+
+/**
+ * Declare a tool that runs against a browser page
+ */
+export function defineTool<S extends z.AnyZodObject>(
+  definition: Omit<PageToolDefinition<S>, 'scope'>
+): PageToolDefinition<S> {
+  return { ...definition, scope: 'page' };
+}
+
+/**
+ * Declare a tool that works on the session registry
+ */
+export function defineSessionTool<S extends z.AnyZodObject>(
+  definition: Omit<SessionToolDefinition<S>, 'scope'>
+): SessionToolDefinition<S> {
+  return { ...definition, scope: 'sessions' };
+}
+
+/**
+ * Convert a Zod schema to the JSON Schema object used in MCP tool listings
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const { $schema: _, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<
+    string,
+    unknown
+  >;
+  return jsonSchema;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Lookup table of tools by name.
+ *
+ * Parameters shared by every page tool (e.g. `sessionId`) are merged into each
+ * page tool's input schema, so they are listed and validated like the tool's own.
+ */
+export class ToolRegistry<P extends z.AnyZodObject = z.ZodObject<{}>> {
+  private tools = new Map<string, RegisteredTool>();
+
+  constructor(
+    definitions: ToolDefinition[],
+    private pageParams: P = z.object({}) as z.AnyZodObject as P
+  ) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  /**
+   * Add a tool; names must be unique
+   */
+  register(definition: ToolDefinition): void {
+    if (this.tools.has(definition.name)) {
+      throw new Error(`Duplicate tool name: ${definition.name}`);
+    }
+
+    const inputSchema =
+      definition.scope === 'page'
+        ? definition.inputSchema.merge(this.pageParams)
+        : definition.inputSchema;
+
+    const listing: Tool = {
+      name: definition.name,
+      description: definition.description,
+      inputSchema: toJsonSchema(inputSchema) as Tool['inputSchema'],
+    };
+    if (definition.outputSchema) {
+      // MCP requires an object at the root; unions of objects become `anyOf` under it
+      listing.outputSchema = {
+        type: 'object',
+        ...toJsonSchema(definition.outputSchema),
+      } as Tool['outputSchema'];
+    }
+
+    this.tools.set(definition.name, { definition, inputSchema, listing });
+  }
+
+  /**
+   * Get a tool by name
+   */
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name)?.definition;
+  }
+
+  /**
+   * Tool listings for `tools/list`
+   */
+  list(): Tool[] {
+    return Array.from(this.tools.values()).map(tool => tool.listing);
+  }
+
+  /**
+   * Validate arguments against a tool's input schema (including shared page parameters)
+   *
+   * The shared parameters are typed for callers; session tools never have them, and
+   * the tool's own parameters are left to its handler.
+   *
+   * @throws z.ZodError if the arguments are invalid
+   */
+  parse(name: string, args: unknown): Record<string, unknown> & Partial<z.infer<P>> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+    return tool.inputSchema.parse(args ?? {});
+  }
+
+  /**
+   * Build the MCP result for a tool's return value.
+   *
+   * Results over the response byte budget are shrunk before they are validated. Tools with
+   * an output schema return the value as `structuredContent`, and every tool also returns it
+   * as a JSON text block for clients that do not read structured content. A result that
+   * does not match the output schema is logged as schema drift and only sent as text, since
+   * clients reject `structuredContent` that does not match the declared schema. A `null`
+   * result means nothing was found and is reported as a tool error. Outcomes of the
+   * call's interaction steps are reported in `_meta["websee/steps"]`, saved traces and
+   * videos in `_meta["websee/artifacts"]`.
+   */
+  toCallToolResult(name: string, result: unknown, extras: ResultExtras = {}): CallToolResult {
+    const definition = this.get(name);
+    const { steps, artifacts } = extras;
+    const extrasMeta = {
+      ...(steps && { 'websee/steps': steps }),
+      ...(artifacts && { 'websee/artifacts': artifacts }),
+    };
+    const extrasSummary = [
+      ...(steps ? [summarizeSteps(steps)] : []),
+      ...(artifacts ? [summarizeArtifacts(artifacts)] : []),
+    ];
+
+    if (result === null || result === undefined) {
+      const text = [`${name}: no result found for these arguments`, ...extrasSummary].join(' ');
+      return {
+        content: [{ type: 'text', text }],
+        isError: true,
+        ...(extrasSummary.length > 0 && { _meta: extrasMeta }),
+      };
+    }
+
+    const images = collectImages(result);
+    const { value, truncation } = fitToBudget(result, getConfig().output.maxResponseBytes);
+    if (truncation) {
+      logger.debug(
+        `Result of ${name} shrunk from ${truncation.originalBytes} to ${truncation.bytes} bytes`
+      );
+    }
+
+    let structured: Record<string, unknown> | undefined;
+    if (definition?.outputSchema) {
+      const parsed = definition.outputSchema.safeParse(value);
+      if (parsed.success) {
+        structured = parsed.data;
+      } else {
+        logger.warn(`Result of ${name} does not match its output schema`, parsed.error.issues);
+      }
+    }
+
+    let summary = definition?.summarize?.(result) ?? summarizeResult(name, result);
+    if (truncation) {
+      summary += ` ${describeTruncation(truncation)}`;
+    }
+    for (const extra of extrasSummary) {
+      summary += ` ${extra}`;
+    }
+
+    return {
+      content: [
+        { type: 'text', text: summary },
+        { type: 'text', text: JSON.stringify(value, null, 2) },
+        ...images.map(image => ({
+          type: 'image' as const,
+          data: image.data,
+          mimeType: image.mimeType,
+        })),
+      ],
+      ...(structured && { structuredContent: structured }),
+      ...((truncation || extrasSummary.length > 0) && {
+        _meta: {
+          ...(truncation && { 'websee/truncation': truncation }),
+          ...extrasMeta,
+        },
+      }),
+    };
+  }
+}
+
+/**
+ * Marker appended to the summary of a result that was shrunk to the byte budget
+ */
+function describeTruncation(truncation: Truncation): string {
+  const omitted = Object.entries(truncation.omittedItems).map(
+    ([path, count]) => `${count} items of ${path}`
+  );
+  if (truncation.truncatedStrings > 0) {
+    omitted.push(`${truncation.truncatedStrings} long strings shortened`);
+  }
+  return (
+    `[TRUNCATED to ${truncation.maxBytes} bytes: ${omitted.join(', ') || 'nothing could be removed'}; ` +
+    'use limit/cursor or narrower arguments to see the rest]'
+  );
+}
+
+/**
+ * Images in the top-level fields of a result (directly or in an array)
+ */
+function collectImages(result: unknown): ImageAttachment[] {
+  if (result instanceof ImageAttachment) {
+    return [result];
+  }
+  if (typeof result !== 'object' || result === null) {
+    return [];
+  }
+
+  return Object.values(result)
+    .flatMap(value => (Array.isArray(value) ? value : [value]))
+    .filter((value): value is ImageAttachment => value instanceof ImageAttachment);
+}
+
+/**
+ * Default summary: the tool name followed by counts and short scalar fields of the result
+ */
+export function summarizeResult(name: string, result: unknown): string {
+  if (typeof result !== 'object' || result === null || Array.isArray(result)) {
+    return `${name}: ${JSON.stringify(result)?.slice(0, 200)}`;
+  }
+
+  const fields: string[] = [];
+  for (const [key, value] of Object.entries(result)) {
+    if (fields.length >= MAX_SUMMARY_FIELDS) break;
+
+    if (Array.isArray(value)) {
+      fields.push(`${value.length} ${key}`);
+    } else if (typeof value === 'number' || typeof value === 'boolean') {
+      fields.push(`${key}: ${value}`);
+    } else if (typeof value === 'string' && value.length <= 80) {
+      fields.push(`${key}: ${value}`);
+    }
+  }
+
+  return fields.length > 0 ? `${name}: ${fields.join(', ')}` : `${name} completed`;
+}
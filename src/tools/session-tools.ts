@@ -0,0 +1,272 @@
+/**
+ * Session Tools for WebSee MCP Server
+ *
+ * Open, list and close persistent browser sessions. Any other tool can then be
+ * pointed at a session with `sessionId` to work on the same live page. A session's
+ * login state can be saved so that new pages start authenticated. When attached to a
+ * running Chrome, its tabs can be listed and inspected with `tab`.
+ *
+ * @module session-tools
+ */
+
+import { isAbsolute, relative, resolve } from 'path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { saveStorageState } from '../auth.js';
+import { getConfig } from '../config.js';
+import { EmulationSchema } from '../emulation.js';
+import { SessionManager, SessionSummary } from '../session-manager.js';
+import { navigateTo } from '../navigation.js';
+import { RunContext } from '../run-context.js';
+import { listTabs, TabSummary } from '../tabs.js';
+import { defineSessionTool, ToolDefinition } from './registry.js';
+
+// ============================================================================
+// Zod Schemas
+// ============================================================================
+
+export const SessionOpenSchema = z.object({
+  url: z.string().url().optional().describe('URL to open in the new session (optional)'),
+  idleTimeoutMs: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Close the session after this many ms without tool calls (0 disables)'),
+  emulation: EmulationSchema.optional().describe(
+    'Emulate a device, viewport, locale, timezone, color scheme or location for the whole session'
+  ),
+});
+
+export const SessionListSchema = z.object({});
+
+export const SessionCloseSchema = z.object({
+  sessionId: z.string().describe('ID of the session to close'),
+});
+
+export const SessionSaveAuthSchema = z.object({
+  sessionId: z.string().describe('ID of the session that is logged in'),
+  path: z
+    .string()
+    .optional()
+    .describe(
+      'Where to save the storage state, relative to the project root ' +
+        '(defaults to auth.storageState from websee.config)'
+    ),
+});
+
+export const TabListSchema = z.object({});
+
+const SessionSummarySchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  title: z.string(),
+  createdAt: z.number(),
+  lastUsedAt: z.number(),
+  idleTimeoutMs: z.number(),
+  expiresAt: z.number(),
+});
+
+export const SessionOpenOutputSchema = SessionSummarySchema;
+
+export const SessionListOutputSchema = z.object({
+  sessions: z.array(SessionSummarySchema),
+});
+
+export const SessionCloseOutputSchema = z.object({
+  sessionId: z.string(),
+  closed: z.boolean(),
+});
+
+export const SessionSaveAuthOutputSchema = z.object({
+  sessionId: z.string(),
+  path: z.string(),
+  cookies: z.number(),
+  origins: z.array(z.string()),
+  appliesToNewPages: z.boolean(),
+});
+
+export const TabListOutputSchema = z.object({
+  attached: z.boolean(),
+  tabs: z.array(
+    z.object({
+      id: z.string(),
+      index: z.number(),
+      url: z.string(),
+      title: z.string(),
+    })
+  ),
+});
+
+/**
+ * Optional session reference accepted by every page-based tool
+ */
+export const SessionRefSchema = z.object({
+  sessionId: z
+    .string()
+    .optional()
+    .describe(
+      'Run against an open browser session (from session_open) instead of a fresh page. ' +
+        'If the session is already at `url` the live page is inspected without reloading.'
+    ),
+});
+
+// ============================================================================
+// Tool Implementations
+// ============================================================================
+
+/**
+ * Open a new persistent browser session
+ */
+export async function sessionOpen(
+  sessions: SessionManager,
+  params: z.infer<typeof SessionOpenSchema>,
+  run: RunContext = {}
+): Promise<SessionSummary> {
+  const session = await sessions.open({
+    idleTimeoutMs: params.idleTimeoutMs,
+    emulation: params.emulation,
+  });
+
+  if (params.url) {
+    try {
+      await navigateTo(session.page, params.url, run);
+    } catch (error) {
+      await sessions.close(session.id);
+      throw error;
+    }
+  }
+
+  return sessions.summarize(session);
+}
+
+/**
+ * List open browser sessions
+ */
+export async function sessionList(
+  sessions: SessionManager,
+  _params: z.infer<typeof SessionListSchema>
+): Promise<{ sessions: SessionSummary[] }> {
+  return { sessions: await sessions.list() };
+}
+
+/**
+ * List the tabs of the browser attached over CDP
+ */
+export async function tabList(
+  sessions: SessionManager,
+  _params: z.infer<typeof TabListSchema>
+): Promise<{ attached: boolean; tabs: TabSummary[] }> {
+  const { browserManager } = sessions;
+  return {
+    attached: browserManager.attached,
+    tabs: await listTabs(browserManager),
+  };
+}
+
+/**
+ * Close a browser session
+ */
+export async function sessionClose(
+  sessions: SessionManager,
+  params: z.infer<typeof SessionCloseSchema>
+): Promise<{ sessionId: string; closed: boolean }> {
+  const closed = await sessions.close(params.sessionId);
+  return { sessionId: params.sessionId, closed };
+}
+
+/**
+ * Save a session's cookies and localStorage as a Playwright storage state file
+ */
+export async function sessionSaveAuth(
+  sessions: SessionManager,
+  params: z.infer<typeof SessionSaveAuthSchema>
+): Promise<z.infer<typeof SessionSaveAuthOutputSchema>> {
+  const config = getConfig();
+  const path = params.path ? resolve(config.projectRoot, params.path) : config.auth.storageState;
+
+  if (!sessions.has(params.sessionId)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown session: ${params.sessionId}`);
+  }
+
+  if (!path) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'No path given and auth.storageState is not configured in websee.config'
+    );
+  }
+
+  // Explicit paths come from the client, so keep them inside the project
+  const fromRoot = relative(config.projectRoot, path);
+  if (params.path && (fromRoot.startsWith('..') || isAbsolute(fromRoot))) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Storage state path must be inside the project root: ${params.path}`
+    );
+  }
+
+  const state = await sessions.use(params.sessionId, session =>
+    saveStorageState(session.context, path)
+  );
+
+  return {
+    sessionId: params.sessionId,
+    path,
+    cookies: state.cookies.length,
+    origins: state.origins.map(origin => origin.origin),
+    appliesToNewPages: path === config.auth.storageState,
+  };
+}
+
+// ============================================================================
+// Tool Metadata for MCP Server Registration
+// ============================================================================
+
+export const SESSION_TOOLS: ToolDefinition[] = [
+  defineSessionTool({
+    name: 'session_open',
+    description:
+      'Open a persistent browser session whose page survives across tool calls (log in, click through a flow, then inspect)',
+    inputSchema: SessionOpenSchema,
+    outputSchema: SessionOpenOutputSchema,
+    handler: sessionOpen,
+    summarize: (result: SessionSummary) => `Opened session ${result.id} at ${result.url}`,
+  }),
+  defineSessionTool({
+    name: 'session_list',
+    description: 'List open browser sessions with their current URL and expiry',
+    inputSchema: SessionListSchema,
+    outputSchema: SessionListOutputSchema,
+    handler: sessionList,
+  }),
+  defineSessionTool({
+    name: 'session_close',
+    description: 'Close a browser session and release its browser context',
+    inputSchema: SessionCloseSchema,
+    outputSchema: SessionCloseOutputSchema,
+    handler: sessionClose,
+  }),
+  defineSessionTool({
+    name: 'session_save_auth',
+    description:
+      'Save the cookies and localStorage of a logged-in session (after a manual or scripted login) so new pages and sessions start authenticated',
+    inputSchema: SessionSaveAuthSchema,
+    outputSchema: SessionSaveAuthOutputSchema,
+    handler: sessionSaveAuth,
+    summarize: result =>
+      `Saved ${result.cookies} cookie(s) and storage for ${result.origins.length} origin(s) to ${result.path}` +
+      (result.appliesToNewPages ? '' : ' (not auth.storageState, so new pages are unaffected)'),
+  }),
+  defineSessionTool({
+    name: 'tab_list',
+    description:
+      'List the tabs of the Chrome attached over CDP (cdpEndpoint); pass a tab id to any tool as `tab` to inspect it without navigating',
+    inputSchema: TabListSchema,
+    outputSchema: TabListOutputSchema,
+    handler: tabList,
+    summarize: (result: { attached: boolean; tabs: TabSummary[] }) =>
+      result.attached
+        ? `${result.tabs.length} tab(s) open in the attached browser`
+        : 'No browser attached; set cdpEndpoint or start the server with --cdp',
+  }),
+];
@@ -11,6 +11,12 @@ import { z } from "zod";
 import { Page } from "playwright";
 import { SourceMapResolver } from "../source-map-resolver.js";
 import { BuildArtifactManager } from "../build-artifact-manager.js";
+import { createLogger } from "../logger.js";
+import { PageInfoSchema, PaginationSchema, paginate } from "../pagination.js";
+import { RunContext } from "../run-context.js";
+import { defineTool, ToolDefinition } from "./registry.js";
+
+const logger = createLogger("source-intelligence");
 
 // ============================================================================
 // Zod Schemas for Tool Input Validation
@@ -65,9 +71,11 @@ export const SourceGetSymbolsSchema = z.object({
  * Schema for source_map_bundle tool
  * Maps a bundle file to all its source files
  */
-export const SourceMapBundleSchema = z.object({
-  bundlePath: z.string().describe("Path or URL to the bundle file"),
-});
+export const SourceMapBundleSchema = z
+  .object({
+    bundlePath: z.string().describe("Path or URL to the bundle file"),
+  })
+  .merge(PaginationSchema);
 
 /**
  * Schema for source_coverage_map tool
@@ -77,6 +85,97 @@ export const SourceCoverageMapSchema = z.object({
   coverageData: z.record(z.any()).describe("V8 coverage data object"),
 });
 
+// ============================================================================
+// Zod Schemas for Tool Output
+// ============================================================================
+
+const StackFrameOutputSchema = z.object({
+  functionName: z.string().optional(),
+  fileName: z.string(),
+  lineNumber: z.number(),
+  columnNumber: z.number(),
+  source: z.string().optional(),
+});
+
+const SymbolListSchema = z.array(
+  z
+    .object({
+      name: z.string(),
+      line: z.number(),
+    })
+    .passthrough()
+);
+
+const CoverageEntrySchema = z.object({
+  file: z.string(),
+  lines: z.array(z.number()),
+  percentage: z.number(),
+});
+
+export const SourceMapResolveOutputSchema = z.object({
+  file: z.string(),
+  line: z.number(),
+  column: z.number(),
+  name: z.string().optional(),
+  content: z.string().optional(),
+});
+
+export const SourceMapGetContentOutputSchema = z.object({
+  file: z.string(),
+  content: z.string(),
+  language: z.string(),
+  totalLines: z.number(),
+  range: z.object({ start: z.number(), end: z.number() }).optional(),
+});
+
+export const SourceTraceStackOutputSchema = z.object({
+  original: z.array(z.string()),
+  resolved: z.array(z.string()),
+  frames: z.array(
+    StackFrameOutputSchema.extend({
+      original: StackFrameOutputSchema,
+      resolved: z.boolean(),
+    })
+  ),
+});
+
+export const SourceFindDefinitionOutputSchema = z.object({
+  file: z.string(),
+  line: z.number(),
+  column: z.number(),
+  code: z.string(),
+  exports: z.array(z.string()).optional(),
+});
+
+export const SourceGetSymbolsOutputSchema = z.object({
+  file: z.string(),
+  exports: SymbolListSchema,
+  imports: SymbolListSchema,
+  types: SymbolListSchema,
+});
+
+export const SourceMapBundleOutputSchema = z.object({
+  bundle: z.string(),
+  sources: z.array(z.string()),
+  mappings: z.array(
+    z.object({
+      source: z.string(),
+      generatedLine: z.number(),
+      generatedColumn: z.number(),
+      originalLine: z.number(),
+      originalColumn: z.number(),
+    })
+  ),
+  size: z.number().optional(),
+  page: PageInfoSchema,
+});
+
+export const SourceCoverageMapOutputSchema = z.object({
+  covered: z.array(CoverageEntrySchema),
+  uncovered: z.array(CoverageEntrySchema),
+  percentage: z.number(),
+});
+
 // ============================================================================
 // Helper Types
 // ============================================================================
@@ -125,12 +224,19 @@ export class SourceIntelligenceTools {
     try {
       await this.buildManager.loadBuildArtifacts();
     } catch (error) {
-      console.warn("Build artifacts not loaded:", (error as Error).message);
+      logger.debug(`Build artifacts not loaded: ${(error as Error).message}`);
     }
 
     this.initialized = true;
   }
 
+  /**
+   * Get the underlying source map resolver
+   */
+  getSourceMapResolver(): SourceMapResolver {
+    return this.sourceMapResolver;
+  }
+
   // ==========================================================================
   // Tool 1: source_map_resolve
   // ==========================================================================
@@ -819,125 +925,61 @@ export class SourceIntelligenceTools {
 /**
  * MCP tool definitions for registration with the server
  */
-export const SOURCE_INTELLIGENCE_TOOL_DEFINITIONS = [
-  {
+export const SOURCE_INTELLIGENCE_TOOL_DEFINITIONS: ToolDefinition[] = [
+  defineTool({
     name: "source_map_resolve",
-    description: "Resolve a minified JavaScript location to its original source file, line, and column using source maps",
-    inputSchema: {
-      type: "object",
-      properties: {
-        url: {
-          type: "string",
-          description: "The URL of the minified JavaScript file"
-        },
-        line: {
-          type: "number",
-          description: "Line number in minified file (1-indexed)"
-        },
-        column: {
-          type: "number",
-          description: "Column number in minified file (0-indexed)"
-        },
-      },
-      required: ["url", "line", "column"],
-    },
-  },
-  {
+    description:
+      "Resolve a minified JavaScript location to its original source file, line, and column using source maps",
+    inputSchema: SourceMapResolveSchema,
+    outputSchema: SourceMapResolveOutputSchema,
+    handler: sourceMapResolve,
+  }),
+  defineTool({
     name: "source_map_get_content",
-    description: "Get the content of an original source file from source maps, optionally filtered by line range",
-    inputSchema: {
-      type: "object",
-      properties: {
-        file: {
-          type: "string",
-          description: "Original source file path from source map"
-        },
-        startLine: {
-          type: "number",
-          description: "Start line number (1-indexed, optional)"
-        },
-        endLine: {
-          type: "number",
-          description: "End line number (1-indexed, optional)"
-        },
-      },
-      required: ["file"],
-    },
-  },
-  {
+    description:
+      "Get the content of an original source file from source maps, optionally filtered by line range",
+    inputSchema: SourceMapGetContentSchema,
+    outputSchema: SourceMapGetContentOutputSchema,
+    handler: sourceMapGetContent,
+  }),
+  defineTool({
     name: "source_trace_stack",
-    description: "Enhance a complete error stack trace by resolving all frames to their original source locations using source maps",
-    inputSchema: {
-      type: "object",
-      properties: {
-        stackTrace: {
-          type: "string",
-          description: "Full stack trace string to resolve"
-        },
-      },
-      required: ["stackTrace"],
-    },
-  },
-  {
+    description:
+      "Enhance a complete error stack trace by resolving all frames to their original source locations using source maps",
+    inputSchema: SourceTraceStackSchema,
+    outputSchema: SourceTraceStackOutputSchema,
+    handler: sourceTraceStack,
+  }),
+  defineTool({
     name: "source_find_definition",
     description: "Find the definition of a function or class in the original source code",
-    inputSchema: {
-      type: "object",
-      properties: {
-        functionName: {
-          type: "string",
-          description: "Name of the function or class to find"
-        },
-        file: {
-          type: "string",
-          description: "Specific source file to search in (optional)"
-        },
-      },
-      required: ["functionName"],
-    },
-  },
-  {
+    inputSchema: SourceFindDefinitionSchema,
+    outputSchema: SourceFindDefinitionOutputSchema,
+    handler: sourceFindDefinition,
+  }),
+  defineTool({
     name: "source_get_symbols",
     description: "List all exports, imports, and type definitions from an original source file",
-    inputSchema: {
-      type: "object",
-      properties: {
-        file: {
-          type: "string",
-          description: "Source file path to analyze"
-        },
-      },
-      required: ["file"],
-    },
-  },
-  {
+    inputSchema: SourceGetSymbolsSchema,
+    outputSchema: SourceGetSymbolsOutputSchema,
+    handler: sourceGetSymbols,
+  }),
+  defineTool({
     name: "source_map_bundle",
-    description: "Map a JavaScript bundle file to all of its original source files and show the relationship",
-    inputSchema: {
-      type: "object",
-      properties: {
-        bundlePath: {
-          type: "string",
-          description: "Path or URL to the bundle file"
-        },
-      },
-      required: ["bundlePath"],
-    },
-  },
-  {
+    description:
+      "Map a JavaScript bundle file to all of its original source files and show the relationship",
+    inputSchema: SourceMapBundleSchema,
+    outputSchema: SourceMapBundleOutputSchema,
+    handler: sourceMapBundle,
+  }),
+  defineTool({
     name: "source_coverage_map",
-    description: "Map V8 code coverage data from minified bundles back to original source files for accurate coverage reporting",
-    inputSchema: {
-      type: "object",
-      properties: {
-        coverageData: {
-          type: "object",
-          description: "V8 coverage data object"
-        },
-      },
-      required: ["coverageData"],
-    },
-  },
+    description:
+      "Map V8 code coverage data from minified bundles back to original source files for accurate coverage reporting",
+    inputSchema: SourceCoverageMapSchema,
+    outputSchema: SourceCoverageMapOutputSchema,
+    handler: sourceCoverageMap,
+  }),
 ];
 
 // ============================================================================
@@ -958,6 +1000,13 @@ async function getToolsInstance(page: Page): Promise<SourceIntelligenceTools> {
   return toolsInstance;
 }
 
+/**
+ * Get the source map resolver shared by the source tools (null until first use)
+ */
+export function getSharedSourceMapResolver(): SourceMapResolver | null {
+  return toolsInstance ? toolsInstance.getSourceMapResolver() : null;
+}
+
 /**
  * Handler for source_map_resolve tool
  */
@@ -1091,12 +1140,25 @@ export async function sourceGetSymbols(
 }
 
 /**
- * Handler for source_map_bundle tool
+ * Handler for source_map_bundle tool (sources and mappings are paginated)
  */
 export async function sourceMapBundle(
   page: Page,
-  params: z.infer<typeof SourceMapBundleSchema>
+  params: z.infer<typeof SourceMapBundleSchema>,
+  run: RunContext = {}
 ): Promise<any> {
+  return paginate("source_map_bundle", params, run, ["sources", "mappings"], () =>
+    captureBundle(page, params)
+  );
+}
+
+/**
+ * Look up the bundle's source map and list its sources and sample mappings
+ */
+async function captureBundle(
+  page: Page,
+  params: z.infer<typeof SourceMapBundleSchema>
+): Promise<Record<string, any>> {
   const tools = await getToolsInstance(page);
   const result = await tools.sourceMapBundle(params);
 
@@ -0,0 +1,716 @@
+/**
+ * Workflow Tools for WebSee MCP Server
+ *
+ * High-level tools that combine source maps, components, network and errors
+ * into a single debugging run.
+ *
+ * @module workflow-tools
+ */
+
+import { z } from 'zod';
+import { ConsoleMessage, Page } from 'playwright';
+import { SourceIntelligenceLayer } from '../index.js';
+import { navigateTo } from '../navigation.js';
+import { RunContext, wait, reportProgress, throwIfAborted } from '../run-context.js';
+import { captureScreenshot } from '../screenshots.js';
+import { SerializeLimitsSchema } from '../serializer.js';
+import { defineTool, ToolDefinition } from './registry.js';
+import { ImageAttachmentSchema, ScreenshotTargetSchema } from './page-tools.js';
+
+// ============================================================================
+// Zod Schemas
+// ============================================================================
+
+export const DebugFrontendIssueSchema = z.object({
+  url: z.string().url().describe('The URL of the page experiencing issues'),
+  selector: z.string().optional().describe('CSS selector to focus on (optional)'),
+  errorMessage: z.string().optional().describe('Error message to investigate (optional)'),
+  screenshot: z.boolean().optional().default(false).describe('Capture screenshot of the issue'),
+  screenshotTarget: ScreenshotTargetSchema.optional().default('fullPage'),
+});
+
+export const AnalyzePerformanceSchema = z.object({
+  url: z.string().url().describe('The URL to analyze for performance'),
+  interactions: z
+    .array(
+      z.object({
+        action: z.enum(['click', 'type', 'scroll', 'navigate']),
+        selector: z.string().optional(),
+        value: z.string().optional(),
+      })
+    )
+    .optional()
+    .describe('User interactions to perform before analysis (deprecated: use steps)'),
+  metrics: z
+    .array(z.enum(['network', 'components', 'bundle', 'memory']))
+    .optional()
+    .default(['network', 'components'])
+    .describe('Metrics to analyze'),
+});
+
+export const InspectComponentStateSchema = z.object({
+  url: z.string().url().describe('The page URL'),
+  selector: z.string().describe('CSS selector for the component'),
+  waitForSelector: z.boolean().optional().default(true).describe('Wait for element to appear'),
+  includeChildren: z.boolean().optional().default(false).describe('Include child components'),
+  serialization: SerializeLimitsSchema.optional(),
+});
+
+export const TraceNetworkRequestsSchema = z.object({
+  url: z.string().url().describe('The page URL'),
+  pattern: z.string().optional().describe("URL pattern to filter (e.g., '/api/*')"),
+  method: z
+    .enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'ALL'])
+    .optional()
+    .default('ALL')
+    .describe('HTTP method to filter by'),
+  waitTime: z.number().optional().default(3000).describe('Time to wait for requests (ms)'),
+});
+
+export const AnalyzeBundleSchema = z.object({
+  url: z.string().url().describe('The application URL'),
+  moduleName: z.string().optional().describe('Specific module to search for'),
+  threshold: z.number().optional().default(50).describe('Size threshold in KB to flag modules'),
+});
+
+export const ResolveMinifiedErrorSchema = z.object({
+  url: z.string().url().describe('The page URL'),
+  errorStack: z.string().describe('The minified error stack trace'),
+  triggerError: z.boolean().optional().default(false).describe('Try to trigger the error'),
+});
+
+// ============================================================================
+// Output Schemas
+// ============================================================================
+
+// Workflow results combine several layers, so nested entries are kept open-ended
+const EntryListSchema = z.array(z.record(z.any()));
+
+export const DebugFrontendIssueOutputSchema = z
+  .object({
+    url: z.string(),
+    timestamp: z.string(),
+    issues: EntryListSchema,
+    components: EntryListSchema,
+    network: EntryListSchema,
+    console: EntryListSchema,
+    screenshot: ImageAttachmentSchema.optional(),
+  })
+  .passthrough();
+
+export const AnalyzePerformanceOutputSchema = z
+  .object({
+    url: z.string(),
+    timestamp: z.string(),
+    metrics: z.object({
+      network: z.record(z.any()).optional(),
+      components: z.record(z.any()).optional(),
+      bundle: z.record(z.any()).optional(),
+      memory: z.record(z.any()).optional(),
+    }),
+  })
+  .passthrough();
+
+export const InspectComponentStateOutputSchema = z
+  .object({
+    selector: z.string(),
+    found: z.boolean(),
+    component: z.record(z.any()).optional(),
+    children: EntryListSchema.optional(),
+    error: z.string().optional(),
+    message: z.string().optional(),
+  })
+  .passthrough();
+
+export const TraceNetworkRequestsOutputSchema = z
+  .object({
+    url: z.string(),
+    pattern: z.string().optional(),
+    method: z.string(),
+    totalRequests: z.number(),
+    requests: EntryListSchema,
+  })
+  .passthrough();
+
+export const AnalyzeBundleOutputSchema = z
+  .object({
+    url: z.string(),
+    scripts: z.record(z.any()),
+    stylesheets: z.record(z.any()),
+    modules: EntryListSchema,
+    recommendations: z.array(z.string()),
+  })
+  .passthrough();
+
+export const ResolveMinifiedErrorOutputSchema = z
+  .object({
+    resolved: z.boolean(),
+    original: z.string(),
+    sourceMap: z.array(z.string()).optional(),
+    message: z.string().optional(),
+  })
+  .passthrough();
+
+// ============================================================================
+// Tool Implementations
+// ============================================================================
+
+/**
+ * Debug a frontend issue by combining component, network and error analysis
+ */
+export async function debugFrontendIssue(
+  page: Page,
+  params: z.infer<typeof DebugFrontendIssueSchema>,
+  run: RunContext = {}
+) {
+  const intelligence = new SourceIntelligenceLayer();
+
+  // Capture console messages
+  const consoleLogs: any[] = [];
+  const onConsole = (msg: ConsoleMessage) => {
+    if (msg.type() === 'error' || msg.type() === 'warning') {
+      consoleLogs.push({
+        type: msg.type(),
+        text: msg.text(),
+        location: msg.location(),
+      });
+    }
+  };
+
+  // Capture page errors
+  const pageErrors: Error[] = [];
+  const onPageError = (error: Error) => pageErrors.push(error);
+
+  try {
+    await intelligence.initialize(page);
+    await navigateTo(page, params.url, run);
+
+    const result: any = {
+      url: params.url,
+      timestamp: new Date().toISOString(),
+      issues: [],
+      components: [],
+      network: [],
+      console: [],
+    };
+
+    page.on('console', onConsole);
+    page.on('pageerror', onPageError);
+
+    // Wait a bit for any initial errors
+    await wait(2000, run);
+
+    // Analyze specific selector if provided
+    if (params.selector) {
+      try {
+        const component = await intelligence.getComponentAtElement(params.selector);
+        result.components.push({
+          selector: params.selector,
+          name: component.name,
+          framework: component.framework,
+          props: component.props,
+          state: component.state,
+          parents: component.parents,
+        });
+      } catch (error) {
+        result.issues.push({
+          type: 'selector_not_found',
+          message: `Could not find element with selector: ${params.selector}`,
+        });
+      }
+    }
+
+    // Analyze specific error if provided
+    if (params.errorMessage) {
+      const errorMsg = params.errorMessage;
+      const matchingError = pageErrors.find(e => e.message.includes(errorMsg));
+      if (matchingError) {
+        const context = await intelligence.getErrorIntelligence(matchingError);
+        result.issues.push({
+          type: 'error_traced',
+          originalError: matchingError.message,
+          sourceLocation: context.originalStack?.[0],
+          components: context.components,
+          networkContext: context.networkActivity?.slice(-5),
+        });
+      }
+    }
+
+    // Get recent network activity
+    const networkTraces = intelligence.getNetworkTraces().slice(-10);
+    result.network = networkTraces.map(trace => ({
+      url: trace.url,
+      method: trace.method,
+      status: trace.status,
+      duration: trace.duration,
+      triggeredBy: trace.stackTrace?.[0],
+    }));
+
+    // Console logs
+    result.console = consoleLogs;
+
+    // Capture screenshot if requested
+    if (params.screenshot) {
+      try {
+        result.screenshot = await captureScreenshot(page, {
+          target: params.screenshotTarget,
+          selector: params.selector,
+        });
+      } catch (error) {
+        result.issues.push({
+          type: 'screenshot_failed',
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return result;
+  } finally {
+    page.off('console', onConsole);
+    page.off('pageerror', onPageError);
+    await intelligence.destroy();
+  }
+}
+
+/**
+ * Analyze network, component, bundle and memory metrics after optional interactions
+ */
+export async function analyzePerformance(
+  page: Page,
+  params: z.infer<typeof AnalyzePerformanceSchema>,
+  run: RunContext = {}
+) {
+  const intelligence = new SourceIntelligenceLayer();
+
+  try {
+    await intelligence.initialize(page);
+    await navigateTo(page, params.url, run);
+
+    // Perform interactions if specified
+    if (params.interactions) {
+      for (const interaction of params.interactions) {
+        throwIfAborted(run.signal);
+        reportProgress(run, `Performing ${interaction.action}`);
+        switch (interaction.action) {
+          case 'click':
+            if (interaction.selector) {
+              await page.click(interaction.selector);
+            }
+            break;
+          case 'type':
+            if (interaction.selector && interaction.value) {
+              await page.type(interaction.selector, interaction.value);
+            }
+            break;
+          case 'scroll':
+            await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+            break;
+          case 'navigate':
+            if (interaction.value) {
+              await navigateTo(page, interaction.value, run);
+            }
+            break;
+        }
+        await wait(500, run);
+      }
+    }
+
+    const analysis: any = {
+      url: params.url,
+      timestamp: new Date().toISOString(),
+      metrics: {},
+    };
+
+    // Network analysis
+    if (params.metrics.includes('network')) {
+      const traces = intelligence.getNetworkTraces();
+      const slowRequests = traces.filter(t => t.duration > 1000);
+
+      analysis.metrics.network = {
+        totalRequests: traces.length,
+        slowRequests: slowRequests.length,
+        averageDuration: traces.reduce((sum, t) => sum + t.duration, 0) / traces.length,
+        slowestRequests: slowRequests.slice(0, 5).map(t => ({
+          url: t.url,
+          duration: t.duration,
+          triggeredBy: t.stackTrace?.[0],
+        })),
+      };
+    }
+
+    // Component analysis
+    if (params.metrics.includes('components')) {
+      const components = await intelligence.getComponentTree();
+
+      analysis.metrics.components = {
+        totalComponents: components.length,
+        byFramework: components.reduce((acc: any, c) => {
+          acc[c.framework] = (acc[c.framework] || 0) + 1;
+          return acc;
+        }, {}),
+        deepestNesting: Math.max(...components.map(c => c.depth || 0)),
+      };
+    }
+
+    // Bundle analysis
+    if (params.metrics.includes('bundle')) {
+      const scripts = await page.$$eval('script[src]', scripts =>
+        scripts.map((s: any) => ({ src: s.src, size: s.text?.length || 0 }))
+      );
+
+      analysis.metrics.bundle = {
+        totalScripts: scripts.length,
+        totalSize: scripts.reduce((sum: number, s: any) => sum + s.size, 0),
+        largestScripts: scripts.sort((a: any, b: any) => b.size - a.size).slice(0, 5),
+      };
+    }
+
+    // Memory analysis
+    if (params.metrics.includes('memory')) {
+      const memoryInfo = await page.evaluate(() => {
+        if ('memory' in performance) {
+          return (performance as any).memory;
+        }
+        return null;
+      });
+
+      if (memoryInfo) {
+        analysis.metrics.memory = {
+          usedJSHeapSize: Math.round(memoryInfo.usedJSHeapSize / 1024 / 1024) + ' MB',
+          totalJSHeapSize: Math.round(memoryInfo.totalJSHeapSize / 1024 / 1024) + ' MB',
+          limit: Math.round(memoryInfo.jsHeapSizeLimit / 1024 / 1024) + ' MB',
+        };
+      }
+    }
+
+    return analysis;
+  } finally {
+    await intelligence.destroy();
+  }
+}
+
+/**
+ * Inspect the state, props and structure of the component at a selector
+ */
+export async function inspectComponentState(
+  page: Page,
+  params: z.infer<typeof InspectComponentStateSchema>,
+  run: RunContext = {}
+) {
+  const intelligence = new SourceIntelligenceLayer({ serializeLimits: params.serialization });
+
+  try {
+    await intelligence.initialize(page);
+    await navigateTo(page, params.url, run);
+
+    if (params.waitForSelector) {
+      await page.waitForSelector(params.selector, { timeout: 10000 });
+    }
+
+    const component = await intelligence.getComponentAtElement(params.selector);
+
+    // Handle case where component is not found
+    if (!component) {
+      return {
+        selector: params.selector,
+        found: false,
+        error: 'Component not found',
+        message: `No component detected at selector: ${params.selector}. The element may not be a framework component, or it may not have loaded yet.`,
+      };
+    }
+
+    const inspection: any = {
+      selector: params.selector,
+      found: true,
+      component: {
+        name: component.name,
+        framework: component.framework,
+        props: component.props,
+        state: component.state,
+        source: component.source,
+        parents: component.parents,
+      },
+    };
+
+    if (params.includeChildren && component.children) {
+      inspection.children = component.children.map((child: any) => ({
+        name: child.name,
+        props: child.props,
+        state: child.state,
+      }));
+    }
+
+    return inspection;
+  } finally {
+    await intelligence.destroy();
+  }
+}
+
+/**
+ * Trace network requests and the code that triggered them
+ */
+export async function traceNetworkRequests(
+  page: Page,
+  params: z.infer<typeof TraceNetworkRequestsSchema>,
+  run: RunContext = {}
+) {
+  const intelligence = new SourceIntelligenceLayer();
+
+  try {
+    await intelligence.initialize(page);
+    await navigateTo(page, params.url, run);
+
+    // Wait for additional requests
+    await wait(params.waitTime, run, 'Capturing network requests');
+
+    let traces = params.pattern
+      ? intelligence.getNetworkTracesForUrl(params.pattern)
+      : intelligence.getNetworkTraces();
+
+    // Filter by method if specified
+    if (params.method !== 'ALL') {
+      traces = traces.filter(t => t.method === params.method);
+    }
+
+    return {
+      url: params.url,
+      pattern: params.pattern,
+      method: params.method,
+      totalRequests: traces.length,
+      requests: traces.map(trace => ({
+        url: trace.url,
+        method: trace.method,
+        status: trace.status,
+        duration: trace.duration,
+        size: trace.responseSize,
+        triggeredBy: trace.stackTrace?.[0],
+        timestamp: trace.timestamp,
+      })),
+    };
+  } finally {
+    await intelligence.destroy();
+  }
+}
+
+/**
+ * Analyze bundle size and flag large modules
+ */
+export async function analyzeBundleSize(
+  page: Page,
+  params: z.infer<typeof AnalyzeBundleSchema>,
+  run: RunContext = {}
+) {
+  const intelligence = new SourceIntelligenceLayer();
+
+  try {
+    await intelligence.initialize(page);
+    await navigateTo(page, params.url, run);
+
+    const scripts = await page.$$eval('script[src]', scripts =>
+      scripts.map((s: any) => ({
+        src: s.src,
+        size: s.innerHTML?.length || 0,
+        async: s.async,
+        defer: s.defer,
+      }))
+    );
+
+    const stylesheets = await page.$$eval("link[rel='stylesheet']", links =>
+      links.map((l: any) => ({
+        href: l.href,
+        media: l.media || 'all',
+      }))
+    );
+
+    const analysis: any = {
+      url: params.url,
+      scripts: {
+        total: scripts.length,
+        totalSize: scripts.reduce((sum: number, s: any) => sum + s.size, 0),
+        files: scripts,
+      },
+      stylesheets: {
+        total: stylesheets.length,
+        files: stylesheets,
+      },
+      modules: [],
+      recommendations: [],
+    };
+
+    // Check for specific module if requested
+    if (params.moduleName) {
+      const module = intelligence.findBuildModule(params.moduleName);
+      if (module) {
+        analysis.modules.push({
+          name: module.name,
+          size: module.size,
+          sizeKB: (module.size / 1024).toFixed(2) + ' KB',
+          chunks: module.chunks,
+          dependencies: module.dependencies,
+        });
+
+        if (module.size > params.threshold * 1024) {
+          analysis.recommendations.push(
+            `Module '${module.name}' is ${(module.size / 1024).toFixed(2)} KB, ` +
+              `exceeding threshold of ${params.threshold} KB. Consider code splitting or lazy loading.`
+          );
+        }
+      } else {
+        analysis.modules.push({
+          name: params.moduleName,
+          found: false,
+          message: `Module '${params.moduleName}' not found in bundle`,
+        });
+      }
+    }
+
+    // General recommendations
+    const largeScripts = scripts.filter((s: any) => s.size > params.threshold * 1024);
+    if (largeScripts.length > 0) {
+      analysis.recommendations.push(
+        `Found ${largeScripts.length} script(s) larger than ${params.threshold} KB. ` +
+          `Consider code splitting for better performance.`
+      );
+    }
+
+    return analysis;
+  } finally {
+    await intelligence.destroy();
+  }
+}
+
+/**
+ * Resolve a minified error stack trace through source maps
+ */
+export async function resolveMinifiedError(
+  page: Page,
+  params: z.infer<typeof ResolveMinifiedErrorSchema>,
+  run: RunContext = {}
+) {
+  const intelligence = new SourceIntelligenceLayer();
+
+  // Capture any errors that occur
+  const errors: Error[] = [];
+  const onPageError = (error: Error) => errors.push(error);
+
+  try {
+    await intelligence.initialize(page);
+    page.on('pageerror', onPageError);
+
+    await navigateTo(page, params.url, run);
+
+    // Try to trigger the error if requested
+    if (params.triggerError) {
+      await wait(2000, run);
+
+      // Check if we captured any matching errors
+      const matchingError = errors.find(e => e.stack?.includes(params.errorStack.split('\n')[0]));
+
+      if (matchingError) {
+        const context = await intelligence.getErrorIntelligence(matchingError);
+        return {
+          resolved: true,
+          original: params.errorStack,
+          sourceMap: context.originalStack,
+          components: context.components,
+          networkContext: context.networkActivity?.slice(-5),
+          buildInfo: context.buildInfo,
+        };
+      }
+    }
+
+    // Try to resolve the stack trace directly
+    const stackLines = params.errorStack.split('\n');
+    const resolved: string[] = [];
+
+    for (const line of stackLines) {
+      // Extract file, line, column from minified stack
+      const match = line.match(/at\s+.*?\s+\((.*?):(\d+):(\d+)\)/);
+      if (match) {
+        const [, file, line, column] = match;
+        const sourceLocation = await intelligence.resolveSourceLocation(
+          file,
+          parseInt(line),
+          parseInt(column)
+        );
+
+        if (sourceLocation) {
+          resolved.push(
+            `at ${sourceLocation.file}:${sourceLocation.line}:${sourceLocation.column}`
+          );
+        } else {
+          resolved.push(line);
+        }
+      } else {
+        resolved.push(line);
+      }
+    }
+
+    return {
+      resolved: resolved.length > 0,
+      original: params.errorStack,
+      sourceMap: resolved,
+      message: 'Stack trace resolved using source maps',
+    };
+  } finally {
+    page.off('pageerror', onPageError);
+    await intelligence.destroy();
+  }
+}
+
+// ============================================================================
+// Tool Metadata for MCP Server Registration
+// ============================================================================
+
+export const WORKFLOW_TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: 'debug_frontend_issue',
+    description: 'Debug frontend issues by analyzing components, network, and errors',
+    inputSchema: DebugFrontendIssueSchema,
+    outputSchema: DebugFrontendIssueOutputSchema,
+    handler: debugFrontendIssue,
+    summarize: result =>
+      `Found ${result.issues.length} issue(s), ${result.console.length} console error(s)/warning(s) ` +
+      `and ${result.network.length} recent request(s) on ${result.url}`,
+  }),
+  defineTool({
+    name: 'analyze_performance',
+    description:
+      'Analyze frontend performance including network, components, bundle size, and memory',
+    inputSchema: AnalyzePerformanceSchema,
+    outputSchema: AnalyzePerformanceOutputSchema,
+    handler: analyzePerformance,
+  }),
+  defineTool({
+    name: 'inspect_component_state',
+    description: 'Inspect the state, props, and structure of a specific component',
+    inputSchema: InspectComponentStateSchema,
+    outputSchema: InspectComponentStateOutputSchema,
+    handler: inspectComponentState,
+    summarize: result =>
+      result.found
+        ? `Component ${result.component.name} (${result.component.framework}) at ${result.selector}`
+        : `No component found at ${result.selector}`,
+  }),
+  defineTool({
+    name: 'trace_network_requests',
+    description: 'Trace network requests and identify what triggered them',
+    inputSchema: TraceNetworkRequestsSchema,
+    outputSchema: TraceNetworkRequestsOutputSchema,
+    handler: traceNetworkRequests,
+  }),
+  defineTool({
+    name: 'analyze_bundle_size',
+    description: 'Analyze JavaScript bundle size and identify large modules',
+    inputSchema: AnalyzeBundleSchema,
+    outputSchema: AnalyzeBundleOutputSchema,
+    handler: analyzeBundleSize,
+  }),
+  defineTool({
+    name: 'resolve_minified_error',
+    description: 'Resolve minified error stack traces to original source code',
+    inputSchema: ResolveMinifiedErrorSchema,
+    outputSchema: ResolveMinifiedErrorOutputSchema,
+    handler: resolveMinifiedError,
+  }),
+];
@@ -0,0 +1,235 @@
+/**
+ * URL Policy
+ * Guards every navigation and source map fetch against disallowed schemes and hosts
+ * Part of the WebSee Source Intelligence Layer
+ *
+ * Only http(s) URLs are allowed by default, so `file://` paths and other schemes
+ * cannot be opened. Host patterns from websee.config (`urlAllowlist`, `urlDenylist`)
+ * narrow this further; the deny list wins. Hosts are compared lower-case and without
+ * the trailing dot of a fully qualified name. Each tool call may also navigate at most
+ * `navigation.maxPerCall` times.
+ *
+ * Besides the explicit checks before `navigateTo` and source map fetches, browser
+ * contexts carry a route guard that blocks every document request the policy forbids,
+ * so redirects, clicked links and `location` changes made by scripts are held to it too.
+ */
+
+import { BrowserContext, Page, Request, Route } from 'playwright';
+import { getConfig, matchesPattern, ResolvedConfig } from './config.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('url-policy');
+
+export type PolicyRule = 'scheme' | 'host' | 'navigation-limit';
+
+export interface UrlPolicyOptions {
+  /** URL schemes that may be opened, without the trailing colon */
+  allowedSchemes: string[];
+  /** Host patterns that may be opened (`*` wildcards); empty allows every host */
+  allowHosts: string[];
+  /** Host patterns that may never be opened, even if allowed */
+  denyHosts: string[];
+}
+
+/**
+ * Thrown when a URL or navigation is blocked by the policy
+ */
+export class PolicyViolationError extends Error {
+  constructor(
+    message: string,
+    readonly url: string,
+    readonly rule: PolicyRule
+  ) {
+    super(message);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+export class UrlPolicy {
+  constructor(private options: UrlPolicyOptions) {}
+
+  /**
+   * Policy described by a resolved configuration
+   */
+  static fromConfig(config: ResolvedConfig): UrlPolicy {
+    return new UrlPolicy({
+      allowedSchemes: config.allowedSchemes,
+      allowHosts: config.urlAllowlist,
+      denyHosts: config.urlDenylist,
+    });
+  }
+
+  /**
+   * Check that a URL may be opened
+   *
+   * @throws PolicyViolationError if the scheme or host is not allowed
+   */
+  check(url: string): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new PolicyViolationError(`Invalid URL: ${url}`, url, 'scheme');
+    }
+
+    const scheme = parsed.protocol.replace(/:$/, '');
+    if (!this.options.allowedSchemes.includes(scheme)) {
+      throw new PolicyViolationError(
+        `URL scheme "${scheme}:" is not allowed (allowed: ${this.options.allowedSchemes.join(', ')})`,
+        url,
+        'scheme'
+      );
+    }
+
+    const host = normalizeHost(parsed.hostname);
+    if (this.options.denyHosts.some(pattern => matchesPattern(host, pattern))) {
+      throw new PolicyViolationError(`Host ${host} is blocked by urlDenylist`, url, 'host');
+    }
+
+    const { allowHosts } = this.options;
+    if (allowHosts.length > 0 && !allowHosts.some(pattern => matchesPattern(host, pattern))) {
+      throw new PolicyViolationError(`Host ${host} is not in urlAllowlist`, url, 'host');
+    }
+  }
+
+  /**
+   * Check a URL without throwing
+   */
+  isAllowed(url: string): boolean {
+    try {
+      this.check(url);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Counts and records the navigations of a single tool call
+ */
+export class NavigationBudget {
+  /** URLs navigated to so far */
+  readonly urls: string[] = [];
+
+  constructor(readonly max: number = getConfig().navigation.maxPerCall) {}
+
+  /**
+   * Record a navigation
+   *
+   * @throws PolicyViolationError once the limit has been reached
+   */
+  take(url: string): void {
+    if (this.urls.length >= this.max) {
+      throw new PolicyViolationError(
+        `Navigation limit reached: at most ${this.max} navigation(s) per tool call`,
+        url,
+        'navigation-limit'
+      );
+    }
+    this.urls.push(url);
+  }
+}
+
+// Last document request the guard blocked on each page, so the failed navigation can
+// report the violation instead of a network error
+const blockedNavigations = new WeakMap<Page, PolicyViolationError>();
+
+/**
+ * Block document requests (page and frame navigations, redirects included) the policy
+ * forbids on a browser context or a single page. Blocked requests fail as blocked by
+ * the client.
+ *
+ * @returns a function that removes the guard again
+ */
+export async function guardNavigations(
+  target: Pick<BrowserContext, 'route' | 'unroute'>
+): Promise<() => Promise<void>> {
+  const isBlocked = (url: URL) => !getUrlPolicy().isAllowed(url.href);
+  const onRoute = (route: Route, request: Request) => blockNavigation(route, request);
+
+  await target.route(isBlocked, onRoute);
+  return async () => {
+    await target.unroute(isBlocked, onRoute).catch(() => {
+      // Page or context closed meanwhile
+    });
+  };
+}
+
+/**
+ * The violation that made the guard block the page's last navigation, if it did; forgets it
+ */
+export function takeBlockedNavigation(page: Page): PolicyViolationError | undefined {
+  const violation = blockedNavigations.get(page);
+  blockedNavigations.delete(page);
+  return violation;
+}
+
+async function blockNavigation(route: Route, request: Request): Promise<void> {
+  if (!isDocumentRequest(request)) {
+    // Subresources are up to the page
+    await route.fallback();
+    return;
+  }
+
+  try {
+    getUrlPolicy().check(request.url());
+  } catch (error) {
+    await rejectNavigation(route, request, error as PolicyViolationError);
+    return;
+  }
+  await route.fallback();
+}
+
+/**
+ * Fail a document request as blocked by the client, and remember the violation for the
+ * page's navigation to report
+ */
+export async function rejectNavigation(
+  route: Route,
+  request: Request,
+  violation: PolicyViolationError
+): Promise<void> {
+  logger.warn(`Blocked navigation to ${violation.url}: ${violation.message}`);
+  const page = pageOf(request);
+  if (page) {
+    blockedNavigations.set(page, violation);
+  }
+  await route.abort('blockedbyclient');
+}
+
+/**
+ * Whether a request loads a page or frame document, which the policy guards
+ */
+export function isDocumentRequest(request: Request): boolean {
+  return request.isNavigationRequest() || request.resourceType() === 'document';
+}
+
+function pageOf(request: Request): Page | null {
+  try {
+    return request.frame().page();
+  } catch {
+    // Service worker requests have no frame
+    return null;
+  }
+}
+
+/**
+ * Host as the policy compares it: `Admin.Internal.` and `admin.internal` are the same host
+ */
+function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/\.+$/, '');
+}
+
+let cachedPolicy: { config: ResolvedConfig; policy: UrlPolicy } | null = null;
+
+/**
+ * Policy for the active configuration
+ */
+export function getUrlPolicy(): UrlPolicy {
+  const config = getConfig();
+  if (cachedPolicy?.config !== config) {
+    cachedPolicy = { config, policy: UrlPolicy.fromConfig(config) };
+  }
+  return cachedPolicy.policy;
+}
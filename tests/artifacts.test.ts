@@ -0,0 +1,73 @@
+import { strToU8, zipSync } from 'fflate';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { summarizeArtifacts, summarizeTrace } from '../src/artifacts.js';
+
+const events = [
+  { type: 'context-options', options: {} },
+  {
+    type: 'before',
+    callId: 'call@1',
+    class: 'Frame',
+    method: 'goto',
+    params: { url: 'https://app.test/' },
+  },
+  { type: 'after', callId: 'call@1' },
+  { type: 'before', callId: 'call@2', class: 'Frame', method: 'click', title: 'Click #save' },
+  {
+    type: 'after',
+    callId: 'call@2',
+    error: { message: 'Timeout 10000ms exceeded.\nCall log: ...' },
+  },
+  { type: 'before', callId: 'call@3', class: 'Frame', method: 'evaluateExpression' },
+  { type: 'after', callId: 'call@3' },
+];
+
+describe('summarizeTrace', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'websee-artifacts-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('counts the actions of a trace and lists navigations and failures', async () => {
+    const path = join(dir, 'trace.zip');
+    const lines = events.map(event => JSON.stringify(event)).join('\n') + '\nnot json\n';
+    writeFileSync(path, zipSync({ 'trace.trace': strToU8(lines), 'trace.network': strToU8('') }));
+
+    expect(await summarizeTrace(path)).toEqual({
+      total: 3,
+      failed: 1,
+      byName: { 'Frame.goto': 1, 'Frame.click': 1, 'Frame.evaluateExpression': 1 },
+      navigations: ['https://app.test/'],
+      failures: [{ name: 'Click #save', error: 'Timeout 10000ms exceeded.' }],
+    });
+  });
+
+  it('reports no actions for a zip without a trace', async () => {
+    const path = join(dir, 'empty.zip');
+    writeFileSync(path, zipSync({ 'other.txt': strToU8('x') }));
+
+    expect((await summarizeTrace(path)).total).toBe(0);
+  });
+});
+
+describe('summarizeArtifacts', () => {
+  it('names the saved files and counts errors', () => {
+    expect(
+      summarizeArtifacts({
+        trace: 'a/trace.zip',
+        videos: ['a/1.webm'],
+        actions: { total: 4, failed: 0, byName: {}, navigations: [], failures: [] },
+        errors: ['Cannot save video: closed'],
+      })
+    ).toBe('[artifacts: trace a/trace.zip (4 actions), video a/1.webm, 1 error(s)]');
+    expect(summarizeArtifacts({})).toBe('[artifacts: none saved]');
+  });
+});
@@ -0,0 +1,129 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConfigError, loadConfig, matchesPattern, WebSeeConfig } from '../src/config.js';
+
+const CONFIG: WebSeeConfig = {
+  projectRoot: 'app',
+  headless: false,
+  urlAllowlist: ['localhost'],
+  navigation: { waitUntil: 'load', timeoutMs: 5000 },
+  output: { pageSize: 20 },
+  profiles: {
+    staging: {
+      urlAllowlist: ['*.staging.test'],
+      navigation: { timeoutMs: 60000 },
+      audit: { path: 'logs/audit.jsonl' },
+    },
+    ci: { headless: true },
+  },
+};
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'websee-config-'));
+    for (const name of ['WEBSEE_CONFIG', 'WEBSEE_PROFILE', 'HEADLESS', 'PROJECT_ROOT']) {
+      vi.stubEnv(name, '');
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeConfig(config: WebSeeConfig): string {
+    const path = join(dir, 'websee.config.json');
+    writeFileSync(path, JSON.stringify(config));
+    return path;
+  }
+
+  it('applies defaults without a config file', async () => {
+    const config = await loadConfig({ cwd: dir });
+
+    expect(config.configPath).toBeUndefined();
+    expect(config.profile).toBeUndefined();
+    expect(config.projectRoot).toBe(dir);
+    expect(config.navigation).toEqual({
+      waitUntil: 'networkidle',
+      timeoutMs: 30000,
+      maxPerCall: 10,
+    });
+    expect(config.output.pageSize).toBe(100);
+  });
+
+  it('reads the file found in the directory and resolves paths against it', async () => {
+    const path = writeConfig(CONFIG);
+
+    const config = await loadConfig({ cwd: dir });
+
+    expect(config.configPath).toBe(path);
+    expect(config.projectRoot).toBe(join(dir, 'app'));
+    expect(config.headless).toBe(false);
+    expect(config.navigation).toEqual({ waitUntil: 'load', timeoutMs: 5000, maxPerCall: 10 });
+  });
+
+  it('merges the selected profile section by section and replaces lists', async () => {
+    writeConfig(CONFIG);
+
+    const config = await loadConfig({ cwd: dir, profile: 'staging' });
+
+    expect(config.profile).toBe('staging');
+    expect(config.urlAllowlist).toEqual(['*.staging.test']);
+    expect(config.navigation).toEqual({ waitUntil: 'load', timeoutMs: 60000, maxPerCall: 10 });
+    expect(config.output.pageSize).toBe(20);
+    expect(config.audit.path).toBe(join(dir, 'logs/audit.jsonl'));
+    expect(config.headless).toBe(false);
+  });
+
+  it('selects the profile from WEBSEE_PROFILE, then defaultProfile', async () => {
+    writeConfig({ ...CONFIG, defaultProfile: 'ci' });
+
+    expect((await loadConfig({ cwd: dir })).profile).toBe('ci');
+    vi.stubEnv('WEBSEE_PROFILE', 'staging');
+    expect((await loadConfig({ cwd: dir })).profile).toBe('staging');
+    expect((await loadConfig({ cwd: dir, profile: 'ci' })).headless).toBe(true);
+  });
+
+  it('rejects an unknown profile and lists the available ones', async () => {
+    writeConfig(CONFIG);
+
+    await expect(loadConfig({ cwd: dir, profile: 'prod' })).rejects.toThrow(ConfigError);
+    await expect(loadConfig({ cwd: dir, profile: 'prod' })).rejects.toThrow(
+      'Unknown profile "prod" (available: staging, ci)'
+    );
+    await expect(
+      loadConfig({ cwd: dir, profile: 'prod', configPath: 'missing.json' })
+    ).rejects.toThrow(/Config file not found/);
+  });
+
+  it('rejects unknown settings', async () => {
+    writeFileSync(join(dir, 'websee.config.json'), JSON.stringify({ navigation: { retries: 3 } }));
+
+    await expect(loadConfig({ cwd: dir })).rejects.toThrow(/Invalid config in .*navigation/);
+  });
+
+  it('lets environment variables win over the file', async () => {
+    writeConfig(CONFIG);
+    vi.stubEnv('HEADLESS', 'true');
+
+    expect((await loadConfig({ cwd: dir })).headless).toBe(true);
+  });
+});
+
+describe('matchesPattern', () => {
+  it('matches `*` against any run of characters, ignoring case', () => {
+    expect(matchesPattern('https://app.test/api/users?id=1', '*/api/*')).toBe(true);
+    expect(matchesPattern('API.Example.com', '*.example.com')).toBe(true);
+    expect(matchesPattern('example.com', '*.example.com')).toBe(false);
+  });
+
+  it('treats other characters literally', () => {
+    expect(matchesPattern('https://app.test/a+b', 'https://app.test/a+b')).toBe(true);
+    expect(matchesPattern('https://appXtest/', 'https://app.test/')).toBe(false);
+    expect(matchesPattern('https://app.test/?q=1', 'https://app.test/?q=1')).toBe(true);
+  });
+});
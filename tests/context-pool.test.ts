@@ -0,0 +1,130 @@
+import { existsSync } from 'fs';
+import { chromium, type BrowserContext, type Page, type Request } from 'playwright';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BrowserManager } from '../src/browser-manager.js';
+import { ContextPool } from '../src/context-pool.js';
+import { setLogLevel } from '../src/logger.js';
+
+setLogLevel('silent');
+
+const OPTIONS = { maxConcurrency: 1, maxUsesPerContext: 10, acquireTimeoutMs: 1000 };
+
+function fakeContext(browserName: string) {
+  const listeners: Record<string, (value: unknown) => void> = {};
+  const cdp = { send: vi.fn(async () => ({})), detach: vi.fn(async () => {}) };
+  let pages: Page[] = [];
+
+  const context = {
+    on: (event: string, listener: (value: unknown) => void) => {
+      listeners[event] = listener;
+    },
+    browser: () => ({ isConnected: () => true, browserType: () => ({ name: () => browserName }) }),
+    pages: () => pages,
+    newPage: async () => {
+      const page = {
+        on: () => {},
+        close: async () => {
+          pages = pages.filter(other => other !== page);
+        },
+      } as unknown as Page;
+      pages.push(page);
+      return page;
+    },
+    newCDPSession: vi.fn(async () => cdp),
+    clearCookies: vi.fn(async () => {}),
+    clearPermissions: vi.fn(async () => {}),
+    setOffline: vi.fn(async () => {}),
+    close: vi.fn(async () => {}),
+  };
+  const load = (url: string) => listeners.request({ url: () => url } as Request);
+
+  return { context, cdp, load };
+}
+
+function poolOf(...contexts: Array<ReturnType<typeof fakeContext>['context']>) {
+  const browserManager = {
+    newContext: vi.fn(async () => contexts.shift() as unknown as BrowserContext),
+  } as unknown as BrowserManager;
+  return { pool: new ContextPool(browserManager, OPTIONS), browserManager };
+}
+
+describe('ContextPool', () => {
+  it('clears all storage of the origins a call loaded before reusing its context', async () => {
+    const { context, cdp, load } = fakeContext('chromium');
+    const { pool, browserManager } = poolOf(context);
+
+    await pool.withPage(async () => {
+      load('https://app.test/');
+      load('https://cdn.test/app.js');
+      load('data:text/plain,hi');
+    });
+    await pool.withPage(async () => {});
+
+    expect(browserManager.newContext).toHaveBeenCalledTimes(1);
+    expect(cdp.send).toHaveBeenCalledWith('Storage.clearDataForOrigin', {
+      origin: 'https://app.test',
+      storageTypes: 'all',
+    });
+    expect(cdp.send).toHaveBeenCalledWith('Storage.clearDataForOrigin', {
+      origin: 'https://cdn.test',
+      storageTypes: 'all',
+    });
+    expect(cdp.send).toHaveBeenCalledWith('Network.clearBrowserCache');
+    // The second call loaded nothing, so its reset only clears the cache
+    expect(cdp.send).toHaveBeenCalledTimes(4);
+    expect(context.clearCookies).toHaveBeenCalled();
+    expect(context.close).not.toHaveBeenCalled();
+  });
+
+  it('gives every call a new context on browsers it cannot reset', async () => {
+    const first = fakeContext('firefox');
+    const second = fakeContext('firefox');
+    const { pool, browserManager } = poolOf(first.context, second.context);
+
+    await pool.withPage(async () => {});
+    await pool.withPage(async () => {});
+
+    expect(browserManager.newContext).toHaveBeenCalledTimes(2);
+    expect(first.context.close).toHaveBeenCalled();
+  });
+});
+
+describe.skipIf(!existsSync(chromium.executablePath()))('ContextPool in Chromium', () => {
+  const browserManager = new BrowserManager();
+  const pool = new ContextPool(browserManager, OPTIONS);
+
+  afterEach(async () => {
+    await pool.close();
+    await browserManager.close();
+  });
+
+  it('does not carry IndexedDB over to the next call', async () => {
+    const open = async (page: Page) => {
+      await page.route('https://app.test/', route =>
+        route.fulfill({ contentType: 'text/html', body: '<title>app</title>' })
+      );
+      await page.goto('https://app.test/');
+    };
+    const databases = (page: Page) =>
+      page.evaluate(async () => (await indexedDB.databases()).map(database => database.name));
+
+    await pool.withPage(async page => {
+      await open(page);
+      await page.evaluate(
+        () =>
+          new Promise(done => {
+            indexedDB.open('leftover').onsuccess = done;
+          })
+      );
+      expect(await databases(page)).toEqual(['leftover']);
+    });
+
+    const names = await pool.withPage(async page => {
+      await open(page);
+      return databases(page);
+    });
+
+    expect(pool.stats().idle).toBe(1);
+    expect(names).toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { REDACTED } from '../src/audit-log.js';
+import { buildHar, CapturedExchange, importHar, LocationResolver } from '../src/har.js';
+
+const timing = {
+  startTime: 1700000000000,
+  domainLookupStart: 1,
+  domainLookupEnd: 3,
+  connectStart: 3,
+  secureConnectionStart: 5,
+  connectEnd: 8,
+  requestStart: 8,
+  responseStart: 20,
+  responseEnd: 25,
+};
+
+const login: CapturedExchange = {
+  request: {
+    url: 'https://app.test/api/login?token=abc&next=%2Fhome',
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      authorization: 'Bearer secret-token',
+      cookie: 'sid=123; theme=dark',
+    },
+    postData: JSON.stringify({ user: 'alice', password: 'hunter2' }),
+    resourceType: 'fetch',
+    timestamp: timing.startTime,
+  },
+  response: {
+    url: 'https://app.test/api/login?token=abc&next=%2Fhome',
+    status: 200,
+    statusText: 'OK',
+    headers: { 'content-type': 'application/json', 'set-cookie': 'sid=456; HttpOnly' },
+    timing,
+    body: JSON.stringify({ accessToken: 'jwt-value', user: { name: 'Alice' } }),
+  },
+  trace: {
+    url: 'https://app.test/api/login',
+    method: 'POST',
+    timestamp: timing.startTime,
+    stackTrace: ['at submit (https://app.test/main.js:10:5)', 'at https://app.test/main.js:2:1'],
+    initiator: { type: 'fetch', url: 'https://app.test/main.js', lineNumber: 10, columnNumber: 5 },
+  },
+};
+
+const image: CapturedExchange = {
+  request: {
+    url: 'https://app.test/logo.png',
+    method: 'GET',
+    headers: {},
+    resourceType: 'image',
+    timestamp: timing.startTime + 50,
+  },
+  response: {
+    url: 'https://app.test/logo.png',
+    status: 200,
+    statusText: 'OK',
+    headers: { 'content-type': 'image/png' },
+    body: '\u0089PNG',
+  },
+};
+
+describe('buildHar', () => {
+  it('writes entries oldest first with a page', () => {
+    const har = buildHar([image, login], { page: { url: 'https://app.test/', title: 'App' } });
+
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.pages).toHaveLength(1);
+    expect(har.log.entries.map(entry => entry.request.url)).toEqual([
+      `https://app.test/api/login?token=${REDACTED}&next=%2Fhome`,
+      'https://app.test/logo.png',
+    ]);
+    expect(har.log.entries.every(entry => entry.pageref === 'page_1')).toBe(true);
+  });
+
+  it('redacts headers, cookies, query parameters and bodies', () => {
+    const [entry] = buildHar([login]).log.entries;
+    const serialized = JSON.stringify(entry);
+
+    for (const secret of ['secret-token', 'hunter2', 'jwt-value', 'sid=123', '456', 'abc']) {
+      expect(serialized).not.toContain(secret);
+    }
+    expect(JSON.parse(entry.request.postData!.text)).toEqual({ user: 'alice', password: REDACTED });
+    expect(JSON.parse(entry.response.content.text!)).toEqual({
+      accessToken: REDACTED,
+      user: { name: 'Alice' },
+    });
+    expect(entry.request.cookies).toEqual([
+      { name: 'sid', value: REDACTED },
+      { name: 'theme', value: REDACTED },
+    ]);
+  });
+
+  it('keeps everything with redaction off', () => {
+    const [entry] = buildHar([login], { redact: false }).log.entries;
+
+    expect(entry.request.url).toBe(login.request.url);
+    expect(entry.response.content.text).toBe(login.response!.body);
+  });
+
+  it('leaves out binary bodies, and all bodies when asked to', () => {
+    const [withBodies] = buildHar([image]).log.entries;
+    expect(withBodies.response.content).toMatchObject({ mimeType: 'image/png' });
+    expect(withBodies.response.content.text).toBeUndefined();
+
+    const [entry] = buildHar([login], { includeBodies: false }).log.entries;
+    expect(entry.request.postData).toBeUndefined();
+    expect(entry.response.content.text).toBeUndefined();
+  });
+
+  it('exports timings and a zero-based initiator stack', () => {
+    const [entry] = buildHar([login]).log.entries;
+
+    expect(entry.timings).toMatchObject({ dns: 2, connect: 5, ssl: 3, wait: 12, receive: 5 });
+    expect(entry._initiator?.stack?.callFrames[0]).toEqual({
+      functionName: 'submit',
+      url: 'https://app.test/main.js',
+      lineNumber: 9,
+      columnNumber: 4,
+    });
+  });
+});
+
+describe('importHar', () => {
+  it('restores requests, responses and traces of an exported log', async () => {
+    const har = buildHar([login, image], { redact: false });
+    const [request, logo] = await importHar(har);
+
+    expect(request.request).toMatchObject({
+      url: login.request.url,
+      method: 'POST',
+      postData: login.request.postData,
+      resourceType: 'fetch',
+    });
+    expect(request.response).toMatchObject({ status: 200, body: login.response!.body });
+    expect(request.response?.headers['content-type']).toBe('application/json');
+    expect(request.trace?.stackTrace).toEqual(login.trace!.stackTrace);
+    expect(request.trace?.initiator).toMatchObject({ type: 'fetch', lineNumber: 10 });
+    expect(logo.trace).toBeUndefined();
+  });
+
+  it('maps initiator frames to original sources', async () => {
+    const resolve: LocationResolver = async (url, line, column) =>
+      url.endsWith('main.js') && line === 10 ? { file: 'src/Login.tsx', line: 42, column } : null;
+    const [exchange] = await importHar(buildHar([login]), resolve);
+
+    expect(exchange.trace?.stackTrace[0]).toBe('at submit (src/Login.tsx:42:5)');
+    expect(exchange.trace?.stackTrace[1]).toBe('at https://app.test/main.js:2:1');
+  });
+});
@@ -0,0 +1,134 @@
+import type { Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { isLoopbackHost, startHttpTransport } from '../src/http-transport.js';
+import { setLogLevel } from '../src/logger.js';
+
+setLogLevel('silent');
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test', version: '1.0.0' },
+  },
+};
+
+const HEADERS = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+};
+
+describe('startHttpTransport', () => {
+  let httpServer: HttpServer | undefined;
+  const servers: Server[] = [];
+
+  afterEach(async () => {
+    await new Promise(done => httpServer?.close(done));
+    httpServer = undefined;
+    servers.length = 0;
+  });
+
+  async function start(idleTimeoutMs?: number): Promise<string> {
+    const createServer = () => {
+      const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+      server.onclose = vi.fn();
+      servers.push(server);
+      return server;
+    };
+    httpServer = await startHttpTransport(createServer, {
+      port: 0,
+      host: '127.0.0.1',
+      idleTimeoutMs,
+    });
+    return `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+  }
+
+  it('refuses a body over the size limit with 413', async () => {
+    const url = await start();
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: HEADERS,
+      body: JSON.stringify({ ...INITIALIZE, padding: 'x'.repeat(5 * 1024 * 1024) }),
+    });
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.message).toMatch(/Payload Too Large/);
+  });
+
+  it('refuses an oversized body sent without a length with 413', async () => {
+    const url = await start();
+    const chunk = new TextEncoder().encode('x'.repeat(1024 * 1024));
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(chunk);
+      },
+    });
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: HEADERS,
+      body,
+      duplex: 'half',
+    } as RequestInit);
+
+    expect(response.status).toBe(413);
+    await body.cancel().catch(() => {});
+  });
+
+  it('answers a body that is not JSON with a parse error', async () => {
+    const url = await start();
+    const response = await fetch(url, { method: 'POST', headers: HEADERS, body: '{' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe(-32700);
+  });
+
+  it('closes the server of an initialize that gets no session', async () => {
+    const url = await start();
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { ...HEADERS, Accept: 'application/json' },
+      body: JSON.stringify(INITIALIZE),
+    });
+
+    expect(response.status).toBe(406);
+    expect(response.headers.get('mcp-session-id')).toBeNull();
+    expect(servers[0].onclose).toHaveBeenCalled();
+  });
+
+  it('closes sessions that stay idle', async () => {
+    const url = await start(50);
+    const initialized = await fetch(url, {
+      method: 'POST',
+      headers: HEADERS,
+      body: JSON.stringify(INITIALIZE),
+    });
+    const sessionId = initialized.headers.get('mcp-session-id');
+    await initialized.text();
+    expect(sessionId).toBeTruthy();
+
+    const onclose = vi.fn();
+    servers[0].onclose = onclose;
+    await new Promise(done => setTimeout(done, 200));
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { ...HEADERS, 'mcp-session-id': sessionId! },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }),
+    });
+    expect(response.status).toBe(404);
+    expect(onclose).toHaveBeenCalled();
+  });
+});
+
+describe('isLoopbackHost', () => {
+  it('recognizes local addresses', () => {
+    expect(isLoopbackHost('127.0.0.1')).toBe(true);
+    expect(isLoopbackHost('localhost')).toBe(true);
+    expect(isLoopbackHost('0.0.0.0')).toBe(false);
+  });
+});
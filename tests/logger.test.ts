@@ -0,0 +1,63 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  addLogSink,
+  createLogger,
+  LogEntry,
+  LogSink,
+  parseLogLevel,
+  setLogLevel,
+  withLogSink,
+} from '../src/logger.js';
+
+const logger = createLogger('test');
+
+function collect(level: LogSink['level'] = 'info') {
+  const entries: LogEntry[] = [];
+  return { sink: { level, write: (entry: LogEntry) => entries.push(entry) }, entries };
+}
+
+describe('logger', () => {
+  beforeAll(() => setLogLevel('silent'));
+
+  it('parses level names', () => {
+    expect(parseLogLevel(' WARN ')).toBe('warning');
+    expect(parseLogLevel('silent')).toBe('silent');
+    expect(parseLogLevel('loud')).toBeUndefined();
+  });
+
+  it('filters registered sinks by their level', () => {
+    const { sink, entries } = collect('warning');
+    const remove = addLogSink(sink);
+    logger.info('ignored');
+    logger.error('kept', new Error('boom'));
+    remove();
+    logger.error('after removal');
+
+    expect(entries.map(entry => entry.message)).toEqual(['kept']);
+    expect(entries[0].data).toMatchObject({ message: 'boom' });
+  });
+
+  it('keeps the entries of concurrent requests apart', async () => {
+    const first = collect();
+    const second = collect();
+
+    await Promise.all([
+      withLogSink(first.sink, async () => {
+        await new Promise(done => setTimeout(done, 5));
+        logger.info('first client');
+      }),
+      withLogSink(second.sink, async () => {
+        logger.info('second client');
+        await new Promise(done => setTimeout(done, 10));
+        logger.info('second client again');
+      }),
+    ]);
+    logger.info('outside any request');
+
+    expect(first.entries.map(entry => entry.message)).toEqual(['first client']);
+    expect(second.entries.map(entry => entry.message)).toEqual([
+      'second client',
+      'second client again',
+    ]);
+  });
+});
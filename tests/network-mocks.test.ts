@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { APIResponse, Page, Request, Route } from 'playwright';
+import { getConfig, ResolvedConfig, setConfig } from '../src/config.js';
+import { applyNetworkMocks } from '../src/network-mocks.js';
+import { setLogLevel } from '../src/logger.js';
+import { takeBlockedNavigation } from '../src/url-policy.js';
+
+setLogLevel('silent');
+
+describe('NetworkMocks', () => {
+  let config: ResolvedConfig;
+  let handle: (route: Route, request: Request) => Promise<void>;
+  const page = {
+    route: vi.fn(async (_url, handler) => {
+      handle = handler;
+    }),
+    unroute: vi.fn(async () => {}),
+    isClosed: () => false,
+  } as unknown as Page;
+
+  beforeEach(() => {
+    config = getConfig();
+    setConfig({ ...config, urlAllowlist: [], urlDenylist: ['admin.internal'] });
+  });
+
+  afterEach(() => {
+    setConfig(config);
+  });
+
+  function fakeResponse(status: number, headers: Record<string, string> = {}) {
+    return {
+      status: () => status,
+      headers: () => headers,
+      json: async () => ({}),
+    } as unknown as APIResponse;
+  }
+
+  function fakeRoute(response: APIResponse) {
+    return {
+      fetch: vi.fn(async () => response),
+      fulfill: vi.fn(async () => {}),
+      abort: vi.fn(async () => {}),
+      fallback: vi.fn(async () => {}),
+    };
+  }
+
+  function fakeRequest(url: string, type = 'document') {
+    return {
+      url: () => url,
+      method: () => 'GET',
+      isNavigationRequest: () => type === 'document',
+      resourceType: () => type,
+      frame: () => ({ page: () => page }),
+    } as unknown as Request;
+  }
+
+  it('does not let a passthrough mock follow a redirect to a denied host', async () => {
+    const mocks = await applyNetworkMocks(page, {
+      rules: [{ pattern: 'https://app.test/*', passthrough: true, headers: { 'x-mocked': '1' } }],
+    });
+    const route = fakeRoute(fakeResponse(302, { location: 'http://admin.internal/secrets' }));
+
+    await handle(route as unknown as Route, fakeRequest('https://app.test/login'));
+
+    expect(route.fetch).toHaveBeenCalledWith({ maxRedirects: 0 });
+    expect(route.fulfill).not.toHaveBeenCalled();
+    expect(route.abort).toHaveBeenCalledWith('blockedbyclient');
+    expect(takeBlockedNavigation(page)?.url).toBe('http://admin.internal/secrets');
+    expect(mocks.applied[0]).toMatchObject({ action: 'passthrough', error: expect.any(String) });
+  });
+
+  it('hands an allowed redirect to the page to follow', async () => {
+    await applyNetworkMocks(page, {
+      rules: [{ pattern: 'https://app.test/*', passthrough: true }],
+    });
+    const response = fakeResponse(302, { location: '/home' });
+    const route = fakeRoute(response);
+
+    await handle(route as unknown as Route, fakeRequest('https://app.test/login'));
+
+    expect(route.fulfill).toHaveBeenCalledWith({ response });
+  });
+
+  it('leaves document requests the policy forbids to the navigation guard', async () => {
+    await applyNetworkMocks(page, { rules: [{ pattern: '*', status: 200, body: 'mocked' }] });
+    const route = fakeRoute(fakeResponse(200));
+
+    await handle(route as unknown as Route, fakeRequest('http://admin.internal/'));
+
+    expect(route.fallback).toHaveBeenCalled();
+    expect(route.fulfill).not.toHaveBeenCalled();
+  });
+
+  it('still mocks subresources on any host', async () => {
+    await applyNetworkMocks(page, { rules: [{ pattern: '*/api/*', status: 503 }] });
+    const route = fakeRoute(fakeResponse(200));
+
+    await handle(
+      route as unknown as Route,
+      fakeRequest('http://admin.internal/api/users', 'fetch')
+    );
+
+    expect(route.fulfill).toHaveBeenCalledWith({ status: 503, headers: undefined });
+  });
+});
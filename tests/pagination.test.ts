@@ -0,0 +1,182 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CursorError, fitToBudget, paginate, ResultStore } from '../src/pagination.js';
+
+const capture = () => ({
+  url: 'https://app.test/',
+  requests: Array.from({ length: 5 }, (_, index) => ({ id: index })),
+  errors: ['a', 'b'],
+});
+
+describe('paginate', () => {
+  it('returns the first page and a cursor to the rest', async () => {
+    const run = { results: new ResultStore() };
+    const first = await paginate(
+      'network_get_requests',
+      { limit: 2 },
+      run,
+      ['requests', 'errors'],
+      async () => capture()
+    );
+
+    expect(first.url).toBe('https://app.test/');
+    expect(first.requests).toEqual([{ id: 0 }, { id: 1 }]);
+    expect(first.errors).toEqual(['a', 'b']);
+    expect(first.page).toMatchObject({ offset: 0, limit: 2, totals: { requests: 5, errors: 2 } });
+    expect(first.page.nextCursor).toBeTruthy();
+  });
+
+  it('pages through the stored capture without capturing again', async () => {
+    const run = { results: new ResultStore() };
+    const load = vi.fn(async () => capture());
+    const pages = [await paginate('network_get_requests', { limit: 2 }, run, ['requests'], load)];
+    while (pages[pages.length - 1].page.nextCursor) {
+      const cursor = pages[pages.length - 1].page.nextCursor;
+      pages.push(
+        await paginate('network_get_requests', { limit: 2, cursor }, run, ['requests'], load)
+      );
+    }
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(pages.map(page => page.requests.map(request => request.id))).toEqual([
+      [0, 1],
+      [2, 3],
+      [4],
+    ]);
+    expect(pages[2].page.offset).toBe(4);
+  });
+
+  it('stores nothing when everything fits on one page', async () => {
+    const results = new ResultStore();
+    const put = vi.spyOn(results, 'put');
+    const page = await paginate(
+      'network_get_requests',
+      { limit: 10 },
+      { results },
+      ['requests'],
+      async () => capture()
+    );
+
+    expect(page.requests).toHaveLength(5);
+    expect(page.page.nextCursor).toBeUndefined();
+    expect(put).not.toHaveBeenCalled();
+  });
+
+  it('returns only the first page when the run has nowhere to store the capture', async () => {
+    const first = await paginate('network_get_requests', { limit: 2 }, {}, ['requests'], async () =>
+      capture()
+    );
+
+    expect(first.requests).toHaveLength(2);
+    expect(first.page.totals.requests).toBe(5);
+    expect(first.page.nextCursor).toBeUndefined();
+  });
+
+  it('rejects malformed, expired and foreign cursors', async () => {
+    const run = { results: new ResultStore() };
+    const { page } = await paginate('component_tree', { limit: 1 }, run, ['requests'], async () =>
+      capture()
+    );
+    const never = async () => {
+      throw new Error('should not capture');
+    };
+
+    await expect(
+      paginate('component_tree', { cursor: 'nope' }, run, ['requests'], never)
+    ).rejects.toThrow(CursorError);
+    await expect(
+      paginate('network_get_requests', { cursor: page.nextCursor }, run, ['requests'], never)
+    ).rejects.toThrow(/issued by component_tree/);
+    await expect(
+      paginate(
+        'component_tree',
+        { cursor: page.nextCursor },
+        { results: new ResultStore() },
+        ['requests'],
+        never
+      )
+    ).rejects.toThrow(/expired/);
+  });
+});
+
+describe('ResultStore', () => {
+  it('drops the oldest capture when full', () => {
+    const store = new ResultStore(2);
+    const first = store.put('a', {});
+    const second = store.put('b', {});
+    const third = store.put('c', {});
+
+    expect(store.get(first)).toBeUndefined();
+    expect(store.get(second)?.tool).toBe('b');
+    expect(store.get(third)?.tool).toBe('c');
+  });
+
+  it('forgets captures older than the TTL', () => {
+    vi.useFakeTimers();
+    try {
+      const store = new ResultStore(10, 1000);
+      const id = store.put('a', {});
+      vi.advanceTimersByTime(1001);
+      expect(store.get(id)).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('fitToBudget', () => {
+  it('returns results that fit unchanged', () => {
+    const value = { items: [1, 2, 3] };
+
+    expect(fitToBudget(value, 1000)).toEqual({ value });
+    expect(fitToBudget(value, 0)).toEqual({ value });
+  });
+
+  it('halves the largest list first and reports what it dropped', () => {
+    const value = {
+      small: [1, 2],
+      large: Array.from({ length: 100 }, (_, index) => ({ index, text: 'x'.repeat(20) })),
+    };
+
+    const { value: fitted, truncation } = fitToBudget(value, 1000) as {
+      value: typeof value;
+      truncation: NonNullable<ReturnType<typeof fitToBudget>['truncation']>;
+    };
+
+    expect(JSON.stringify(fitted).length).toBeLessThanOrEqual(1000);
+    expect(fitted.small).toEqual([1, 2]);
+    expect(fitted.large.length + truncation.omittedItems['$.large']).toBe(100);
+    expect(truncation).toMatchObject({ maxBytes: 1000, truncatedStrings: 0 });
+    expect(truncation.originalBytes).toBe(JSON.stringify(value).length);
+    expect(truncation.bytes).toBe(JSON.stringify(fitted).length);
+    expect(value.large).toHaveLength(100);
+  });
+
+  it('shortens long strings once lists cannot shrink further', () => {
+    const value = { source: 'y'.repeat(5000) };
+
+    const { value: fitted, truncation } = fitToBudget(value, 1000);
+    const source = (fitted as typeof value).source;
+
+    expect(source).toMatch(/…\(\+\d+ chars\)$/);
+    expect(source.length).toBeLessThan(1000);
+    expect(truncation?.omittedItems).toEqual({});
+    expect(truncation?.truncatedStrings).toBeGreaterThan(0);
+    expect(truncation?.bytes).toBeLessThanOrEqual(1000);
+    expect(truncation?.bytes).toBe(Buffer.byteLength(JSON.stringify(fitted)));
+  });
+
+  it('keeps count of the bytes of nested lists and multibyte strings', () => {
+    const value = {
+      groups: Array.from({ length: 8 }, (_, group) => ({
+        name: `group ${group}`,
+        items: Array.from({ length: 30 }, (_, index) => ({ index, label: 'é'.repeat(40) })),
+      })),
+      notes: ['ü'.repeat(3000)],
+    };
+
+    const { value: fitted, truncation } = fitToBudget(value, 4000);
+
+    expect(truncation?.bytes).toBe(Buffer.byteLength(JSON.stringify(fitted)));
+    expect(truncation?.bytes).toBeLessThanOrEqual(4000);
+  });
+});
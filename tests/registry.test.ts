@@ -0,0 +1,76 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { BrowserManager } from '../src/browser-manager.js';
+import { setLogLevel } from '../src/logger.js';
+import { SessionManager } from '../src/session-manager.js';
+import { ALL_TOOLS } from '../src/tools/index.js';
+import { defineSessionTool, SessionToolDefinition, ToolRegistry } from '../src/tools/registry.js';
+
+setLogLevel('silent');
+
+const registry = new ToolRegistry([
+  defineSessionTool({
+    name: 'count_items',
+    description: 'Counts items',
+    inputSchema: z.object({ value: z.unknown() }),
+    outputSchema: z.object({ count: z.number(), items: z.array(z.string()) }),
+    handler: async (_sessions, params) => params.value,
+  }),
+]);
+
+describe('ToolRegistry.toCallToolResult', () => {
+  it('sends a matching result as structured content and as JSON text', () => {
+    const value = { count: 1, items: ['a'] };
+
+    const result = registry.toCallToolResult('count_items', value);
+
+    expect(result.structuredContent).toEqual(value);
+    expect(result.content).toHaveLength(2);
+    expect(JSON.parse((result.content[1] as { text: string }).text)).toEqual(value);
+    expect(result.isError).toBeUndefined();
+  });
+
+  it('leaves out structured content that does not match the output schema', () => {
+    const value = { count: '1', items: 'a' };
+
+    const result = registry.toCallToolResult('count_items', value);
+
+    expect(result).not.toHaveProperty('structuredContent');
+    expect(JSON.parse((result.content[1] as { text: string }).text)).toEqual(value);
+  });
+
+  it('reports a missing result as a tool error', () => {
+    const result = registry.toCallToolResult('count_items', null);
+
+    expect(result.isError).toBe(true);
+    expect(result).not.toHaveProperty('structuredContent');
+  });
+});
+
+describe('tool output', () => {
+  const tools = new ToolRegistry(ALL_TOOLS);
+  const sessions = new SessionManager(new BrowserManager());
+
+  // Session tools that run without a browser, so their real output can be checked
+  it.each([
+    ['session_list', {}],
+    ['session_close', { sessionId: 'missing' }],
+    ['tab_list', {}],
+  ])('%s returns what its output schema declares', async (name, args) => {
+    const tool = tools.get(name) as SessionToolDefinition;
+
+    const value = await tool.handler(sessions, tools.parse(name, args), {});
+    const result = tools.toCallToolResult(name, value);
+
+    expect(result.structuredContent).toEqual(value);
+  });
+
+  it('rejects saving the login state of an unknown session as invalid params', async () => {
+    const tool = tools.get('session_save_auth') as SessionToolDefinition;
+
+    await expect(
+      tool.handler(sessions, tools.parse('session_save_auth', { sessionId: 'missing' }), {})
+    ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SERIALIZE_LIMITS,
+  resolveSerializeLimits,
+  serializeValue,
+  SerializeLimits,
+} from '../src/serializer.js';
+
+function serialize(value: unknown, limits: Partial<SerializeLimits> = {}): unknown {
+  return serializeValue(value, resolveSerializeLimits(limits));
+}
+
+describe('resolveSerializeLimits', () => {
+  it('fills in the defaults', () => {
+    expect(resolveSerializeLimits()).toEqual(DEFAULT_SERIALIZE_LIMITS);
+    expect(resolveSerializeLimits({ maxDepth: 2 })).toEqual({
+      ...DEFAULT_SERIALIZE_LIMITS,
+      maxDepth: 2,
+    });
+  });
+});
+
+describe('serializeValue', () => {
+  it('keeps plain JSON values', () => {
+    const value = { name: 'Alice', age: 30, admin: false, tags: ['a', 'b'], manager: null };
+
+    expect(serialize(value)).toEqual(value);
+  });
+
+  it('tags values JSON cannot represent', () => {
+    function onClick() {}
+
+    expect(
+      serialize({
+        onClick,
+        missing: undefined,
+        big: 10n,
+        id: Symbol('id'),
+        ratio: NaN,
+        at: new Date('2026-01-01T00:00:00.000Z'),
+        pattern: /a+/g,
+        failure: new TypeError('bad'),
+        bytes: new Uint8Array(4),
+        pending: Promise.resolve(),
+      })
+    ).toEqual({
+      onClick: { __type: 'function', name: 'onClick' },
+      missing: { __type: 'undefined' },
+      big: { __type: 'bigint', value: '10' },
+      id: { __type: 'symbol', description: 'id' },
+      ratio: { __type: 'number', value: 'NaN' },
+      at: { __type: 'date', value: '2026-01-01T00:00:00.000Z' },
+      pattern: { __type: 'regexp', value: '/a+/g' },
+      failure: { __type: 'error', name: 'TypeError', message: 'bad' },
+      bytes: { __type: 'binary', className: 'Uint8Array', byteLength: 4 },
+      pending: { __type: 'instance', className: 'Promise' },
+    });
+  });
+
+  it('summarizes React elements instead of walking them', () => {
+    const element = { $$typeof: Symbol.for('react.element'), type: { name: 'Button' }, key: 1 };
+
+    expect(serialize({ children: element })).toEqual({
+      children: { __type: 'react-element', type: 'Button', key: '1' },
+    });
+  });
+
+  it('marks circular references with the path of the repeated value', () => {
+    const node: Record<string, unknown> = { name: 'root', child: {} };
+    (node.child as Record<string, unknown>).parent = node;
+
+    expect(serialize(node)).toEqual({
+      name: 'root',
+      child: { parent: { __type: 'circular', path: '$' } },
+    });
+  });
+
+  it('serializes the same object twice when it is not an ancestor', () => {
+    const shared = { id: 1 };
+
+    expect(serialize({ a: shared, b: shared })).toEqual({ a: { id: 1 }, b: { id: 1 } });
+  });
+
+  it('serializes Maps, Sets and class instances', () => {
+    class User {
+      constructor(public name: string) {}
+    }
+
+    expect(
+      serialize({
+        roles: new Map([['alice', 'admin']]),
+        ids: new Set([1, 2]),
+        user: new User('Alice'),
+      })
+    ).toEqual({
+      roles: { __type: 'map', size: 1, entries: [['alice', 'admin']] },
+      ids: { __type: 'set', size: 2, values: [1, 2] },
+      user: { __type: 'instance', className: 'User', properties: { name: 'Alice' } },
+    });
+  });
+
+  it('cuts strings, depth and breadth to the limits', () => {
+    const limits = { maxStringLength: 5, maxDepth: 2, maxBreadth: 2 };
+
+    expect(serialize('abcdefgh', limits)).toBe('abcde…(+3 chars)');
+    expect(serialize({ a: { b: { c: 1 } } }, limits)).toEqual({
+      a: { b: { __type: 'truncated', reason: 'depth', preview: 'Object {1 keys}' } },
+    });
+    expect(serialize([1, 2, 3, 4], limits)).toEqual([
+      1,
+      2,
+      { __type: 'truncated', reason: 'breadth', omitted: 2 },
+    ]);
+    expect(serialize({ a: 1, b: 2, c: 3 }, limits)).toEqual({
+      a: 1,
+      b: 2,
+      __truncated: { reason: 'breadth', omitted: 1 },
+    });
+    expect(serialize(new Set([1, 2, 3]), limits)).toEqual({
+      __type: 'set',
+      size: 3,
+      values: [1, 2],
+      omitted: 1,
+    });
+  });
+
+  it('summarizes objects past the node limit', () => {
+    expect(serialize({ a: [1], b: [2] }, { maxNodes: 2 })).toEqual({
+      a: [1],
+      b: { __type: 'truncated', reason: 'size', preview: 'Array(1)' },
+    });
+  });
+
+  it('records getters that throw', () => {
+    const value = {
+      get broken() {
+        throw new Error('nope');
+      },
+    };
+
+    expect(serialize(value)).toEqual({
+      broken: { __type: 'unreadable', message: 'Error: nope' },
+    });
+  });
+
+  it('runs on its own source, as it does in the page', () => {
+    const inPage = new Function(`return (${serializeValue.toString()})`)() as typeof serializeValue;
+
+    expect(
+      inPage({ when: new Date(0), list: [1, 2, 3] }, resolveSerializeLimits({ maxBreadth: 2 }))
+    ).toEqual({
+      when: { __type: 'date', value: '1970-01-01T00:00:00.000Z' },
+      list: [1, 2, { __type: 'truncated', reason: 'breadth', omitted: 1 }],
+    });
+  });
+});
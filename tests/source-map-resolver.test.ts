@@ -0,0 +1,61 @@
+import { SourceMapGenerator } from 'source-map';
+import type { Page } from 'playwright';
+import { describe, expect, it, vi } from 'vitest';
+import { SourceMapResolver } from '../src/source-map-resolver.js';
+
+const SCRIPT_URL = 'https://app.test/assets/main.js';
+const MAP_URL = 'https://app.test/assets/main.js.map';
+
+function sourceMap(): string {
+  const generator = new SourceMapGenerator({ file: 'main.js' });
+  generator.addMapping({
+    generated: { line: 1, column: 10 },
+    original: { line: 3, column: 2 },
+    source: 'src/App.tsx',
+    name: 'render',
+  });
+  generator.setSourceContent('src/App.tsx', 'import x;\n\nfunction render() {}\n');
+  return generator.toString();
+}
+
+function fakePage() {
+  const context = { on: vi.fn(), off: vi.fn(), request: { get: vi.fn() } };
+  return { page: { context: () => context } as unknown as Page, context };
+}
+
+async function resolverWithCapture(enabled: boolean) {
+  const resolver = new SourceMapResolver(10, {}, enabled);
+  const { page, context } = fakePage();
+  await resolver.initialize(page);
+  resolver.registerScript(SCRIPT_URL, {}, 'a();\n//# sourceMappingURL=main.js.map');
+  resolver.registerSourceMap(MAP_URL, sourceMap());
+  return { resolver, context };
+}
+
+describe('SourceMapResolver', () => {
+  it('resolves locations through a captured source map', async () => {
+    const { resolver, context } = await resolverWithCapture(true);
+
+    const location = await resolver.resolveLocation(SCRIPT_URL, 1, 10);
+
+    expect(location).toMatchObject({ file: 'src/App.tsx', line: 3, column: 2, name: 'render' });
+    expect(location?.content).toContain('function render()');
+    expect(context.on).toHaveBeenCalledWith('response', expect.any(Function));
+    expect(context.request.get).not.toHaveBeenCalled();
+  });
+
+  it('loads nothing when source maps are disabled', async () => {
+    const { resolver, context } = await resolverWithCapture(false);
+
+    expect(await resolver.resolveLocation(SCRIPT_URL, 1, 10)).toBeNull();
+    await resolver.loadDiscoveredSourceMaps();
+    expect(resolver.getAllSourceFiles()).toEqual([]);
+    expect(context.on).not.toHaveBeenCalled();
+  });
+
+  it('requires initialization before resolving', async () => {
+    await expect(new SourceMapResolver().resolveLocation(SCRIPT_URL, 1, 0)).rejects.toThrow(
+      /not initialized/
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Browser, BrowserContext, Page } from 'playwright';
+import { BrowserManager, isUserContext } from '../src/browser-manager.js';
+import { ComponentTracker } from '../src/component-tracker.js';
+import { getConfig, ResolvedConfig, setConfig } from '../src/config.js';
+import { setLogLevel } from '../src/logger.js';
+import { NetworkTracer } from '../src/network-tracer.js';
+
+setLogLevel('silent');
+
+function fakeTab() {
+  const listeners: Record<string, (event: any) => void> = {};
+  const cdp = {
+    on: vi.fn((event: string, listener: (event: any) => void) => {
+      listeners[event] = listener;
+    }),
+    send: vi.fn(async () => ({})),
+    detach: vi.fn(async () => {}),
+  };
+  const frame = { evaluate: vi.fn(async () => true) };
+  const context = {
+    addInitScript: vi.fn(async () => {}),
+    exposeBinding: vi.fn(async () => {}),
+    newCDPSession: vi.fn(async () => cdp),
+    pages: () => [page, otherTab],
+  };
+  const page = {
+    context: () => context,
+    frames: () => [frame],
+    mainFrame: () => frame,
+    isClosed: () => false,
+    url: () => 'https://app.test/',
+    title: async () => 'App',
+  } as unknown as Page;
+  const otherTab = { ...page, frames: vi.fn(() => []) } as unknown as Page;
+  const browser = { contexts: () => [context] } as unknown as Browser;
+
+  return { page, otherTab, context, cdp, frame, browser, emit: listeners };
+}
+
+describe('tracing a tab of an attached browser', () => {
+  let config: ResolvedConfig;
+  let tab: ReturnType<typeof fakeTab>;
+
+  beforeEach(async () => {
+    config = getConfig();
+    setConfig({ ...config, cdpEndpoint: 'http://127.0.0.1:9222' });
+
+    tab = fakeTab();
+    const browserManager = new BrowserManager();
+    vi.spyOn(browserManager, 'launch').mockResolvedValue(tab.browser);
+    await browserManager.tabs();
+  });
+
+  afterEach(() => {
+    setConfig(config);
+  });
+
+  it('marks the contexts of the user tabs', () => {
+    expect(isUserContext(tab.context as unknown as BrowserContext)).toBe(true);
+  });
+
+  it('installs the component tracker only in the current documents of the tab', async () => {
+    await new ComponentTracker().initialize(tab.page);
+
+    expect(tab.context.addInitScript).not.toHaveBeenCalled();
+    expect(tab.frame.evaluate).toHaveBeenCalled();
+    expect(tab.otherTab.frames).not.toHaveBeenCalled();
+  });
+
+  it('traces requests through a CDP binding that is removed afterwards', async () => {
+    const tracer = new NetworkTracer();
+    await tracer.initialize(tab.page);
+
+    expect(tab.context.addInitScript).not.toHaveBeenCalled();
+    expect(tab.context.exposeBinding).not.toHaveBeenCalled();
+    expect(tab.cdp.send).toHaveBeenCalledWith('Runtime.addBinding', {
+      name: '__websee_network_event',
+    });
+    expect(tab.frame.evaluate).toHaveBeenCalledTimes(2);
+
+    tab.emit['Runtime.bindingCalled']({
+      name: '__websee_network_event',
+      payload: JSON.stringify({
+        type: 'fetch',
+        url: 'https://app.test/api/users',
+        method: 'GET',
+        stackTrace: ['at load (https://app.test/main.js:10:5)'],
+        timestamp: 1,
+        frameUrl: 'https://widget.test/',
+      }),
+    });
+    expect(tracer.getTraces()).toMatchObject([
+      {
+        url: 'https://app.test/api/users',
+        frameUrl: 'https://widget.test/',
+        initiator: { type: 'fetch', lineNumber: 10 },
+      },
+    ]);
+
+    await tracer.destroy();
+    expect(tab.cdp.send).toHaveBeenCalledWith('Runtime.removeBinding', {
+      name: '__websee_network_event',
+    });
+    expect(tab.cdp.detach).toHaveBeenCalled();
+  });
+});
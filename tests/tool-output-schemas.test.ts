@@ -0,0 +1,423 @@
+import { describe, expect, it } from 'vitest';
+import { ALL_TOOLS } from '../src/tools/index.js';
+
+const NOW = 1767225600000;
+
+const page = (totals: Record<string, number>, nextCursor?: string) => ({
+  offset: 0,
+  limit: 100,
+  totals,
+  ...(nextCursor && { nextCursor }),
+});
+
+const session = {
+  id: 's-1',
+  url: 'https://app.test/',
+  title: 'App',
+  createdAt: NOW,
+  lastUsedAt: NOW + 1000,
+  idleTimeoutMs: 600000,
+  expiresAt: NOW + 601000,
+};
+
+const screenshot = {
+  mimeType: 'image/png',
+  target: 'viewport',
+  bytes: 48213,
+  path: '/tmp/websee/shot.png',
+};
+
+const stackFrame = {
+  original: 'at render (https://app.test/main.js:1:2043)',
+  resolved: { file: 'src/App.tsx', line: 12, column: 4, content: 'return <List />;' },
+};
+
+const request = {
+  url: 'https://app.test/api/users',
+  method: 'GET',
+  status: 200,
+  duration: 84,
+  size: 1532,
+  timestamp: NOW,
+  initiator: { type: 'fetch' as const, url: 'https://app.test/main.js', lineNumber: 10 },
+  stackTrace: ['at loadUsers (https://app.test/main.js:10:5)'],
+  requestHeaders: { accept: 'application/json' },
+  responseHeaders: { 'content-type': 'application/json' },
+  frameUrl: 'https://app.test/',
+};
+
+const consoleError = { source: 'console' as const, message: 'Failed to fetch', timestamp: NOW };
+
+const sizes = (count: number, size: number) => ({ count, size, sizeKB: (size / 1024).toFixed(2) });
+
+/**
+ * A realistic result of every tool, checked against the tool's outputSchema
+ */
+const SAMPLES: Record<string, unknown> = {
+  session_open: session,
+  session_list: { sessions: [session] },
+  session_close: { sessionId: 's-1', closed: true },
+  session_save_auth: {
+    sessionId: 's-1',
+    path: '/work/.auth/state.json',
+    cookies: 3,
+    origins: ['https://app.test'],
+    appliesToNewPages: true,
+  },
+  tab_list: {
+    attached: true,
+    tabs: [{ id: 'tab-1', index: 0, url: 'https://app.test/', title: 'App' }],
+  },
+
+  debug_frontend_issue: {
+    url: 'https://app.test/',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    issues: [{ type: 'error', message: 'TypeError: x is undefined' }],
+    components: [{ name: 'UserList', framework: 'react' }],
+    network: [{ url: 'https://app.test/api/users', status: 500 }],
+    console: [{ type: 'error', text: 'Failed to fetch' }],
+    screenshot,
+    sourceMapsLoaded: 2,
+  },
+  analyze_performance: {
+    url: 'https://app.test/',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    metrics: {
+      network: { requests: 12, slow: 1 },
+      components: { renders: 40 },
+      bundle: { totalKB: 512 },
+      memory: { usedJSHeapSize: 12000000 },
+    },
+  },
+  inspect_component_state: {
+    selector: '#user-list',
+    found: true,
+    component: { name: 'UserList', props: { pageSize: 20 } },
+    children: [{ name: 'UserRow' }],
+  },
+  trace_network_requests: {
+    url: 'https://app.test/',
+    pattern: '*/api/*',
+    method: 'ALL',
+    totalRequests: 1,
+    requests: [{ url: 'https://app.test/api/users', status: 200 }],
+  },
+  analyze_bundle_size: {
+    url: 'https://app.test/',
+    scripts: { count: 3, totalKB: 412 },
+    stylesheets: { count: 1, totalKB: 20 },
+    modules: [{ name: 'lodash', sizeKB: 70 }],
+    recommendations: ['Import lodash functions individually'],
+  },
+  resolve_minified_error: {
+    resolved: true,
+    original: 'TypeError: e is undefined\n    at t (main.js:1:2043)',
+    sourceMap: ['at render (src/App.tsx:12:4)'],
+  },
+  page_screenshot: { url: 'https://app.test/', selector: '#chart', screenshot },
+
+  source_map_resolve: {
+    file: 'src/App.tsx',
+    line: 12,
+    column: 4,
+    name: 'render',
+    content: 'return <List />;',
+  },
+  source_map_get_content: {
+    file: 'src/App.tsx',
+    content: 'export function App() {\n  return <List />;\n}',
+    language: 'typescript',
+    totalLines: 40,
+    range: { start: 1, end: 3 },
+  },
+  source_trace_stack: {
+    original: ['at t (https://app.test/main.js:1:2043)'],
+    resolved: ['at render (src/App.tsx:12:4)'],
+    frames: [
+      {
+        functionName: 't',
+        fileName: 'https://app.test/main.js',
+        lineNumber: 1,
+        columnNumber: 2043,
+        original: {
+          functionName: 'render',
+          fileName: 'src/App.tsx',
+          lineNumber: 12,
+          columnNumber: 4,
+        },
+        resolved: true,
+      },
+    ],
+  },
+  source_find_definition: {
+    file: 'src/api.ts',
+    line: 8,
+    column: 0,
+    code: 'export async function loadUsers() {',
+    exports: ['loadUsers'],
+  },
+  source_get_symbols: {
+    file: 'src/api.ts',
+    exports: [{ name: 'loadUsers', line: 8, kind: 'function' }],
+    imports: [{ name: 'axios', line: 1 }],
+    types: [{ name: 'User', line: 3 }],
+  },
+  source_map_bundle: {
+    bundle: 'https://app.test/main.js',
+    sources: ['src/App.tsx', 'src/api.ts'],
+    mappings: [
+      {
+        source: 'src/App.tsx',
+        generatedLine: 1,
+        generatedColumn: 2043,
+        originalLine: 12,
+        originalColumn: 4,
+      },
+    ],
+    size: 412000,
+    page: page({ sources: 2, mappings: 1 }),
+  },
+  source_coverage_map: {
+    covered: [{ file: 'src/App.tsx', lines: [1, 2, 3], percentage: 75 }],
+    uncovered: [{ file: 'src/Admin.tsx', lines: [4], percentage: 0 }],
+    percentage: 60,
+  },
+
+  component_tree: {
+    components: [
+      { id: 0, name: 'App', type: 'function', depth: 0, childCount: 1 },
+      {
+        id: 1,
+        parentId: 0,
+        name: 'UserList',
+        type: 'function',
+        depth: 1,
+        childCount: 0,
+        props: { pageSize: 20 },
+        state: { loading: false },
+        source: { file: 'src/UserList.tsx', line: 5, column: 0 },
+      },
+    ],
+    totalCount: 2,
+    frameworks: ['react'],
+    page: page({ components: 2 }),
+  },
+  component_get_props: { componentName: 'UserList', props: { pageSize: 20 } },
+  component_get_state: { componentName: 'UserList', state: null },
+  component_find_by_name: {
+    instances: [
+      {
+        selector: '#user-list',
+        props: { pageSize: 20 },
+        state: { loading: false },
+        domId: 'user-list',
+      },
+    ],
+    count: 1,
+  },
+  component_get_source: { file: 'src/UserList.tsx', line: 5, column: 0, framework: 'react' },
+  component_track_renders: {
+    componentName: 'UserList',
+    renders: [{ timestamp: NOW, reason: 'props changed', props: { pageSize: 20 }, duration: 3 }],
+    totalRenders: 1,
+    averageInterval: 0,
+  },
+  component_get_context: {
+    contexts: [{ name: 'ThemeContext', value: { mode: 'dark' }, provider: 'ThemeProvider' }],
+  },
+  component_get_hooks: {
+    hooks: [
+      { type: 'useState', value: [], index: 0 },
+      { type: 'useEffect', dependencies: ['pageSize'], index: 1 },
+    ],
+  },
+
+  network_get_requests: { requests: [request], page: page({ requests: 250 }, 'eyJpZCI6MX0') },
+  network_get_by_url: { requests: [request] },
+  network_get_timing: { dns: 2, connect: 5, ssl: 3, ttfb: 40, download: 8, total: 58 },
+  network_trace_initiator: {
+    file: 'src/api.ts',
+    line: 10,
+    column: 5,
+    function: 'loadUsers',
+    stackTrace: [{ file: 'src/api.ts', line: 10, column: 5, function: 'loadUsers' }],
+  },
+  network_get_headers: {
+    requestHeaders: { accept: 'application/json' },
+    responseHeaders: { 'content-type': 'application/json' },
+  },
+  network_get_body: { requestBody: null, responseBody: '[]', contentType: 'application/json' },
+  network_simulate: {
+    url: 'https://app.test/',
+    throttling: { latencyMs: 400, downloadKbps: 400, uploadKbps: 400, via: 'cdp' },
+    requests: 12,
+    affected: [
+      {
+        url: 'https://app.test/api/users',
+        method: 'GET',
+        resourceType: 'fetch',
+        fault: 'status',
+        detail: 'answered with 503',
+        rule: 0,
+        timestamp: NOW,
+        initiator: { type: 'fetch' },
+        stackTrace: ['at loadUsers (src/api.ts:10:5)'],
+      },
+    ],
+    transitions: [{ offline: true, timestamp: NOW + 500 }],
+    errors: [consoleError],
+  },
+  network_mock: {
+    url: 'https://app.test/',
+    navigationError: 'net::ERR_ABORTED',
+    requests: 12,
+    applied: [
+      {
+        rule: 0,
+        url: 'https://app.test/graphql',
+        method: 'POST',
+        operation: 'GetUsers',
+        action: 'fulfill',
+        status: 200,
+        timestamp: NOW,
+      },
+    ],
+    unusedRules: [1],
+    errors: [{ source: 'pageerror', message: 'Unexpected token', timestamp: NOW }],
+  },
+  network_export_har: {
+    path: '/work/.websee/export.har',
+    entries: 12,
+    bytes: 48213,
+    redacted: true,
+    bodies: false,
+  },
+
+  build_get_manifest: {
+    type: 'webpack',
+    version: '5.90.0',
+    chunks: [{ id: 'main', files: ['main.js'], size: 412000, entry: true, initial: true }],
+    assets: [{ name: 'main.js', size: 412000, chunks: ['main'] }],
+    modules: [{ id: 42, name: './src/App.tsx', size: 2048, chunks: ['main'] }],
+  },
+  build_get_chunks: {
+    chunks: [
+      {
+        id: 'main',
+        files: ['main.js'],
+        modules: ['./src/App.tsx'],
+        size: 412000,
+        sizeKB: '402.34',
+        entry: true,
+        initial: true,
+      },
+    ],
+  },
+  build_find_module: {
+    name: './src/App.tsx',
+    id: 42,
+    size: 2048,
+    sizeKB: '2.00',
+    chunks: ['main'],
+    dependencies: ['./src/api.ts'],
+    source: 'export function App() {}',
+  },
+  build_get_dependencies: {
+    dependencies: [
+      {
+        name: 'react',
+        version: '18.2.0',
+        size: 6000,
+        sizeKB: '5.86',
+        dependents: ['./src/App.tsx'],
+        chunks: ['main'],
+      },
+    ],
+  },
+  build_analyze_size: {
+    total: 432000,
+    totalKB: '421.88',
+    totalMB: '0.41',
+    byType: { js: sizes(2, 412000), css: sizes(1, 20000), other: sizes(0, 0) },
+    large: [{ name: 'main.js', size: 412000, sizeKB: '402.34', type: 'js', percentage: '95.4' }],
+    recommendations: ['Split main.js with dynamic imports'],
+  },
+
+  error_resolve_stack: {
+    original: ['at t (https://app.test/main.js:1:2043)'],
+    resolved: [stackFrame, { original: 'at native' }],
+    message: 'Resolved 1 of 2 frames',
+  },
+  error_get_context: {
+    errors: [
+      {
+        type: 'TypeError',
+        message: 'x is undefined',
+        timestamp: NOW,
+        location: 'main.js:1:2043',
+        pageUrl: 'https://app.test/',
+      },
+    ],
+    warnings: [{ type: 'warning', message: 'Deprecated API', timestamp: NOW }],
+    components: [{ name: 'UserList', framework: 'react', state: {}, props: { pageSize: 20 } }],
+    network: [
+      {
+        url: 'https://app.test/api/users',
+        method: 'GET',
+        status: 500,
+        duration: 84,
+        timestamp: NOW,
+      },
+    ],
+    page: page({ errors: 1, warnings: 1, components: 1, network: 1 }),
+  },
+  error_trace_cause: {
+    rootCause: 'GET /api/users answered 500 before UserList rendered',
+    confidence: 'high',
+    stackTrace: [stackFrame],
+    relatedErrors: [{ message: 'Failed to fetch', timestamp: NOW, correlation: 0.9 }],
+    recommendations: ['Handle failed responses in loadUsers'],
+  },
+  error_get_similar: {
+    similar: [
+      {
+        message: 'x is undefined',
+        count: 3,
+        firstSeen: NOW,
+        lastSeen: NOW + 5000,
+        stackTrace: 'at render (src/App.tsx:12:4)',
+        pattern: 'TypeError: * is undefined',
+      },
+    ],
+  },
+};
+
+describe('tool output schemas', () => {
+  it('has a sample result for every tool', () => {
+    expect(Object.keys(SAMPLES).sort()).toEqual(ALL_TOOLS.map(tool => tool.name).sort());
+  });
+
+  it.each(ALL_TOOLS.map(tool => [tool.name, tool] as const))(
+    '%s accepts its sample',
+    (name, tool) => {
+      expect(tool.outputSchema).toBeDefined();
+      // parse strips unknown keys, so equality also catches fields the schema does not declare
+      expect(tool.outputSchema!.parse(SAMPLES[name])).toEqual(SAMPLES[name]);
+    }
+  );
+
+  it('reports a missing required field', () => {
+    const tool = ALL_TOOLS.find(tool => tool.name === 'session_close')!;
+
+    expect(tool.outputSchema!.safeParse({ sessionId: 's-1' }).success).toBe(false);
+  });
+
+  it('accepts the error form of lookup tools', () => {
+    for (const name of ['network_get_timing', 'network_get_headers', 'network_get_body']) {
+      const tool = ALL_TOOLS.find(tool => tool.name === name)!;
+      expect(tool.outputSchema!.parse({ error: 'Request not found' })).toEqual({
+        error: 'Request not found',
+      });
+    }
+  });
+});
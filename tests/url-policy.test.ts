@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BrowserContext, Page, Request, Route } from 'playwright';
+import { getConfig, ResolvedConfig, setConfig } from '../src/config.js';
+import {
+  guardNavigations,
+  NavigationBudget,
+  PolicyViolationError,
+  takeBlockedNavigation,
+  UrlPolicy,
+} from '../src/url-policy.js';
+
+const policy = new UrlPolicy({
+  allowedSchemes: ['http', 'https'],
+  allowHosts: ['*.example.com', 'admin.internal'],
+  denyHosts: ['admin.internal'],
+});
+
+describe('UrlPolicy', () => {
+  it('allows http(s) URLs on allowed hosts', () => {
+    expect(policy.isAllowed('https://app.example.com/login')).toBe(true);
+  });
+
+  it('rejects other schemes and invalid URLs', () => {
+    expect(() => policy.check('file:///etc/passwd')).toThrow(/scheme "file:"/);
+    expect(() => policy.check('not a url')).toThrow(PolicyViolationError);
+  });
+
+  it('lets the deny list win over the allow list', () => {
+    expect(() => policy.check('http://admin.internal/')).toThrow(/urlDenylist/);
+  });
+
+  it('rejects hosts outside the allow list', () => {
+    expect(() => policy.check('https://evil.test/')).toThrow(/urlAllowlist/);
+  });
+
+  it('matches hosts with a trailing dot or in upper case', () => {
+    expect(() => policy.check('http://admin.internal./')).toThrow(/urlDenylist/);
+    expect(() => policy.check('http://ADMIN.Internal../')).toThrow(/urlDenylist/);
+    expect(policy.isAllowed('https://app.example.com./')).toBe(true);
+  });
+});
+
+describe('NavigationBudget', () => {
+  it('records navigations up to the limit', () => {
+    const budget = new NavigationBudget(1);
+    budget.take('https://app.example.com/');
+    expect(() => budget.take('https://app.example.com/next')).toThrow(/Navigation limit/);
+    expect(budget.urls).toEqual(['https://app.example.com/']);
+  });
+});
+
+describe('guardNavigations', () => {
+  let config: ResolvedConfig;
+  let guard: (route: Route, request: Request) => Promise<void>;
+  let matches: (url: URL) => boolean;
+  const page = {} as Page;
+
+  beforeEach(async () => {
+    config = getConfig();
+    setConfig({ ...config, urlAllowlist: [], urlDenylist: ['admin.internal'] });
+
+    const context = {
+      route: vi.fn(async (url, handler) => {
+        matches = url;
+        guard = handler;
+      }),
+      unroute: vi.fn(async () => {}),
+    } as unknown as BrowserContext;
+    await guardNavigations(context);
+  });
+
+  afterEach(() => {
+    setConfig(config);
+  });
+
+  function fakeRoute() {
+    return { abort: vi.fn(async () => {}), fallback: vi.fn(async () => {}) };
+  }
+
+  function fakeRequest(url: string, options: { navigation?: boolean; type?: string } = {}) {
+    return {
+      url: () => url,
+      isNavigationRequest: () => options.navigation ?? true,
+      resourceType: () => options.type ?? 'document',
+      frame: () => ({ page: () => page }),
+    } as unknown as Request;
+  }
+
+  async function send(request: Request) {
+    const route = fakeRoute();
+    if (matches(new URL(request.url()))) {
+      await guard(route as unknown as Route, request);
+    }
+    return route;
+  }
+
+  it('only routes URLs the policy forbids', () => {
+    expect(matches(new URL('https://app.example.com/'))).toBe(false);
+    expect(matches(new URL('http://admin.internal/'))).toBe(true);
+  });
+
+  it('blocks a redirect to a denied host', async () => {
+    const redirect = {
+      ...fakeRequest('http://admin.internal./'),
+      redirectedFrom: () => fakeRequest('https://app.example.com/go'),
+    } as unknown as Request;
+
+    const route = await send(redirect);
+
+    expect(route.abort).toHaveBeenCalledWith('blockedbyclient');
+    expect(takeBlockedNavigation(page)?.rule).toBe('host');
+  });
+
+  it('blocks a link clicked by a step', async () => {
+    const route = await send(fakeRequest('http://Admin.Internal/settings'));
+
+    expect(route.abort).toHaveBeenCalledWith('blockedbyclient');
+  });
+
+  it('blocks a location change made by a script', async () => {
+    const route = await send(fakeRequest('file:///etc/passwd'));
+
+    expect(route.abort).toHaveBeenCalledWith('blockedbyclient');
+    expect(takeBlockedNavigation(page)?.rule).toBe('scheme');
+    expect(takeBlockedNavigation(page)).toBeUndefined();
+  });
+
+  it('blocks frame documents', async () => {
+    const route = await send(fakeRequest('http://admin.internal/', { navigation: false }));
+
+    expect(route.abort).toHaveBeenCalled();
+  });
+
+  it('leaves subresources to the page', async () => {
+    const route = await send(
+      fakeRequest('http://admin.internal/pixel.gif', { navigation: false, type: 'image' })
+    );
+
+    expect(route.abort).not.toHaveBeenCalled();
+    expect(route.fallback).toHaveBeenCalled();
+  });
+});